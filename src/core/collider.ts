@@ -0,0 +1,262 @@
+/**
+ * Kinds of collider shape
+ */
+export enum ColliderShape {
+  CIRCLE = 'circle',
+  AABB = 'aabb', // A box that stays lined up with the screen however the entity turns
+  BOX = 'box', // A box that turns with the entity
+  COMPOUND = 'compound', // Several of the above, hit if any of them is
+}
+
+/**
+ * A circle
+ */
+export interface CircleCollider {
+  shape: ColliderShape.CIRCLE;
+  radius: number;
+  x: number; // Offset of the center from the entity's position
+  y: number;
+}
+
+/**
+ * A box lined up with the screen
+ */
+export interface AabbCollider {
+  shape: ColliderShape.AABB;
+  width: number;
+  height: number;
+  x: number; // Offset of the center from the entity's position
+  y: number;
+}
+
+/**
+ * A box that turns with the entity
+ */
+export interface BoxCollider {
+  shape: ColliderShape.BOX;
+  width: number;
+  height: number;
+  x: number; // Offset of the center from the entity's position, before turning
+  y: number;
+  angle: number; // Radians, on top of the entity's own rotation
+}
+
+/**
+ * A single shape, which a compound collider is made of
+ */
+export type ColliderPart = CircleCollider | AabbCollider | BoxCollider;
+
+/**
+ * Several shapes together
+ */
+export interface CompoundCollider {
+  shape: ColliderShape.COMPOUND;
+  parts: ColliderPart[];
+}
+
+/**
+ * Shape an entity collides with, around its position and in its own frame
+ */
+export type Collider = ColliderPart | CompoundCollider;
+
+/**
+ * A collider part placed in the world: a circle, or a box that may be turned
+ */
+export interface WorldShape {
+  x: number; // Center
+  y: number;
+  circle: boolean;
+  radius: number; // Circles only
+  halfWidth: number; // Boxes only
+  halfHeight: number;
+  cos: number; // Turn of a box
+  sin: number;
+  minX: number; // Bounds
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Create a circle collider
+ * @param radius Radius
+ * @param x Offset of the center from the entity's position
+ * @param y Offset of the center from the entity's position
+ */
+export function circle(radius: number, x: number = 0, y: number = 0): CircleCollider {
+  return { shape: ColliderShape.CIRCLE, radius, x, y };
+}
+
+/**
+ * Create a box collider that stays lined up with the screen
+ * @param width Width
+ * @param height Height
+ * @param x Offset of the center from the entity's position
+ * @param y Offset of the center from the entity's position
+ */
+export function aabb(width: number, height: number, x: number = 0, y: number = 0): AabbCollider {
+  return { shape: ColliderShape.AABB, width, height, x, y };
+}
+
+/**
+ * Create a box collider that turns with the entity
+ * @param width Width
+ * @param height Height
+ * @param x Offset of the center from the entity's position
+ * @param y Offset of the center from the entity's position
+ * @param angle Radians, on top of the entity's own rotation
+ */
+export function box(width: number, height: number, x: number = 0, y: number = 0, angle: number = 0): BoxCollider {
+  return { shape: ColliderShape.BOX, width, height, x, y, angle };
+}
+
+/**
+ * Create a collider out of several shapes
+ * @param parts The shapes
+ */
+export function compound(...parts: ColliderPart[]): CompoundCollider {
+  return { shape: ColliderShape.COMPOUND, parts };
+}
+
+/**
+ * Scale a collider, as when its sprite is scaled
+ * @param collider The collider
+ * @param scale Scale factor
+ * @returns A scaled copy
+ */
+export function scaleCollider(collider: Collider, scale: number): Collider {
+  switch (collider.shape) {
+    case ColliderShape.CIRCLE:
+      return circle(collider.radius * scale, collider.x * scale, collider.y * scale);
+    case ColliderShape.AABB:
+      return aabb(collider.width * scale, collider.height * scale, collider.x * scale, collider.y * scale);
+    case ColliderShape.BOX:
+      return box(collider.width * scale, collider.height * scale, collider.x * scale, collider.y * scale, collider.angle);
+    case ColliderShape.COMPOUND:
+      return compound(...collider.parts.map((part) => scaleCollider(part, scale) as ColliderPart));
+  }
+}
+
+/**
+ * Place a collider in the world
+ * @param collider The collider
+ * @param x Entity x position
+ * @param y Entity y position
+ * @param rotation Entity rotation in radians
+ * @returns One shape per part
+ */
+export function placeCollider(collider: Collider, x: number, y: number, rotation: number): WorldShape[] {
+  if (collider.shape === ColliderShape.COMPOUND) {
+    return collider.parts.map((part) => placePart(part, x, y, rotation));
+  }
+  return [placePart(collider, x, y, rotation)];
+}
+
+/**
+ * Place a single part in the world
+ */
+function placePart(part: ColliderPart, x: number, y: number, rotation: number): WorldShape {
+  // Circles and turning boxes swing their offset round with the entity
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const turns = part.shape !== ColliderShape.AABB;
+  const centerX = x + (turns ? part.x * cos - part.y * sin : part.x);
+  const centerY = y + (turns ? part.x * sin + part.y * cos : part.y);
+
+  if (part.shape === ColliderShape.CIRCLE) {
+    return {
+      x: centerX,
+      y: centerY,
+      circle: true,
+      radius: part.radius,
+      halfWidth: 0,
+      halfHeight: 0,
+      cos: 1,
+      sin: 0,
+      minX: centerX - part.radius,
+      minY: centerY - part.radius,
+      maxX: centerX + part.radius,
+      maxY: centerY + part.radius,
+    };
+  }
+
+  const angle = part.shape === ColliderShape.BOX ? rotation + part.angle : 0;
+  const boxCos = Math.cos(angle);
+  const boxSin = Math.sin(angle);
+  const halfWidth = part.width / 2;
+  const halfHeight = part.height / 2;
+  const extentX = halfWidth * Math.abs(boxCos) + halfHeight * Math.abs(boxSin);
+  const extentY = halfWidth * Math.abs(boxSin) + halfHeight * Math.abs(boxCos);
+
+  return {
+    x: centerX,
+    y: centerY,
+    circle: false,
+    radius: 0,
+    halfWidth,
+    halfHeight,
+    cos: boxCos,
+    sin: boxSin,
+    minX: centerX - extentX,
+    minY: centerY - extentY,
+    maxX: centerX + extentX,
+    maxY: centerY + extentY,
+  };
+}
+
+/**
+ * Do two placed shapes overlap?
+ * @param a First shape
+ * @param b Second shape
+ */
+export function shapesOverlap(a: WorldShape, b: WorldShape): boolean {
+  if (a.circle && b.circle) {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const reach = a.radius + b.radius;
+    return dx * dx + dy * dy < reach * reach;
+  }
+  if (a.circle) return circleOverlapsBox(a, b);
+  if (b.circle) return circleOverlapsBox(b, a);
+  return boxesOverlap(a, b);
+}
+
+/**
+ * Does a circle overlap a box? Tested in the box's own frame, against the
+ * point of the box nearest the circle's center
+ */
+function circleOverlapsBox(circle: WorldShape, box: WorldShape): boolean {
+  const dx = circle.x - box.x;
+  const dy = circle.y - box.y;
+  const localX = dx * box.cos + dy * box.sin;
+  const localY = -dx * box.sin + dy * box.cos;
+  const nearestX = Math.max(-box.halfWidth, Math.min(box.halfWidth, localX));
+  const nearestY = Math.max(-box.halfHeight, Math.min(box.halfHeight, localY));
+  const gapX = localX - nearestX;
+  const gapY = localY - nearestY;
+  return gapX * gapX + gapY * gapY < circle.radius * circle.radius;
+}
+
+/**
+ * Do two boxes overlap? They do unless one of their four edge directions
+ * separates them (the separating axis test)
+ */
+function boxesOverlap(a: WorldShape, b: WorldShape): boolean {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const axes = [
+    [a.cos, a.sin],
+    [-a.sin, a.cos],
+    [b.cos, b.sin],
+    [-b.sin, b.cos],
+  ];
+
+  for (const [axisX, axisY] of axes) {
+    const distance = Math.abs(dx * axisX + dy * axisY);
+    const reachA = a.halfWidth * Math.abs(a.cos * axisX + a.sin * axisY) + a.halfHeight * Math.abs(-a.sin * axisX + a.cos * axisY);
+    const reachB = b.halfWidth * Math.abs(b.cos * axisX + b.sin * axisY) + b.halfHeight * Math.abs(-b.sin * axisX + b.cos * axisY);
+    if (distance >= reachA + reachB) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,171 @@
+import { SpatialHash } from './spatial-hash';
+import { circle, placeCollider, shapesOverlap } from './collider';
+import type { WorldShape } from './collider';
+import type { Entity } from '../entities/entity';
+
+/**
+ * Collision layers, as bits so a mask can name several
+ */
+export enum CollisionLayer {
+  NONE = 0,
+  PLAYER = 1 << 0,
+  PLAYER_BULLET = 1 << 1, // Player shots and missiles
+  ENEMY = 1 << 2, // Enemy ships and bosses
+  ENEMY_BULLET = 1 << 3,
+  PICKUP = 1 << 4, // Power-ups
+  HAZARD = 1 << 5, // Meteors
+}
+
+/**
+ * An entity filed in the world for the current step
+ */
+interface CollisionBody {
+  entity: Entity;
+  shapes: WorldShape[]; // The entity's collider where it is now
+  layer: CollisionLayer;
+  order: number; // Position in the order the bodies were added
+  visited: number; // Last query that found the body, so it is reported once
+}
+
+/**
+ * Finds what overlaps what. Each step the scene clears the world and adds
+ * every entity that can collide; queries then go through a spatial hash
+ * (the broad phase) so only bodies in nearby cells are tested shape against
+ * shape (the narrow phase, see collider.ts). Layers and masks decide which bodies a query can
+ * find, and results come back in the order bodies were added so collisions
+ * resolve the same way on every replay.
+ */
+export class CollisionWorld {
+  /**
+   * Broad phase
+   */
+  private hash: SpatialHash<CollisionBody>;
+
+  /**
+   * Bodies added this step
+   */
+  private bodies: CollisionBody[] = [];
+
+  /**
+   * Counts queries, marking the bodies each one has reached
+   */
+  private queryCount: number = 0;
+
+  /**
+   * Constructor
+   * @param cellSize Width and height of a broad phase cell in pixels
+   */
+  constructor(cellSize: number = 64) {
+    this.hash = new SpatialHash(cellSize);
+  }
+
+  /**
+   * Remove every body, ready for the next step
+   */
+  public clear(): void {
+    this.hash.clear();
+    this.bodies = [];
+  }
+
+  /**
+   * Add an entity where it is now, on its collision layer
+   * @param entity The entity
+   */
+  public add(entity: Entity): void {
+    const layer = entity.getCollisionLayer();
+    if (layer === CollisionLayer.NONE) return;
+
+    const body: CollisionBody = {
+      entity,
+      shapes: this.placeEntity(entity),
+      layer,
+      order: this.bodies.length,
+      visited: 0,
+    };
+
+    this.bodies.push(body);
+    for (const shape of body.shapes) {
+      this.hash.insert(body, shape.minX, shape.minY, shape.maxX, shape.maxY);
+    }
+  }
+
+  /**
+   * Find the entities overlapping an entity, as it is now
+   * @param entity The entity to test
+   * @param mask Layers to look on; the entity's own mask when omitted
+   * @returns Overlapping entities, in the order they were added
+   */
+  public query(entity: Entity, mask: number = entity.getCollisionMask()): Entity[] {
+    return this.queryShapes(this.placeEntity(entity), mask, entity);
+  }
+
+  /**
+   * Find the entities overlapping a circle, such as a blast
+   * @param x Circle center x
+   * @param y Circle center y
+   * @param radius Circle radius
+   * @param mask Layers to look on
+   * @returns Overlapping entities, in the order they were added
+   */
+  public queryCircle(x: number, y: number, radius: number, mask: number): Entity[] {
+    return this.queryShapes(placeCollider(circle(radius), x, y, 0), mask, null);
+  }
+
+  /**
+   * Visit every body added this step, as for drawing them
+   * @param visit Called with each entity, its layer and its placed shapes
+   */
+  public forEachBody(visit: (entity: Entity, layer: CollisionLayer, shapes: readonly WorldShape[]) => void): void {
+    for (const body of this.bodies) {
+      visit(body.entity, body.layer, body.shapes);
+    }
+  }
+
+  /**
+   * Find the bodies overlapping a set of placed shapes
+   * @param shapes Shapes to test
+   * @param mask Layers to look on
+   * @param exclude Entity to leave out of the results, usually the one asking
+   */
+  private queryShapes(shapes: WorldShape[], mask: number, exclude: Entity | null): Entity[] {
+    const query = ++this.queryCount;
+    const hits: CollisionBody[] = [];
+
+    for (const shape of shapes) {
+      this.hash.query(shape.minX, shape.minY, shape.maxX, shape.maxY, (body) => {
+        if (body.visited === query) return;
+        if ((body.layer & mask) === 0 || body.entity === exclude) return;
+
+        // Check the bounds first, then the shapes themselves
+        for (const other of body.shapes) {
+          if (
+            other.maxX > shape.minX && other.minX < shape.maxX &&
+            other.maxY > shape.minY && other.minY < shape.maxY &&
+            shapesOverlap(shape, other)
+          ) {
+            body.visited = query;
+            hits.push(body);
+            return;
+          }
+        }
+      });
+    }
+
+    return hits.sort((a, b) => a.order - b.order).map((body) => body.entity);
+  }
+
+  /**
+   * Place an entity's collider where the entity is now
+   * @param entity The entity
+   */
+  private placeEntity(entity: Entity): WorldShape[] {
+    return placeCollider(entity.getCollider(), entity.getX(), entity.getY(), entity.getRotation());
+  }
+
+  /**
+   * Get the number of bodies added this step
+   */
+  public getBodyCount(): number {
+    return this.bodies.length;
+  }
+}
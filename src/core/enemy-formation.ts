@@ -0,0 +1,174 @@
+import { FlightPath } from './flight-path';
+import type { PathPoint } from './flight-path';
+import { RandomService, RandomStream } from './random';
+import type { EnemyShip } from '../entities/enemy-ship';
+import type { Entity } from '../entities/entity';
+
+/**
+ * An enemy holding a place in the formation
+ */
+interface FormationMember {
+  enemy: EnemyShip;
+  offsetX: number; // Pixels from the formation's center
+  offsetY: number;
+}
+
+/**
+ * A group of enemies that holds formation near the top of the screen and
+ * sways as one. Members peel off one at a time to dive at the target, and
+ * once the formation has held long enough the rest follow in quick succession.
+ */
+export class EnemyFormation {
+  /**
+   * Enemies holding a place in the formation
+   */
+  private members: FormationMember[] = [];
+
+  /**
+   * Center the formation sways around
+   */
+  private readonly anchorX: number;
+  private readonly anchorY: number;
+
+  /**
+   * Seconds since the formation was created
+   */
+  private age: number = 0;
+
+  /**
+   * Seconds until the next member dives
+   */
+  private diveTimer: number = 4;
+
+  /**
+   * Seconds between dives while the formation holds
+   */
+  private readonly diveInterval: number = 2.5;
+
+  /**
+   * Seconds the formation holds before the remaining members all dive
+   */
+  private readonly holdTime: number = 14;
+
+  /**
+   * Seconds between dives once the formation breaks up
+   */
+  private readonly breakInterval: number = 0.5;
+
+  /**
+   * Side to side sway in pixels
+   */
+  private readonly swayAmplitude: number = 40;
+
+  /**
+   * Sway speed in radians per second
+   */
+  private readonly swayFrequency: number = 0.8;
+
+  /**
+   * Entity the members dive at
+   */
+  private target: Entity | null = null;
+
+  /**
+   * Screen dimensions
+   */
+  private screenWidth: number;
+  private screenHeight: number;
+
+  /**
+   * Constructor
+   * @param anchorX Center of the formation
+   * @param anchorY Center of the formation
+   * @param screenWidth Screen width
+   * @param screenHeight Screen height
+   */
+  constructor(anchorX: number, anchorY: number, screenWidth: number, screenHeight: number) {
+    this.anchorX = anchorX;
+    this.anchorY = anchorY;
+    this.screenWidth = screenWidth;
+    this.screenHeight = screenHeight;
+  }
+
+  /**
+   * Give an enemy a place in the formation
+   * @param enemy The enemy joining
+   * @param offsetX Place relative to the formation's center
+   * @param offsetY Place relative to the formation's center
+   */
+  public addMember(enemy: EnemyShip, offsetX: number, offsetY: number): void {
+    this.members.push({ enemy, offsetX, offsetY });
+    enemy.joinFormation(this);
+  }
+
+  /**
+   * Sway the formation and send members diving
+   * @param deltaTime Time since last update in seconds
+   */
+  public update(deltaTime: number): void {
+    this.age += deltaTime;
+
+    // Members that were shot down, flew off or left on a dive no longer count
+    this.members = this.members.filter(({ enemy }) =>
+      enemy.isActive() && !enemy.isDestroyed() && enemy.isInFormation(this)
+    );
+
+    this.diveTimer -= deltaTime;
+    if (this.diveTimer <= 0) {
+      this.diveTimer += this.age >= this.holdTime ? this.breakInterval : this.diveInterval;
+      this.sendDiver();
+    }
+  }
+
+  /**
+   * Send a member that has taken its place on a dive at the target
+   */
+  private sendDiver(): void {
+    const ready = this.members.filter(({ enemy }) => enemy.isDocked());
+    if (ready.length === 0) return;
+
+    const { enemy } = RandomService.getInstance().getStream(RandomStream.ENEMY).pick(ready);
+
+    const targetX = this.target && this.target.isActive() ? this.target.getX() : this.screenWidth / 2;
+    enemy.dive(FlightPath.createDive(enemy.getX(), enemy.getY(), targetX, this.screenWidth, this.screenHeight));
+  }
+
+  /**
+   * Get where a member should be right now
+   * @param enemy The member
+   */
+  public getSlotPosition(enemy: EnemyShip): PathPoint {
+    const member = this.members.find((candidate) => candidate.enemy === enemy);
+    const sway = Math.sin(this.age * this.swayFrequency) * this.swayAmplitude;
+
+    return {
+      x: this.anchorX + sway + (member ? member.offsetX : 0),
+      y: this.anchorY + (member ? member.offsetY : 0),
+    };
+  }
+
+  /**
+   * Has every member left the formation?
+   */
+  public isEmpty(): boolean {
+    return this.members.length === 0;
+  }
+
+  /**
+   * Set the entity members dive at
+   * @param target The entity to dive at
+   */
+  public setTarget(target: Entity | null): void {
+    this.target = target;
+  }
+
+  /**
+   * Set screen dimensions
+   * @param width Screen width
+   * @param height Screen height
+   */
+  public setScreenDimensions(width: number, height: number): void {
+    this.screenWidth = width;
+    this.screenHeight = height;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Duration of a single simulation step in seconds (60 steps per second).
+ *
+ * Every update in the game receives its deltaTime in seconds, so speeds are
+ * expressed in pixels per second and timers/cooldowns in seconds.
+ */
+export const FIXED_TIME_STEP = 1 / 60;
+
+/**
+ * Upper bound on the real time consumed in a single frame, in seconds.
+ * Prevents a "spiral of death" after the tab was hidden or the browser stalled.
+ */
+const MAX_FRAME_TIME = 0.25;
+
+/**
+ * Fixed-step accumulator that decouples the simulation from the display refresh rate
+ */
+export class FixedTimestep {
+  /**
+   * Real time not yet consumed by simulation steps, in seconds
+   */
+  private accumulator: number = 0;
+
+  /**
+   * Constructor
+   * @param step Callback advancing the simulation by one fixed step (deltaTime in seconds)
+   * @param render Callback rendering the simulation, interpolated between the last two steps
+   * @param stepSize Duration of a simulation step in seconds
+   */
+  constructor(
+    private step: (deltaTime: number) => void,
+    private render: (alpha: number) => void,
+    private readonly stepSize: number = FIXED_TIME_STEP
+  ) {
+  }
+
+  /**
+   * Advance by the real time elapsed since the previous frame
+   * @param elapsed Elapsed real time in seconds
+   */
+  public advance(elapsed: number): void {
+    this.accumulator += Math.min(Math.max(elapsed, 0), MAX_FRAME_TIME);
+
+    // Run as many whole simulation steps as the elapsed time allows
+    while (this.accumulator >= this.stepSize) {
+      this.step(this.stepSize);
+      this.accumulator -= this.stepSize;
+    }
+
+    // Render the remainder as a fraction of the next step
+    this.render(this.accumulator / this.stepSize);
+  }
+
+  /**
+   * Discard any accumulated time (e.g. after loading or resuming)
+   */
+  public reset(): void {
+    this.accumulator = 0;
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * A point on a flight path, in pixels
+ */
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * How a flight path's control points are turned into a curve
+ */
+export enum SplineType {
+  CATMULL_ROM = 'catmull-rom', // Passes through every point
+  BEZIER = 'bezier', // Chained cubic segments: start, two handles, end, two handles, end...
+}
+
+/**
+ * A sampled point along the path and the distance travelled to reach it
+ */
+interface PathSample extends PathPoint {
+  distance: number;
+}
+
+/**
+ * A curve enemies fly along at a steady speed.
+ * The spline is sampled once up front so positions can be looked up by
+ * distance travelled rather than by curve parameter, which would speed up
+ * and slow down with the spacing of the control points.
+ */
+export class FlightPath {
+  /**
+   * Points along the curve with their running distance
+   */
+  private samples: PathSample[] = [];
+
+  /**
+   * Total length of the curve in pixels
+   */
+  private length: number = 0;
+
+  /**
+   * Constructor
+   * @param type How the control points are interpreted
+   * @param points Control points in pixels
+   * @param resolution Samples per segment of the curve
+   */
+  constructor(type: SplineType, points: PathPoint[], resolution: number = 16) {
+    const curve = type === SplineType.BEZIER
+      ? FlightPath.sampleBezier(points, resolution)
+      : FlightPath.sampleCatmullRom(points, resolution);
+
+    for (const point of curve) {
+      const last = this.samples[this.samples.length - 1];
+      if (last) {
+        this.length += Math.hypot(point.x - last.x, point.y - last.y);
+      }
+      this.samples.push({ x: point.x, y: point.y, distance: this.length });
+    }
+  }
+
+  /**
+   * Sample a Catmull-Rom spline running through every point
+   * @param points Points to pass through
+   * @param resolution Samples per segment
+   */
+  private static sampleCatmullRom(points: PathPoint[], resolution: number): PathPoint[] {
+    if (points.length < 2) return [...points];
+
+    const curve: PathPoint[] = [points[0]];
+
+    for (let i = 0; i < points.length - 1; i++) {
+      // The end points are repeated so the curve reaches them
+      const p0 = points[Math.max(i - 1, 0)];
+      const p1 = points[i];
+      const p2 = points[i + 1];
+      const p3 = points[Math.min(i + 2, points.length - 1)];
+
+      for (let step = 1; step <= resolution; step++) {
+        const t = step / resolution;
+        const t2 = t * t;
+        const t3 = t2 * t;
+
+        curve.push({
+          x: 0.5 * (2 * p1.x + (p2.x - p0.x) * t + (2 * p0.x - 5 * p1.x + 4 * p2.x - p3.x) * t2 + (3 * p1.x - p0.x - 3 * p2.x + p3.x) * t3),
+          y: 0.5 * (2 * p1.y + (p2.y - p0.y) * t + (2 * p0.y - 5 * p1.y + 4 * p2.y - p3.y) * t2 + (3 * p1.y - p0.y - 3 * p2.y + p3.y) * t3),
+        });
+      }
+    }
+
+    return curve;
+  }
+
+  /**
+   * Sample chained cubic Bezier segments; trailing points that do not make
+   * up a full segment are ignored
+   * @param points Start point followed by (handle, handle, end) triples
+   * @param resolution Samples per segment
+   */
+  private static sampleBezier(points: PathPoint[], resolution: number): PathPoint[] {
+    if (points.length < 4) return [...points];
+
+    const curve: PathPoint[] = [points[0]];
+
+    for (let i = 0; i + 3 < points.length; i += 3) {
+      const p0 = points[i];
+      const p1 = points[i + 1];
+      const p2 = points[i + 2];
+      const p3 = points[i + 3];
+
+      for (let step = 1; step <= resolution; step++) {
+        const t = step / resolution;
+        const u = 1 - t;
+
+        curve.push({
+          x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+          y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+        });
+      }
+    }
+
+    return curve;
+  }
+
+  /**
+   * Build the Galaga-style dive of an enemy breaking out of formation:
+   * a short loop outwards, then a swoop down through the target's column
+   * and off the bottom of the screen
+   * @param x Where the dive starts
+   * @param y Where the dive starts
+   * @param targetX Column to dive through, usually the player's
+   * @param screenWidth Screen width
+   * @param screenHeight Screen height
+   */
+  public static createDive(x: number, y: number, targetX: number, screenWidth: number, screenHeight: number): FlightPath {
+    // Loop outwards, towards the nearer edge, before turning back in
+    const side = x < screenWidth / 2 ? -1 : 1;
+
+    return new FlightPath(SplineType.CATMULL_ROM, [
+      { x, y },
+      { x: x + side * 35, y: y - 40 },
+      { x: x + side * 70, y: y + 5 },
+      { x: (x + targetX) / 2, y: screenHeight * 0.5 },
+      { x: targetX, y: screenHeight * 0.8 },
+      { x: targetX - side * 60, y: screenHeight + 80 },
+    ]);
+  }
+
+  /**
+   * Get the total length of the path in pixels
+   */
+  public getLength(): number {
+    return this.length;
+  }
+
+  /**
+   * Get the point reached after travelling a distance along the path;
+   * distances outside the path clamp to its ends
+   * @param distance Pixels travelled from the start
+   */
+  public getPoint(distance: number): PathPoint {
+    const index = this.findSegment(distance);
+    const a = this.samples[index];
+    const b = this.samples[Math.min(index + 1, this.samples.length - 1)];
+
+    const span = b.distance - a.distance;
+    const t = span > 0 ? Math.max(0, Math.min(1, (distance - a.distance) / span)) : 0;
+
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  }
+
+  /**
+   * Get the direction of travel at a distance along the path
+   * @param distance Pixels travelled from the start
+   * @returns Angle in radians, 0 pointing down the screen, positive turning towards the left
+   */
+  public getHeading(distance: number): number {
+    const index = this.findSegment(distance);
+    const a = this.samples[index];
+    const b = this.samples[Math.min(index + 1, this.samples.length - 1)];
+
+    return Math.atan2(b.y - a.y, b.x - a.x) - Math.PI / 2;
+  }
+
+  /**
+   * Find the sample starting the stretch of path a distance falls in
+   * @param distance Pixels travelled from the start
+   */
+  private findSegment(distance: number): number {
+    let low = 0;
+    let high = this.samples.length - 2;
+
+    if (high < 0) return 0;
+
+    // Binary search for the last sample at or before the distance
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.samples[mid].distance <= distance) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return low;
+  }
+}
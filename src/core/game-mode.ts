@@ -0,0 +1,59 @@
+import { RandomService } from './random';
+
+/**
+ * Game modes selectable from the mode select screen
+ */
+export enum GameMode {
+  CLASSIC = 'classic',
+  DAILY = 'daily',
+  HARDCORE = 'hardcore',
+}
+
+/**
+ * Rules of a game mode
+ */
+export interface GameModeConfig {
+  mode: GameMode;
+  name: string;
+  description: string;
+  lives: number;
+  /**
+   * Seed for a new run of this mode
+   */
+  createSeed: () => number;
+}
+
+/**
+ * Seed shared by every player on the current (UTC) day, e.g. 20261018
+ */
+function dailySeed(): number {
+  const today = new Date();
+  return today.getUTCFullYear() * 10000 + (today.getUTCMonth() + 1) * 100 + today.getUTCDate();
+}
+
+/**
+ * Configuration of every game mode
+ */
+export const GAME_MODES: Record<GameMode, GameModeConfig> = {
+  [GameMode.CLASSIC]: {
+    mode: GameMode.CLASSIC,
+    name: 'Classic',
+    description: 'Three lives, endless waves',
+    lives: 3,
+    createSeed: () => RandomService.createSeed(),
+  },
+  [GameMode.DAILY]: {
+    mode: GameMode.DAILY,
+    name: 'Daily Challenge',
+    description: 'Same run for everyone today',
+    lives: 3,
+    createSeed: dailySeed,
+  },
+  [GameMode.HARDCORE]: {
+    mode: GameMode.HARDCORE,
+    name: 'Hardcore',
+    description: 'One life, no second chances',
+    lives: 1,
+    createSeed: () => RandomService.createSeed(),
+  },
+};
@@ -1,7 +1,18 @@
 import { Application, Ticker } from 'pixi.js';
 import { SceneManager } from './scene-manager';
 import { GameScene } from '../scenes/game-scene';
+import { TitleScene } from '../scenes/title-scene';
+import { ModeSelectScene } from '../scenes/mode-select-scene';
+import { ResultsScene } from '../scenes/results-scene';
+import { CreditsScene } from '../scenes/credits-scene';
+import { HighScoresScene } from '../scenes/high-scores-scene';
+import { PauseScene } from '../scenes/pause-scene';
+import { SceneName } from '../scenes/scene';
+import { GameMode } from './game-mode';
 import { AssetLoader } from '../library/asset-loader';
+import { FixedTimestep } from './fixed-timestep';
+import { InputManager } from './input-manager';
+import { FadeTransition, SlideDirection, SlideTransition, WipeTransition } from './scene-transition';
 
 /**
  * Main Game class that handles initialization and the game loop
@@ -10,8 +21,19 @@ export class Game {
   private app: Application;
   private sceneManager: SceneManager = SceneManager.getInstance();
   private assetLoader: AssetLoader = AssetLoader.getInstance();
+  private inputManager: InputManager = InputManager.getInstance();
   private assetsPending: boolean = true;
   
+  // Fixed-step simulation loop driven by the PIXI ticker
+  private timestep: FixedTimestep = new FixedTimestep(
+    (deltaTime) => {
+      this.inputManager.pollGamepads();
+      this.sceneManager.update(deltaTime);
+      this.inputManager.update();
+    },
+    (alpha) => this.sceneManager.render(alpha)
+  );
+  
   // Default game dimensions with vertical orientation
   private readonly gameWidth: number = 500;
   private readonly gameHeight: number = 800;
@@ -55,7 +77,8 @@ export class Game {
     // Create scenes
     this.createScenes();
 
-    // Set up the game loop
+    // Set up the game loop, discarding any time spent loading
+    this.timestep.reset();
     this.app.ticker.add(this.update, this);
   }
 
@@ -75,26 +98,105 @@ export class Game {
    * Create game scenes
    */
   private createScenes(): void {
-    // Create and register the game scene
     const gameScene = new GameScene();
-    gameScene.init();
-    this.sceneManager.registerScene('game', gameScene);
 
-    // Switch to the game scene
-    this.sceneManager.switchToScene('game');
+    // Menus slide between each other; the game and results fade in
+    const slide = (from: SlideDirection) => new SlideTransition(0.35, from);
+    const fade = () => new FadeTransition(0.5);
+    const toTitle = () => this.sceneManager.switchToScene(SceneName.TITLE, slide(SlideDirection.LEFT));
+
+    // The high score table goes back to whichever screen opened it
+    let highScoresReturn = SceneName.TITLE;
+    const highScoresScene = new HighScoresScene({
+      onBack: () => this.sceneManager.switchToScene(highScoresReturn, slide(SlideDirection.UP)),
+    });
+    const showHighScores = (from: SceneName, mode: GameMode, highlight: number = -1) => {
+      highScoresReturn = from;
+      highScoresScene.showMode(mode, highlight);
+      this.sceneManager.switchToScene(SceneName.HIGH_SCORES, slide(SlideDirection.DOWN));
+    };
+
+    const titleScene = new TitleScene({
+      onStart: () => this.sceneManager.switchToScene(SceneName.MODE_SELECT, slide(SlideDirection.RIGHT)),
+      onHighScores: () => showHighScores(SceneName.TITLE, GameMode.CLASSIC),
+      onCredits: () => this.sceneManager.switchToScene(SceneName.CREDITS, slide(SlideDirection.DOWN)),
+    });
+
+    const modeSelectScene = new ModeSelectScene({
+      onModeSelected: (mode) => {
+        gameScene.startRun(mode);
+        this.sceneManager.switchToScene(SceneName.GAME, fade());
+      },
+      onBack: toTitle,
+    });
+
+    const resultsScene = new ResultsScene({
+      onPlayAgain: (result) => {
+        gameScene.startRun(result.mode);
+        this.sceneManager.switchToScene(SceneName.GAME, fade());
+      },
+      onWatchReplay: (result) => {
+        if (result.replay) {
+          gameScene.watchReplay(result.replay);
+          this.sceneManager.switchToScene(SceneName.GAME, fade());
+        }
+      },
+      onHighScores: (result) => showHighScores(SceneName.RESULTS, result.mode, result.highScoreRank),
+      onChangeMode: () => this.sceneManager.switchToScene(SceneName.MODE_SELECT, slide(SlideDirection.RIGHT)),
+      onTitle: toTitle,
+    });
+
+    const creditsScene = new CreditsScene({
+      onBack: () => this.sceneManager.switchToScene(SceneName.TITLE, slide(SlideDirection.UP)),
+    });
+
+    // Pushed on top of the game by GameScene.pause()
+    const pauseScene = new PauseScene({
+      onResume: () => gameScene.resume(),
+      onRestart: () => gameScene.startRun(gameScene.getMode()),
+      onQuit: () => {
+        gameScene.resume();
+        this.sceneManager.switchToScene(SceneName.TITLE, new WipeTransition(0.5));
+      },
+    });
+
+    gameScene.setRunFinishedCallback((result) => {
+      resultsScene.showResult(result);
+      this.sceneManager.switchToScene(SceneName.RESULTS, fade());
+    });
+    gameScene.setHighScoresCallback((mode, highlight) => showHighScores(SceneName.GAME, mode, highlight));
+
+    // Initialize and register every scene
+    const scenes = [
+      { name: SceneName.TITLE, scene: titleScene },
+      { name: SceneName.MODE_SELECT, scene: modeSelectScene },
+      { name: SceneName.GAME, scene: gameScene },
+      { name: SceneName.PAUSE, scene: pauseScene },
+      { name: SceneName.RESULTS, scene: resultsScene },
+      { name: SceneName.CREDITS, scene: creditsScene },
+      { name: SceneName.HIGH_SCORES, scene: highScoresScene },
+    ];
+    for (const { name, scene } of scenes) {
+      scene.init();
+      scene.deactivate();
+      this.sceneManager.registerScene(name, scene);
+    }
+
+    // Start on the title screen
+    this.sceneManager.switchToScene(SceneName.TITLE, fade());
   }
 
   /**
    * Main game loop
+   * Runs the simulation in fixed steps and renders with interpolation,
+   * so gameplay is independent of the display refresh rate
    * @param ticker The PIXI ticker
    */
   private update(ticker: Ticker): void {
     if (this.assetsPending) return;
 
-    const deltaTime = ticker.deltaTime;
-    
-    // Update the scene manager
-    this.sceneManager.update(deltaTime);
+    // Convert the ticker's elapsed milliseconds into seconds
+    this.timestep.advance(ticker.deltaMS / 1000);
   }
 
   /**
@@ -0,0 +1,115 @@
+import { GameScene } from '../scenes/game-scene';
+import { InputManager } from './input-manager';
+import { SoundManager } from '../library/sound-manager';
+import { ExplosionManager } from '../library/explosion-manager';
+import { FIXED_TIME_STEP } from './fixed-timestep';
+import { GameMode } from './game-mode';
+
+/**
+ * Controls the player in a headless game by pressing keys on the input manager.
+ * Called once before every simulation step.
+ */
+export type HeadlessController = (scene: GameScene, input: InputManager) => void;
+
+/**
+ * Outcome of a headless game
+ */
+export interface HeadlessGameResult {
+  seed: number;
+  score: number;
+  lives: number;
+  gameTime: number; // Seconds of simulated play
+  steps: number;
+  gameOver: boolean;
+}
+
+/**
+ * Runs the full gameplay loop without a renderer, audio or asset loading,
+ * so games can be simulated in Node (balance testing, regression runs in CI)
+ */
+export class HeadlessGame {
+  /**
+   * The gameplay scene being simulated
+   */
+  private scene: GameScene;
+
+  /**
+   * Number of simulation steps run so far
+   */
+  private steps: number = 0;
+
+  /**
+   * Constructor
+   * @param seed Seed for the run; the same seed and inputs reproduce the same game
+   * @param mode Game mode to play (classic when omitted)
+   */
+  constructor(seed?: number, mode?: GameMode) {
+    // Nothing should make a sound while simulating
+    SoundManager.getInstance().setMuted(true);
+    InputManager.getInstance().releaseAll();
+
+    this.scene = new GameScene({ headless: true, seed, mode });
+    this.scene.init();
+    this.scene.activate();
+  }
+
+  /**
+   * Advance the simulation by one fixed step
+   */
+  public step(): void {
+    this.scene.update(FIXED_TIME_STEP);
+    InputManager.getInstance().update();
+    this.steps++;
+  }
+
+  /**
+   * Run until game over or until the time limit is reached
+   * @param maxGameTime Maximum simulated time in seconds
+   * @param controller Optional controller driving the player
+   */
+  public run(maxGameTime: number, controller?: HeadlessController): HeadlessGameResult {
+    const input = InputManager.getInstance();
+
+    while (!this.scene.isOver() && this.scene.getGameTime() < maxGameTime) {
+      if (controller) {
+        controller(this.scene, input);
+      }
+      this.step();
+    }
+
+    return this.getResult();
+  }
+
+  /**
+   * Get the current outcome of the game
+   */
+  public getResult(): HeadlessGameResult {
+    const player = this.scene.getPlayer();
+
+    return {
+      seed: this.scene.getSeed(),
+      score: this.scene.getScore(),
+      lives: player ? player.getLives() : 0,
+      gameTime: this.scene.getGameTime(),
+      steps: this.steps,
+      gameOver: this.scene.isOver()
+    };
+  }
+
+  /**
+   * Get the simulated scene
+   */
+  public getScene(): GameScene {
+    return this.scene;
+  }
+
+  /**
+   * Tear down the simulated scene
+   */
+  public destroy(): void {
+    this.scene.deactivate();
+    this.scene.getContainer().destroy({ children: true });
+    ExplosionManager.getInstance().clear();
+    InputManager.getInstance().releaseAll();
+  }
+}
@@ -0,0 +1,148 @@
+import type { GameMode } from './game-mode';
+
+/**
+ * One line of a high score table
+ */
+export interface HighScoreEntry {
+  initials: string;
+  score: number;
+  wave: number; // Wave reached
+  gameTime: number; // Seconds survived
+  date: number; // When the run ended, in milliseconds since the epoch
+}
+
+/**
+ * Prefix of the storage key of each mode's table
+ */
+const STORAGE_KEY = 'space-shooter-high-scores';
+
+/**
+ * Keeps the top scores of each game mode, saved in the browser's local
+ * storage so they survive a reload. Without local storage (e.g. in Node)
+ * the tables only last as long as the process.
+ */
+export class HighScores {
+  /**
+   * Singleton instance
+   */
+  private static instance: HighScores;
+
+  /**
+   * Entries kept per table
+   */
+  public static readonly MAX_ENTRIES = 10;
+
+  /**
+   * Tables loaded so far, best score first
+   */
+  private tables: Map<GameMode, HighScoreEntry[]> = new Map();
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    // Tables are loaded when first asked for
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): HighScores {
+    if (!HighScores.instance) {
+      HighScores.instance = new HighScores();
+    }
+    return HighScores.instance;
+  }
+
+  /**
+   * Get a mode's table
+   * @param mode Game mode
+   * @returns Entries, best score first
+   */
+  public getScores(mode: GameMode): readonly HighScoreEntry[] {
+    let table = this.tables.get(mode);
+    if (!table) {
+      table = this.load(mode);
+      this.tables.set(mode, table);
+    }
+    return table;
+  }
+
+  /**
+   * Would a score make it into a mode's table?
+   * @param mode Game mode
+   * @param score Score of the run
+   */
+  public qualifies(mode: GameMode, score: number): boolean {
+    if (score <= 0) return false;
+
+    const table = this.getScores(mode);
+    return table.length < HighScores.MAX_ENTRIES || score > table[table.length - 1].score;
+  }
+
+  /**
+   * Add a run to a mode's table and save it
+   * @param mode Game mode
+   * @param entry The run
+   * @returns Position in the table (0 is the top), or -1 if it did not make it
+   */
+  public add(mode: GameMode, entry: HighScoreEntry): number {
+    if (!this.qualifies(mode, entry.score)) return -1;
+
+    // Ties go below the scores already there
+    const table = [...this.getScores(mode)];
+    let rank = table.findIndex((other) => entry.score > other.score);
+    if (rank < 0) rank = table.length;
+
+    table.splice(rank, 0, entry);
+    table.length = Math.min(table.length, HighScores.MAX_ENTRIES);
+
+    this.tables.set(mode, table);
+    this.save(mode, table);
+    return rank;
+  }
+
+  /**
+   * Read a mode's table from local storage
+   * @param mode Game mode
+   */
+  private load(mode: GameMode): HighScoreEntry[] {
+    if (typeof localStorage === 'undefined') return [];
+
+    try {
+      const data = JSON.parse(localStorage.getItem(`${STORAGE_KEY}-${mode}`) ?? '[]');
+      if (!Array.isArray(data)) return [];
+
+      return data
+        .filter((entry) => typeof entry?.initials === 'string' && typeof entry.score === 'number')
+        .map((entry) => ({
+          initials: entry.initials.slice(0, 3),
+          score: entry.score,
+          wave: entry.wave ?? 1,
+          gameTime: entry.gameTime ?? 0,
+          date: entry.date ?? 0,
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, HighScores.MAX_ENTRIES);
+    } catch (error) {
+      console.warn('Could not load high scores:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Write a mode's table to local storage
+   * @param mode Game mode
+   * @param table Entries to save
+   */
+  private save(mode: GameMode, table: HighScoreEntry[]): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      localStorage.setItem(`${STORAGE_KEY}-${mode}`, JSON.stringify(table));
+    } catch (error) {
+      // Storage may be full or disabled; the table still lasts this session
+      console.warn('Could not save high scores:', error);
+    }
+  }
+}
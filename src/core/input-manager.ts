@@ -1,14 +1,69 @@
 /**
- * Input manager class for handling keyboard input
+ * Player input flags, sampled once per simulation step into a single bitmask
+ * so input can be recorded and replayed
+ */
+export enum InputFlag {
+  UP = 1,
+  DOWN = 2,
+  LEFT = 4,
+  RIGHT = 8,
+  FIRE = 16,
+  SECONDARY = 32,
+  FOCUS = 64, // Slow, precise movement with the hitbox shown
+}
+
+/**
+ * Standard gamepad buttons and the keys they act as
+ */
+const GAMEPAD_BUTTON_KEYS: Record<number, string> = {
+  0: ' ',          // A: fire / select
+  1: 'Escape',     // B: back
+  2: 'x',          // X: secondary weapon
+  5: 'Shift',      // Right bumper: focus
+  9: 'Escape',     // Start: pause
+  12: 'ArrowUp',   // D-pad
+  13: 'ArrowDown',
+  14: 'ArrowLeft',
+  15: 'ArrowRight',
+};
+
+/**
+ * How far the left stick must be pushed to count as an arrow key
+ */
+const GAMEPAD_STICK_THRESHOLD = 0.5;
+
+/**
+ * Input manager class for handling keyboard and gamepad input
  */
 export class InputManager {
   private static instance: InputManager;
 
   /**
-   * Keys currently pressed
+   * Keys currently held on the keyboard (or pressed programmatically)
    */
   private keysPressed: Set<string> = new Set();
 
+  /**
+   * Keys pressed down since the last simulation step
+   */
+  private keysJustPressed: Set<string> = new Set();
+
+  /**
+   * Keys currently held through a gamepad, kept apart from the keyboard so
+   * letting go of a button does not release the same key held on the keyboard
+   */
+  private gamepadKeys: Set<string> = new Set();
+
+  /**
+   * Whether input is ignored, e.g. during scene transitions
+   */
+  private suppressed: boolean = false;
+
+  /**
+   * Listeners called when the window loses focus
+   */
+  private blurListeners: (() => void)[] = [];
+
   /**
    * Constructor
    */
@@ -30,15 +85,24 @@ export class InputManager {
    * Set up event listeners for keyboard input
    */
   private setupEventListeners(): void {
+    // No window to listen to when running headless (e.g. in Node)
+    if (typeof window === 'undefined') {
+      return;
+    }
+
     // Keydown event listener
     window.addEventListener('keydown', (event: KeyboardEvent) => {
-      this.keysPressed.add(event.key);
+      const key = this.normalizeKey(event.key);
+      if (!this.isKeyHeld(key)) {
+        this.keysJustPressed.add(key);
+      }
+      this.keysPressed.add(key);
       console.log(`Key pressed: ${event.key}, Keys now pressed:`, Array.from(this.keysPressed));
     });
 
     // Keyup event listener
     window.addEventListener('keyup', (event: KeyboardEvent) => {
-      this.keysPressed.delete(event.key);
+      this.keysPressed.delete(this.normalizeKey(event.key));
       console.log(`Key released: ${event.key}, Keys now pressed:`, Array.from(this.keysPressed));
     });
 
@@ -46,15 +110,158 @@ export class InputManager {
     window.addEventListener('blur', () => {
       console.log('Window lost focus, clearing all pressed keys');
       this.keysPressed.clear();
+      this.gamepadKeys.clear();
+
+      for (const listener of this.blurListeners) {
+        listener();
+      }
     });
   }
 
+  /**
+   * Add a listener called when the window loses focus; adding one twice has no effect
+   * @param listener Function to call
+   */
+  public addBlurListener(listener: () => void): void {
+    if (!this.blurListeners.includes(listener)) {
+      this.blurListeners.push(listener);
+    }
+  }
+
+  /**
+   * Remove a window focus listener
+   * @param listener Function to remove
+   */
+  public removeBlurListener(listener: () => void): void {
+    const index = this.blurListeners.indexOf(listener);
+    if (index !== -1) {
+      this.blurListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Normalize a key name so letters match regardless of shift or caps lock
+   * @param key The key from the keyboard event
+   */
+  private normalizeKey(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+  }
+
+  /**
+   * Poll connected gamepads, mapping the d-pad and left stick to the arrow keys,
+   * A to space, X to x and B / Start to Escape
+   */
+  public pollGamepads(): void {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) {
+      return;
+    }
+
+    const held = new Set<string>();
+
+    for (const gamepad of navigator.getGamepads()) {
+      if (!gamepad) continue;
+
+      gamepad.buttons.forEach((button, index) => {
+        const key = GAMEPAD_BUTTON_KEYS[index];
+        if (key && button.pressed) {
+          held.add(key);
+        }
+      });
+
+      const [stickX = 0, stickY = 0] = gamepad.axes;
+      if (stickX < -GAMEPAD_STICK_THRESHOLD) held.add('ArrowLeft');
+      if (stickX > GAMEPAD_STICK_THRESHOLD) held.add('ArrowRight');
+      if (stickY < -GAMEPAD_STICK_THRESHOLD) held.add('ArrowUp');
+      if (stickY > GAMEPAD_STICK_THRESHOLD) held.add('ArrowDown');
+    }
+
+    // Keys held now that were not held on either device count as just pressed
+    for (const key of held) {
+      if (!this.isKeyHeld(key)) {
+        this.keysJustPressed.add(key);
+      }
+    }
+
+    this.gamepadKeys = held;
+  }
+
+  /**
+   * Finish a simulation step, forgetting which keys were just pressed
+   */
+  public update(): void {
+    this.keysJustPressed.clear();
+  }
+
+  /**
+   * Ignore or accept input; while suppressed no key reads as pressed
+   * @param suppressed Whether to ignore input
+   */
+  public setSuppressed(suppressed: boolean): void {
+    this.suppressed = suppressed;
+  }
+
   /**
    * Check if a key is pressed
    * @param key The key to check
    */
   public isKeyPressed(key: string): boolean {
-    return this.keysPressed.has(key);
+    return !this.suppressed && this.isKeyHeld(key);
+  }
+
+  /**
+   * Is a key held on the keyboard or through a gamepad, suppressed or not?
+   * @param key The key to check
+   */
+  private isKeyHeld(key: string): boolean {
+    return this.keysPressed.has(key) || this.gamepadKeys.has(key);
+  }
+
+  /**
+   * Check if a key was pressed down since the last simulation step
+   * @param key The key to check
+   */
+  public isKeyJustPressed(key: string): boolean {
+    return !this.suppressed && this.keysJustPressed.has(key);
+  }
+
+  /**
+   * Sample the player controls into input flags
+   */
+  public getInputFlags(): number {
+    let flags = 0;
+    if (this.isArrowUpPressed()) flags |= InputFlag.UP;
+    if (this.isArrowDownPressed()) flags |= InputFlag.DOWN;
+    if (this.isArrowLeftPressed()) flags |= InputFlag.LEFT;
+    if (this.isArrowRightPressed()) flags |= InputFlag.RIGHT;
+    if (this.isSpacePressed()) flags |= InputFlag.FIRE;
+    if (this.isKeyPressed('x')) flags |= InputFlag.SECONDARY;
+    if (this.isKeyPressed('Shift')) flags |= InputFlag.FOCUS;
+    return flags;
+  }
+
+  /**
+   * Press or release a key programmatically (used by headless simulations)
+   * @param key The key to set
+   * @param pressed Whether the key is held down
+   */
+  public setKeyPressed(key: string, pressed: boolean): void {
+    if (pressed) {
+      if (!this.isKeyHeld(key)) {
+        this.keysJustPressed.add(key);
+      }
+      this.keysPressed.add(key);
+    } else {
+      this.keysPressed.delete(key);
+    }
+  }
+
+  /**
+   * Release all keys
+   */
+  public releaseAll(): void {
+    this.keysPressed.clear();
+    this.gamepadKeys.clear();
+    this.keysJustPressed.clear();
   }
 
   /**
@@ -0,0 +1,113 @@
+import { RandomService, RandomStream } from './random';
+import type { GameMode } from './game-mode';
+import { LOOT_MODIFIERS, LOOT_TABLES, METEOR_LOOT } from '../data/loot-tables';
+import type { LootEntry, LootModifier, LootTableDefinition } from '../data/loot-tables';
+import type { EnemyType } from '../entities/enemy-ship';
+import type { MeteorSize } from '../entities/meteor';
+import type { PowerUpType } from '../entities/power-up';
+import { WeaponType } from '../entities/weapon';
+
+/**
+ * A power-up to drop
+ */
+export interface LootDrop {
+  type: PowerUpType;
+  weaponType: WeaponType;
+}
+
+/**
+ * Rolls enemy drops from the loot tables for one run,
+ * applying the game mode's modifiers and the pity timer
+ */
+export class LootTable {
+  /**
+   * Adjustments of the current game mode
+   */
+  private modifier: LootModifier;
+
+  /**
+   * Kills since the last rolled drop
+   */
+  private killsSinceDrop: number = 0;
+
+  /**
+   * Constructor
+   * @param mode Game mode of the run
+   */
+  constructor(mode: GameMode) {
+    this.modifier = LOOT_MODIFIERS[mode];
+  }
+
+  /**
+   * Roll the drops of a destroyed enemy
+   * @param enemyType Type of the destroyed enemy
+   * @returns Power-ups to drop, possibly none
+   */
+  public roll(enemyType: EnemyType): LootDrop[] {
+    return this.rollTable(LOOT_TABLES[enemyType]);
+  }
+
+  /**
+   * Roll the drops of a broken meteor
+   * @param size Size of the meteor
+   * @returns Power-ups to drop; only the larger meteors drop anything
+   */
+  public rollMeteor(size: MeteorSize): LootDrop[] {
+    const table = METEOR_LOOT[size];
+    return table ? this.rollTable(table) : [];
+  }
+
+  /**
+   * Roll the drops of any loot table (e.g. a boss's)
+   * @param table Loot table to roll
+   * @returns Power-ups to drop, possibly none
+   */
+  public rollTable(table: LootTableDefinition): LootDrop[] {
+    const random = RandomService.getInstance().getStream(RandomStream.LOOT);
+    const drops = table.guaranteed.map((entry) => this.createDrop(entry));
+
+    this.killsSinceDrop++;
+    const pity = this.killsSinceDrop >= Math.round(table.pityKills * this.modifier.pityKills);
+
+    if (random.next() < table.dropChance * this.modifier.dropChance || pity) {
+      const entry = this.pickEntry(table.entries);
+      if (entry) {
+        drops.push(this.createDrop(entry));
+        this.killsSinceDrop = 0;
+      }
+    }
+
+    return drops;
+  }
+
+  /**
+   * Pick an entry by weight, after the mode's weight multipliers
+   * @param entries Entries to pick from
+   */
+  private pickEntry(entries: LootEntry[]): LootEntry | null {
+    const random = RandomService.getInstance().getStream(RandomStream.LOOT);
+    const weights = entries.map((entry) => entry.weight * (this.modifier.weights[entry.type] ?? 1));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    let roll = random.next() * total;
+    for (let i = 0; i < entries.length; i++) {
+      roll -= weights[i];
+      if (roll < 0) {
+        return entries[i];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Turn a table entry into a drop, choosing its weapon if it has one
+   * @param entry Entry to drop
+   */
+  private createDrop(entry: LootEntry): LootDrop {
+    const random = RandomService.getInstance().getStream(RandomStream.LOOT);
+    const weaponType = entry.weapons && entry.weapons.length > 0 ? random.pick(entry.weapons) : WeaponType.LASER;
+
+    return { type: entry.type, weaponType };
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Named random streams
+ * Each system draws from its own stream, so adding a random call in one
+ * system does not shift the sequence seen by the others
+ */
+export enum RandomStream {
+  SPAWN = 'spawn', // Enemy spawn position, type and speed
+  ENEMY = 'enemy', // Per-enemy movement and shooting variation
+  LOOT = 'loot',   // Power-up drops
+  STARS = 'stars', // Cosmetic star background
+}
+
+/**
+ * Hash a string into a 32-bit unsigned integer (FNV-1a)
+ * @param value String to hash
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seeded pseudo-random number generator (mulberry32)
+ */
+export class Random {
+  /**
+   * Internal generator state
+   */
+  private state: number;
+
+  /**
+   * Constructor
+   * @param seed 32-bit integer seed
+   */
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Get the next number in [0, 1), a drop-in replacement for Math.random()
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Get a number in [min, max)
+   * @param min Lower bound (inclusive)
+   * @param max Upper bound (exclusive)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Get an integer in [min, max]
+   * @param min Lower bound (inclusive)
+   * @param max Upper bound (inclusive)
+   */
+  public int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Roll against a probability
+   * @param probability Chance of success (0-1)
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick a random element of an array
+   * @param items Items to pick from
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
+
+/**
+ * Central source of all gameplay randomness
+ * A run is reproduced exactly by seeding the service with the same seed
+ */
+export class RandomService {
+  private static instance: RandomService;
+
+  /**
+   * Seed of the current run
+   */
+  private seed: number = 0;
+
+  /**
+   * Streams created for the current seed
+   */
+  private streams: Map<string, Random> = new Map();
+
+  /**
+   * Private constructor for singleton pattern
+   */
+  private constructor() {
+    this.setSeed(RandomService.createSeed());
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): RandomService {
+    if (!RandomService.instance) {
+      RandomService.instance = new RandomService();
+    }
+    return RandomService.instance;
+  }
+
+  /**
+   * Create a fresh, unpredictable seed for a new run
+   */
+  public static createSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  /**
+   * Seed the service, resetting every stream
+   * @param seed 32-bit integer seed
+   */
+  public setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.streams.clear();
+  }
+
+  /**
+   * Get the seed of the current run
+   */
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Get a named stream, derived from the run seed and the stream name
+   * @param name Stream name
+   */
+  public getStream(name: RandomStream | string): Random {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new Random((this.seed ^ hashString(name)) >>> 0);
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+}
@@ -0,0 +1,199 @@
+import { GameMode } from './game-mode';
+
+/**
+ * Current replay file format version
+ */
+const REPLAY_VERSION = 1;
+
+/**
+ * Serialized replay file
+ */
+export interface ReplayData {
+  version: number;
+  mode?: GameMode; // Classic when missing
+  seed: number;
+  steps: number;
+  score: number;
+  /**
+   * Run-length encoded input flags: [flags, count, flags, count, ...]
+   */
+  input: number[];
+}
+
+/**
+ * A recorded run: the seed plus the input flags of every simulation step.
+ * Feeding the same input to a run with the same seed reproduces it frame for frame.
+ */
+export class Replay {
+  /**
+   * Constructor
+   * @param mode Game mode of the recorded run
+   * @param seed Seed of the recorded run
+   * @param input Run-length encoded input flags
+   * @param steps Number of recorded simulation steps
+   * @param score Final score of the recorded run
+   */
+  constructor(
+    public readonly mode: GameMode,
+    public readonly seed: number,
+    private readonly input: readonly number[],
+    public readonly steps: number,
+    public readonly score: number
+  ) {
+  }
+
+  /**
+   * Parse a replay from JSON
+   * @param json Replay file contents
+   */
+  public static fromJSON(json: string): Replay {
+    const data = JSON.parse(json) as Partial<ReplayData>;
+
+    if (data.version !== REPLAY_VERSION) {
+      throw new Error(`Unsupported replay version: ${data.version}`);
+    }
+    if (typeof data.seed !== 'number' || !Array.isArray(data.input) || data.input.length % 2 !== 0) {
+      throw new Error('Malformed replay file');
+    }
+
+    // Each run of input is a set of flags held for one or more steps
+    for (let i = 0; i < data.input.length; i += 2) {
+      const flags = data.input[i];
+      const count = data.input[i + 1];
+      if (!Number.isInteger(flags) || flags < 0 || !Number.isInteger(count) || count < 1) {
+        throw new Error(`Malformed replay input at run ${i / 2}: [${flags}, ${count}]`);
+      }
+    }
+
+    const mode = data.mode ?? GameMode.CLASSIC;
+    if (!Object.values(GameMode).includes(mode)) {
+      throw new Error(`Unknown game mode: ${mode}`);
+    }
+
+    // Files without totals count them as zero
+    const steps = data.steps ?? 0;
+    const score = data.score ?? 0;
+    if (!Number.isFinite(steps) || steps < 0 || !Number.isFinite(score) || score < 0) {
+      throw new Error(`Malformed replay totals: ${steps} steps, score ${score}`);
+    }
+
+    return new Replay(mode, data.seed, data.input, steps, score);
+  }
+
+  /**
+   * Serialize the replay to JSON
+   */
+  public toJSON(): string {
+    const data: ReplayData = {
+      version: REPLAY_VERSION,
+      mode: this.mode,
+      seed: this.seed,
+      steps: this.steps,
+      score: this.score,
+      input: [...this.input]
+    };
+    return JSON.stringify(data);
+  }
+
+  /**
+   * Create a player that yields the recorded input one step at a time
+   */
+  public createPlayer(): ReplayPlayer {
+    return new ReplayPlayer(this.input);
+  }
+}
+
+/**
+ * Records the input flags of every simulation step
+ */
+export class ReplayRecorder {
+  /**
+   * Run-length encoded input recorded so far
+   */
+  private input: number[] = [];
+
+  /**
+   * Number of recorded steps
+   */
+  private steps: number = 0;
+
+  /**
+   * Constructor
+   * @param mode Game mode of the run being recorded
+   * @param seed Seed of the run being recorded
+   */
+  constructor(private readonly mode: GameMode, private readonly seed: number) {
+  }
+
+  /**
+   * Record the input of one simulation step
+   * @param flags Input flags for the step
+   */
+  public record(flags: number): void {
+    const last = this.input.length - 2;
+
+    if (last >= 0 && this.input[last] === flags) {
+      this.input[last + 1]++;
+    } else {
+      this.input.push(flags, 1);
+    }
+
+    this.steps++;
+  }
+
+  /**
+   * Finish recording
+   * @param score Final score of the run
+   */
+  public finish(score: number): Replay {
+    return new Replay(this.mode, this.seed, [...this.input], this.steps, score);
+  }
+}
+
+/**
+ * Plays back recorded input one simulation step at a time
+ */
+export class ReplayPlayer {
+  /**
+   * Index of the current run in the encoded input
+   */
+  private runIndex: number = 0;
+
+  /**
+   * Steps consumed from the current run
+   */
+  private runStep: number = 0;
+
+  /**
+   * Constructor
+   * @param input Run-length encoded input flags
+   */
+  constructor(private readonly input: readonly number[]) {
+  }
+
+  /**
+   * Get the input flags for the next step (no input once finished)
+   */
+  public next(): number {
+    if (this.isFinished()) {
+      return 0;
+    }
+
+    const flags = this.input[this.runIndex];
+    this.runStep++;
+
+    if (this.runStep >= this.input[this.runIndex + 1]) {
+      this.runIndex += 2;
+      this.runStep = 0;
+    }
+
+    return flags;
+  }
+
+  /**
+   * Has all recorded input been played?
+   */
+  public isFinished(): boolean {
+    return this.runIndex >= this.input.length;
+  }
+}
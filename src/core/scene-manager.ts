@@ -1,5 +1,7 @@
 import { Container } from 'pixi.js';
 import type { Scene } from '../scenes/scene';
+import { InputManager } from './input-manager';
+import type { SceneTransition } from './scene-transition';
 
 /**
  * SceneManager class for managing game scenes
@@ -18,9 +20,35 @@ export class SceneManager {
   private scenes: Map<string, Scene> = new Map();
   
   /**
-   * Active scene
+   * Input manager, suppressed during transitions
    */
-  private activeScene: Scene | null = null;
+  private inputManager: InputManager = InputManager.getInstance();
+  
+  /**
+   * Scene stack; the top scene is updated, the ones beneath stay rendered
+   */
+  private stack: Scene[] = [];
+  
+  /**
+   * Scenes still on screen while a transition replaces or removes them
+   */
+  private leavingScenes: Scene[] = [];
+  
+  /**
+   * Transition being played
+   */
+  private transition: SceneTransition | null = null;
+  
+  /**
+   * Callback for when the current scene change completes
+   */
+  private transitionCallback: (() => void) | null = null;
+  
+  /**
+   * Screen dimensions, passed on to transitions
+   */
+  private width: number = 500;
+  private height: number = 800;
   
   /**
    * Private constructor for singleton pattern
@@ -60,31 +88,167 @@ export class SceneManager {
   }
   
   /**
-   * Switch to a scene
+   * Switch to a scene, replacing the whole stack
    * @param name Name of the scene to switch to
+   * @param transition Transition to bring the scene on screen with
+   * @param onComplete Called once the scene is fully on screen
+   */
+  public switchToScene(name: string, transition?: SceneTransition, onComplete?: () => void): void {
+    const scene = this.scenes.get(name);
+    if (!scene) {
+      return;
+    }
+    
+    this.finishTransition();
+    
+    // Everything else leaves the screen once the new scene is shown
+    const leaving = this.stack.filter((other) => other !== scene);
+    this.stack = [scene];
+    this.showOnTop(scene);
+    
+    this.startTransition(scene, false, leaving, transition, onComplete);
+  }
+  
+  /**
+   * Push a scene on top of the current one, which stays rendered but paused underneath
+   * @param name Name of the scene to push
+   * @param transition Transition to bring the scene on screen with
+   * @param onComplete Called once the scene is fully on screen
    */
-  public switchToScene(name: string): void {
-    if (!this.scenes.has(name)) {
+  public pushScene(name: string, transition?: SceneTransition, onComplete?: () => void): void {
+    const scene = this.scenes.get(name);
+    if (!scene || this.stack.includes(scene)) {
       return;
     }
     
-    // Deactivate current scene
-    if (this.activeScene) {
-      this.activeScene.deactivate();
+    this.finishTransition();
+    
+    this.stack.push(scene);
+    this.showOnTop(scene);
+    
+    this.startTransition(scene, false, [], transition, onComplete);
+  }
+  
+  /**
+   * Pop the top scene, resuming the one underneath
+   * @param transition Transition to take the scene off screen with (played backward)
+   * @param onComplete Called once the scene is fully off screen
+   */
+  public popScene(transition?: SceneTransition, onComplete?: () => void): void {
+    if (this.stack.length <= 1) {
+      return;
     }
     
-    // Activate new scene
-    this.activeScene = this.scenes.get(name) as Scene;
-    this.activeScene.activate();
+    this.finishTransition();
+    
+    const scene = this.stack.pop() as Scene;
+    this.startTransition(scene, true, [scene], transition, onComplete);
+  }
+  
+  /**
+   * Get the scene at the top of the stack
+   */
+  public getTopScene(): Scene | null {
+    return this.stack[this.stack.length - 1] ?? null;
   }
   
   /**
-   * Update the active scene
-   * @param deltaTime Time since last update
+   * Is a transition playing?
+   */
+  public isTransitioning(): boolean {
+    return this.transition !== null;
+  }
+  
+  /**
+   * Activate a scene and draw it above all others
+   * @param scene Scene to show
+   */
+  private showOnTop(scene: Scene): void {
+    scene.activate();
+    this.container.addChild(scene.getContainer());
+  }
+  
+  /**
+   * Start a scene change, completing it at once when there is no transition
+   * @param target Scene the transition animates
+   * @param reverse Whether the target is leaving the screen
+   * @param leaving Scenes to deactivate once the change completes
+   * @param transition Transition to play
+   * @param onComplete Called once the change completes
+   */
+  private startTransition(
+    target: Scene,
+    reverse: boolean,
+    leaving: Scene[],
+    transition?: SceneTransition,
+    onComplete?: () => void
+  ): void {
+    this.leavingScenes = leaving;
+    this.transitionCallback = onComplete ?? null;
+    
+    if (transition) {
+      this.transition = transition;
+      this.transition.begin(target.getContainer(), reverse, this.width, this.height);
+    } else {
+      this.finishTransition();
+    }
+  }
+  
+  /**
+   * Complete the current scene change
+   */
+  private finishTransition(): void {
+    if (this.transition) {
+      this.transition.end();
+      this.transition = null;
+    }
+    
+    for (const scene of this.leavingScenes) {
+      scene.deactivate();
+    }
+    this.leavingScenes = [];
+    
+    const callback = this.transitionCallback;
+    this.transitionCallback = null;
+    if (callback) {
+      callback();
+    }
+  }
+  
+  /**
+   * Update the top scene
+   * Input is suppressed while a transition plays
+   * @param deltaTime Fixed simulation step in seconds
    */
   public update(deltaTime: number): void {
-    if (this.activeScene) {
-      this.activeScene.update(deltaTime);
+    if (this.transition) {
+      this.transition.update(deltaTime);
+      if (this.transition.isFinished()) {
+        this.finishTransition();
+      }
+    }
+    
+    this.inputManager.setSuppressed(this.transition !== null);
+    
+    const top = this.getTopScene();
+    if (top) {
+      top.update(deltaTime);
+    }
+  }
+  
+  /**
+   * Render every scene on screen
+   * @param alpha Interpolation factor (0-1) between the previous and current simulation step
+   */
+  public render(alpha: number): void {
+    const top = this.getTopScene();
+    
+    // Scenes that are not stepping are drawn at their latest state
+    for (const scene of this.leavingScenes) {
+      scene.render(1);
+    }
+    for (const scene of this.stack) {
+      scene.render(scene === top ? alpha : 1);
     }
   }
   
@@ -94,6 +258,9 @@ export class SceneManager {
    * @param height New height
    */
   public resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+    
     for (const scene of this.scenes.values()) {
       scene.resize(width, height);
     }
@@ -0,0 +1,227 @@
+import { Container, Graphics } from 'pixi.js';
+
+/**
+ * Animates a scene container onto the screen.
+ * Scenes entering the screen play the transition forward; scenes popped off
+ * the top of the stack play it backward, revealing the scene underneath.
+ */
+export abstract class SceneTransition {
+  /**
+   * Time elapsed in seconds
+   */
+  private elapsed: number = 0;
+
+  /**
+   * Container being animated
+   */
+  protected target: Container | null = null;
+
+  /**
+   * Whether the transition plays backward (scene leaving)
+   */
+  private reverse: boolean = false;
+
+  /**
+   * Screen dimensions
+   */
+  protected width: number = 0;
+  protected height: number = 0;
+
+  /**
+   * Constructor
+   * @param duration Length of the transition in seconds
+   */
+  constructor(protected readonly duration: number = 0.4) {
+  }
+
+  /**
+   * Start animating a scene container
+   * @param target Container of the entering or leaving scene
+   * @param reverse True when the scene is leaving the screen
+   * @param width Screen width
+   * @param height Screen height
+   */
+  public begin(target: Container, reverse: boolean, width: number, height: number): void {
+    this.target = target;
+    this.reverse = reverse;
+    this.width = width;
+    this.height = height;
+    this.elapsed = 0;
+
+    this.onBegin();
+    this.apply(this.getProgress());
+  }
+
+  /**
+   * Advance the transition
+   * @param deltaTime Time since last update in seconds
+   */
+  public update(deltaTime: number): void {
+    this.elapsed += deltaTime;
+    this.apply(this.getProgress());
+  }
+
+  /**
+   * Has the transition finished playing?
+   */
+  public isFinished(): boolean {
+    return this.elapsed >= this.duration;
+  }
+
+  /**
+   * Finish the transition, leaving the container in its normal state
+   */
+  public end(): void {
+    this.onEnd();
+    this.target = null;
+  }
+
+  /**
+   * How far the scene is onto the screen, from 0 (hidden) to 1 (fully shown)
+   */
+  private getProgress(): number {
+    const t = this.duration > 0 ? Math.min(this.elapsed / this.duration, 1) : 1;
+    return this.reverse ? 1 - t : t;
+  }
+
+  /**
+   * Prepare the target container
+   */
+  protected onBegin(): void {
+    // Nothing to prepare by default
+  }
+
+  /**
+   * Show the target container part of the way onto the screen
+   * @param progress 0 (hidden) to 1 (fully shown)
+   */
+  protected abstract apply(progress: number): void;
+
+  /**
+   * Restore the target container
+   */
+  protected abstract onEnd(): void;
+}
+
+/**
+ * Fades the scene in over the one underneath
+ */
+export class FadeTransition extends SceneTransition {
+  /**
+   * Set the scene's opacity
+   * @param progress 0 (hidden) to 1 (fully shown)
+   */
+  protected apply(progress: number): void {
+    if (this.target) {
+      this.target.alpha = progress;
+    }
+  }
+
+  /**
+   * Restore full opacity
+   */
+  protected onEnd(): void {
+    if (this.target) {
+      this.target.alpha = 1;
+    }
+  }
+}
+
+/**
+ * Reveals the scene left to right behind a growing mask
+ */
+export class WipeTransition extends SceneTransition {
+  /**
+   * Mask covering the revealed part of the scene
+   */
+  private mask: Graphics = new Graphics();
+
+  /**
+   * Attach the mask
+   */
+  protected onBegin(): void {
+    if (this.target) {
+      this.target.addChild(this.mask);
+      this.target.mask = this.mask;
+    }
+  }
+
+  /**
+   * Resize the mask
+   * @param progress 0 (hidden) to 1 (fully shown)
+   */
+  protected apply(progress: number): void {
+    this.mask.clear();
+    // Graphics need some area to act as a mask
+    this.mask.rect(0, 0, Math.max(this.width * progress, 1), this.height).fill(0xFFFFFF);
+  }
+
+  /**
+   * Detach the mask
+   */
+  protected onEnd(): void {
+    if (this.target) {
+      this.target.mask = null;
+      this.target.removeChild(this.mask);
+    }
+  }
+}
+
+/**
+ * Direction a sliding scene comes from
+ */
+export enum SlideDirection {
+  LEFT = 'left',
+  RIGHT = 'right',
+  UP = 'up',
+  DOWN = 'down',
+}
+
+/**
+ * Slides the scene in from one side of the screen
+ */
+export class SlideTransition extends SceneTransition {
+  /**
+   * Constructor
+   * @param duration Length of the transition in seconds
+   * @param from Side of the screen the scene slides in from
+   */
+  constructor(duration: number = 0.4, private readonly from: SlideDirection = SlideDirection.RIGHT) {
+    super(duration);
+  }
+
+  /**
+   * Offset the scene
+   * @param progress 0 (hidden) to 1 (fully shown)
+   */
+  protected apply(progress: number): void {
+    if (!this.target) return;
+
+    // Ease out so the scene settles into place
+    const remaining = Math.pow(1 - progress, 3);
+
+    switch (this.from) {
+      case SlideDirection.LEFT:
+        this.target.position.set(-this.width * remaining, 0);
+        break;
+      case SlideDirection.RIGHT:
+        this.target.position.set(this.width * remaining, 0);
+        break;
+      case SlideDirection.UP:
+        this.target.position.set(0, -this.height * remaining);
+        break;
+      case SlideDirection.DOWN:
+        this.target.position.set(0, this.height * remaining);
+        break;
+    }
+  }
+
+  /**
+   * Put the scene back in place
+   */
+  protected onEnd(): void {
+    if (this.target) {
+      this.target.position.set(0, 0);
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { COMBO, WAVE_BONUS } from '../data/scoring';
+
+/**
+ * Bonuses paid at the end of a wave
+ */
+export interface WaveBonus {
+  noDamage: number; // Zero if the player was hit during the wave
+  accuracy: number; // Zero if too few shots hit
+  shotsFired: number;
+  shotsHit: number;
+}
+
+/**
+ * Keeps the score of one run: kill chains and their multiplier, and the
+ * shots and hits of the current wave for its end of wave bonuses
+ */
+export class ScoreService {
+  /**
+   * Score so far
+   */
+  private score: number = 0;
+
+  /**
+   * Kills in the current chain
+   */
+  private chain: number = 0;
+
+  /**
+   * Seconds left to make the next kill of the chain
+   */
+  private chainTimer: number = 0;
+
+  /**
+   * Longest chain of the run
+   */
+  private bestChain: number = 0;
+
+  /**
+   * Shots the player has fired this wave
+   */
+  private shotsFired: number = 0;
+
+  /**
+   * Shots that have hit something this wave
+   */
+  private shotsHit: number = 0;
+
+  /**
+   * Has the player been hit this wave?
+   */
+  private damaged: boolean = false;
+
+  /**
+   * Start a new run
+   */
+  public reset(): void {
+    this.score = 0;
+    this.chain = 0;
+    this.chainTimer = 0;
+    this.bestChain = 0;
+    this.resetWave();
+  }
+
+  /**
+   * Count down the chain's window, dropping the chain when it runs out
+   * @param deltaTime Time since last update in seconds
+   */
+  public update(deltaTime: number): void {
+    if (this.chainTimer <= 0) return;
+
+    this.chainTimer -= deltaTime;
+    if (this.chainTimer <= 0) {
+      this.breakChain();
+    }
+  }
+
+  /**
+   * Score a kill, extending the chain
+   * @param basePoints Points before any multiplier
+   * @param bonusMultiplier Multiplier on top of the chain's, such as a power-up's
+   * @returns Points scored
+   */
+  public addKill(basePoints: number, bonusMultiplier: number = 1): number {
+    this.chain++;
+    this.chainTimer = COMBO.window;
+    this.bestChain = Math.max(this.bestChain, this.chain);
+
+    return this.addPoints(basePoints * this.getMultiplier() * bonusMultiplier);
+  }
+
+  /**
+   * Score points that are not kills, leaving the chain alone
+   * @param points Points to add
+   * @returns Points scored
+   */
+  public addPoints(points: number): number {
+    const rounded = Math.round(points);
+    this.score += rounded;
+    return rounded;
+  }
+
+  /**
+   * Count shots the player fired
+   * @param count Number of shots
+   */
+  public recordShots(count: number): void {
+    this.shotsFired += count;
+  }
+
+  /**
+   * Count a shot that hit something
+   */
+  public recordHit(): void {
+    this.shotsHit++;
+  }
+
+  /**
+   * The player was hit: the chain is lost, and so is this wave's no damage bonus
+   */
+  public recordDamage(): void {
+    this.damaged = true;
+    this.breakChain();
+  }
+
+  /**
+   * Pay the bonuses of a finished wave and start counting the next one
+   * @param waveNumber Number of the finished wave; later waves are worth more
+   * @returns The bonuses paid
+   */
+  public endWave(waveNumber: number): WaveBonus {
+    const accuracy = this.shotsFired > 0 ? this.shotsHit / this.shotsFired : 0;
+    const rung = this.shotsFired >= WAVE_BONUS.minShots
+      ? WAVE_BONUS.accuracy.find((bonus) => accuracy >= bonus.accuracy)
+      : undefined;
+
+    const bonus: WaveBonus = {
+      noDamage: this.damaged ? 0 : WAVE_BONUS.noDamage * waveNumber,
+      accuracy: rung ? rung.points : 0,
+      shotsFired: this.shotsFired,
+      shotsHit: this.shotsHit,
+    };
+
+    this.addPoints(bonus.noDamage + bonus.accuracy);
+    this.resetWave();
+    return bonus;
+  }
+
+  /**
+   * Drop the current chain
+   */
+  private breakChain(): void {
+    this.chain = 0;
+    this.chainTimer = 0;
+  }
+
+  /**
+   * Clear the current wave's shots, hits and damage
+   */
+  private resetWave(): void {
+    this.shotsFired = 0;
+    this.shotsHit = 0;
+    this.damaged = false;
+  }
+
+  /**
+   * Get the score so far
+   */
+  public getScore(): number {
+    return this.score;
+  }
+
+  /**
+   * Get the number of kills in the current chain
+   */
+  public getChain(): number {
+    return this.chain;
+  }
+
+  /**
+   * Get the longest chain of the run
+   */
+  public getBestChain(): number {
+    return this.bestChain;
+  }
+
+  /**
+   * Get the multiplier the current chain gives kills
+   */
+  public getMultiplier(): number {
+    if (this.chain === 0) return 1;
+
+    const steps = Math.floor((this.chain - 1) / COMBO.killsPerStep);
+    return Math.min(COMBO.maxMultiplier, 1 + steps * COMBO.step);
+  }
+
+  /**
+   * Get how much of the chain's window is left (0-1)
+   */
+  public getChainTimeLeft(): number {
+    return Math.max(0, this.chainTimer / COMBO.window);
+  }
+}
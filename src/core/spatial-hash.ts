@@ -0,0 +1,103 @@
+/**
+ * A uniform grid over the plane, with each cell hashed to a bucket so the
+ * grid needs no fixed size. Items are filed under every cell their bounds
+ * touch, so a query only looks at items in the cells it touches.
+ */
+export class SpatialHash<T> {
+  /**
+   * Items filed under each cell, keyed by the cell's hash
+   */
+  private cells: Map<number, T[]> = new Map();
+
+  /**
+   * Width and height of a cell in pixels
+   */
+  private readonly cellSize: number;
+
+  /**
+   * Constructor
+   * @param cellSize Width and height of a cell in pixels; around the size of the larger items works best
+   */
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * Empty every cell, keeping the buckets for reuse
+   */
+  public clear(): void {
+    for (const cell of this.cells.values()) {
+      cell.length = 0;
+    }
+  }
+
+  /**
+   * File an item under every cell its bounds touch
+   * @param item The item
+   * @param minX Left edge of the item's bounds
+   * @param minY Top edge of the item's bounds
+   * @param maxX Right edge of the item's bounds
+   * @param maxY Bottom edge of the item's bounds
+   */
+  public insert(item: T, minX: number, minY: number, maxX: number, maxY: number): void {
+    const [left, top, right, bottom] = this.getCellRange(minX, minY, maxX, maxY);
+
+    for (let cellY = top; cellY <= bottom; cellY++) {
+      for (let cellX = left; cellX <= right; cellX++) {
+        const key = this.getKey(cellX, cellY);
+        let cell = this.cells.get(key);
+        if (!cell) {
+          cell = [];
+          this.cells.set(key, cell);
+        }
+        cell.push(item);
+      }
+    }
+  }
+
+  /**
+   * Visit the items filed under the cells a box touches. An item spanning
+   * several of those cells is visited once for each.
+   * @param minX Left edge of the box
+   * @param minY Top edge of the box
+   * @param maxX Right edge of the box
+   * @param maxY Bottom edge of the box
+   * @param visit Called with each item
+   */
+  public query(minX: number, minY: number, maxX: number, maxY: number, visit: (item: T) => void): void {
+    const [left, top, right, bottom] = this.getCellRange(minX, minY, maxX, maxY);
+
+    for (let cellY = top; cellY <= bottom; cellY++) {
+      for (let cellX = left; cellX <= right; cellX++) {
+        const cell = this.cells.get(this.getKey(cellX, cellY));
+        if (!cell) continue;
+
+        for (const item of cell) {
+          visit(item);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the cells a box covers
+   * @returns Left, top, right and bottom cell coordinates, inclusive
+   */
+  private getCellRange(minX: number, minY: number, maxX: number, maxY: number): [number, number, number, number] {
+    return [
+      Math.floor(minX / this.cellSize),
+      Math.floor(minY / this.cellSize),
+      Math.floor(maxX / this.cellSize),
+      Math.floor(maxY / this.cellSize),
+    ];
+  }
+
+  /**
+   * Hash cell coordinates to a bucket key; exact for cells within 32768 of the origin
+   * @param cellX Cell column
+   * @param cellY Cell row
+   */
+  private getKey(cellX: number, cellY: number): number {
+    return (cellX + 0x8000) * 0x10000 + (cellY + 0x8000);
+  }
+}
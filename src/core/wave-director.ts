@@ -0,0 +1,698 @@
+import { StateMachine } from '../states/state-machine';
+import type { State } from '../states/state-machine';
+import { RandomService, RandomStream } from './random';
+import { EnemyFormation } from './enemy-formation';
+import type { FlightPath, PathPoint } from './flight-path';
+import { EntryPath, Formation, LEVELS } from '../data/levels';
+import type { LevelDefinition, SpawnGroup, WaveDefinition } from '../data/levels';
+import { FlightPathName, createFlightPath } from '../data/flight-paths';
+import { EnemyBehaviour, EnemyType } from '../entities/enemy-ship';
+import { MeteorSize } from '../entities/meteor';
+
+/**
+ * An enemy the director wants spawned
+ */
+export interface SpawnRequest {
+  type: EnemyType;
+  x: number;
+  y: number;
+  behaviour: EnemyBehaviour;
+  verticalSpeed: number; // Pixels per second
+  horizontalDrift: number; // Pixels per second, for side entries
+  path: FlightPath | null; // Path to fly before the behaviour takes over
+  pathSpeed: number; // Pixels per second along the path
+  pathOffsetX: number; // Horizontal shift of the path in pixels
+  formation: EnemyFormation | null; // Formation to take a place in
+  slot: PathPoint; // Place in the formation, relative to its center
+}
+
+/**
+ * A meteor the director wants spawned
+ */
+export interface MeteorRequest {
+  size: MeteorSize;
+  x: number;
+  y: number;
+  velocityX: number; // Pixels per second
+  velocityY: number;
+}
+
+/**
+ * A spawn scheduled within the current wave
+ */
+interface ScheduledSpawn {
+  time: number; // Seconds after the wave starts
+  request: SpawnRequest;
+}
+
+/**
+ * A meteor scheduled within the current wave
+ */
+interface ScheduledMeteor {
+  time: number; // Seconds after the wave starts
+  request: MeteorRequest;
+}
+
+/**
+ * Wave director states
+ */
+enum WaveState {
+  INTERMISSION = 'intermission',
+  ANNOUNCE = 'announce',
+  SPAWNING = 'spawning',
+  CLEARING = 'clearing',
+}
+
+/**
+ * Intermission: a break before a level starts
+ */
+class WaveIntermissionState implements State {
+  public readonly name = WaveState.INTERMISSION;
+  private timer = 0;
+
+  public enter(owner: StateMachine): void {
+    const director = owner.getOwner() as WaveDirector;
+    this.timer = director.getLevel().intermission;
+    director.announce(`LEVEL ${director.getLevelNumber()}`, director.getLevel().name);
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    this.timer -= deltaTime;
+    if (this.timer <= 0) {
+      owner.setState(WaveState.ANNOUNCE);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Announce: the wave banner shows before the enemies arrive
+ */
+class WaveAnnounceState implements State {
+  public readonly name = WaveState.ANNOUNCE;
+  private timer = 0;
+  private readonly duration = 1.5; // Seconds
+
+  public enter(owner: StateMachine): void {
+    const director = owner.getOwner() as WaveDirector;
+    this.timer = this.duration;
+
+    const wave = director.getWave();
+    director.announce(`WAVE ${director.getWaveNumber()}`, wave.boss ? 'Boss incoming' : wave.meteors ? 'Meteor shower' : '');
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    this.timer -= deltaTime;
+    if (this.timer <= 0) {
+      owner.setState(WaveState.SPAWNING);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Spawning: the wave's enemies and meteors are released on schedule
+ */
+class WaveSpawningState implements State {
+  public readonly name = WaveState.SPAWNING;
+  private elapsed = 0;
+  private schedule: ScheduledSpawn[] = [];
+  private meteors: ScheduledMeteor[] = [];
+
+  public enter(owner: StateMachine): void {
+    const director = owner.getOwner() as WaveDirector;
+    this.elapsed = 0;
+    this.schedule = director.scheduleWave(director.getWave());
+    this.meteors = director.scheduleMeteors(director.getWave());
+
+    if (director.getWave().boss) {
+      director.requestBoss();
+    }
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const director = owner.getOwner() as WaveDirector;
+    this.elapsed += deltaTime;
+
+    while (this.schedule.length > 0 && this.schedule[0].time <= this.elapsed) {
+      director.requestSpawn(this.schedule.shift()!.request);
+    }
+
+    while (this.meteors.length > 0 && this.meteors[0].time <= this.elapsed) {
+      director.requestMeteor(this.meteors.shift()!.request);
+    }
+
+    if (this.schedule.length === 0 && this.meteors.length === 0) {
+      owner.setState(WaveState.CLEARING);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Clearing: wait for the wave to be dealt with (or time out) before moving on
+ */
+class WaveClearingState implements State {
+  public readonly name = WaveState.CLEARING;
+  private timer = 0;
+
+  public enter(owner: StateMachine): void {
+    const director = owner.getOwner() as WaveDirector;
+    this.timer = director.getWave().timeout;
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const director = owner.getOwner() as WaveDirector;
+    this.timer -= deltaTime;
+
+    // Boss waves last until the boss is gone, however long that takes
+    const waiting = director.getWave().boss ? director.isBossActive() : this.timer > 0;
+
+    if (director.getHostileCount() === 0 || !waiting) {
+      director.endWave();
+      owner.setState(director.advance() ? WaveState.INTERMISSION : WaveState.ANNOUNCE);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Runs the levels: announces each wave, spawns its enemies on schedule and
+ * moves on once the wave is cleared. After the authored levels it keeps
+ * generating endless levels that get harder each time.
+ */
+export class WaveDirector {
+  /**
+   * Drives the intermission, announce, spawning and clearing cycle
+   */
+  private stateMachine: StateMachine = new StateMachine(this);
+
+  /**
+   * Index of the current level; past the authored levels it counts endless levels
+   */
+  private levelIndex: number = 0;
+
+  /**
+   * Index of the current wave within its level
+   */
+  private waveIndex: number = 0;
+
+  /**
+   * Waves started so far, shown as the wave number
+   */
+  private waveCount: number = 1;
+
+  /**
+   * Current level, authored or generated
+   */
+  private level: LevelDefinition;
+
+  /**
+   * Screen dimensions
+   */
+  private screenWidth: number;
+  private screenHeight: number;
+
+  /**
+   * Called to spawn an enemy
+   */
+  private spawnCallback: ((request: SpawnRequest) => void) | null = null;
+
+  /**
+   * Called to spawn a meteor
+   */
+  private meteorCallback: ((request: MeteorRequest) => void) | null = null;
+
+  /**
+   * Called to bring in a boss
+   */
+  private bossCallback: (() => void) | null = null;
+
+  /**
+   * Called to show a banner
+   */
+  private bannerCallback: ((title: string, subtitle: string) => void) | null = null;
+
+  /**
+   * Called when a wave ends
+   */
+  private waveEndCallback: ((waveNumber: number) => void) | null = null;
+
+  /**
+   * Counts the enemies (and bosses and meteors) still around
+   */
+  private hostileCountProvider: () => number = () => 0;
+
+  /**
+   * Tells whether a boss is still in the fight
+   */
+  private bossActiveProvider: () => boolean = () => false;
+
+  /**
+   * Constructor
+   * @param screenWidth Screen width
+   * @param screenHeight Screen height
+   */
+  constructor(screenWidth: number, screenHeight: number) {
+    this.screenWidth = screenWidth;
+    this.screenHeight = screenHeight;
+    this.level = LEVELS[0];
+
+    this.stateMachine.addState(new WaveIntermissionState());
+    this.stateMachine.addState(new WaveAnnounceState());
+    this.stateMachine.addState(new WaveSpawningState());
+    this.stateMachine.addState(new WaveClearingState());
+  }
+
+  /**
+   * Start the first level
+   */
+  public start(): void {
+    this.stateMachine.setState(WaveState.INTERMISSION);
+  }
+
+  /**
+   * Advance the director
+   * @param deltaTime Time since last update in seconds
+   */
+  public update(deltaTime: number): void {
+    this.stateMachine.update(deltaTime);
+  }
+
+  /**
+   * Move on to the next wave
+   * @returns True if a new level starts
+   */
+  public advance(): boolean {
+    this.waveCount++;
+    this.waveIndex++;
+
+    if (this.waveIndex < this.level.waves.length) {
+      return false;
+    }
+
+    this.levelIndex++;
+    this.waveIndex = 0;
+    this.level = this.levelIndex < LEVELS.length
+      ? LEVELS[this.levelIndex]
+      : this.createEndlessLevel(this.levelIndex - LEVELS.length + 1);
+    return true;
+  }
+
+  /**
+   * Generate an endless level; each one adds more and faster enemies, has a
+   * meteor shower on its third wave and ends with a boss
+   * @param depth How many endless levels have been reached, starting at 1
+   */
+  private createEndlessLevel(depth: number): LevelDefinition {
+    const random = RandomService.getInstance().getStream(RandomStream.SPAWN);
+    const types = Object.values(EnemyType);
+    const entries = [EntryPath.TOP, EntryPath.TOP, EntryPath.LEFT, EntryPath.RIGHT];
+    const formations = [Formation.RANDOM, Formation.LINE, Formation.COLUMN, Formation.V];
+    const behaviours = [EnemyBehaviour.WOBBLE, EnemyBehaviour.STRAIGHT, EnemyBehaviour.HOVER];
+    const paths = Object.values(FlightPathName);
+    const waves: WaveDefinition[] = [];
+
+    for (let w = 0; w < 4; w++) {
+      const groups: SpawnGroup[] = [];
+      const groupCount = Math.min(2 + Math.floor((depth + w) / 2), 5);
+
+      for (let g = 0; g < groupCount; g++) {
+        const entry = random.pick(entries);
+        const side = entry !== EntryPath.TOP;
+        const path = random.chance(0.35) ? random.pick(paths) : undefined;
+
+        const enemy = random.pick(types);
+        const count = random.int(3, 4 + Math.min(depth, 4));
+
+        groups.push({
+          enemy,
+          count: enemy === EnemyType.TANK ? Math.min(count, 1 + Math.floor(depth / 2)) : count, // Tanks come in ones and twos
+          delay: g * random.range(2.5, 4),
+          interval: random.range(0.3, 0.8),
+          entry,
+          formation: random.pick(formations),
+          behaviour: random.pick(behaviours),
+          speed: (path ? 180 : side ? 110 : 60) + Math.min(depth * 8, 60) + random.range(0, 20),
+          position: side ? random.range(0.1, 0.35) : random.range(0.3, 0.7),
+          path,
+          hold: random.chance(0.2),
+        });
+      }
+
+      const meteors = w === 2
+        ? {
+          count: 4 + Math.min(depth * 2, 10),
+          delay: random.range(0, 4),
+          duration: 12,
+          sizes: [MeteorSize.BIG, MeteorSize.MEDIUM, MeteorSize.MEDIUM, MeteorSize.SMALL],
+          speed: 80 + Math.min(depth * 10, 60),
+          drift: 40,
+        }
+        : undefined;
+
+      waves.push({ groups, meteors, timeout: 16 });
+    }
+
+    waves.push({ groups: [], boss: true, timeout: 60 });
+
+    return { name: `Deep Space ${depth}`, intermission: 4, waves };
+  }
+
+  /**
+   * Work out when and where each enemy of a wave appears
+   * @param wave The wave to schedule
+   */
+  public scheduleWave(wave: WaveDefinition): ScheduledSpawn[] {
+    const random = RandomService.getInstance().getStream(RandomStream.SPAWN);
+    const schedule: ScheduledSpawn[] = [];
+
+    for (const group of wave.groups) {
+      const center = group.position ?? random.range(0.2, 0.8);
+      const path = group.path ? createFlightPath(group.path, this.screenWidth, this.screenHeight) : null;
+      const formation = group.hold
+        ? new EnemyFormation(
+          Math.max(150, Math.min(this.screenWidth - 150, center * this.screenWidth)),
+          this.screenHeight * 0.2,
+          this.screenWidth,
+          this.screenHeight
+        )
+        : null;
+
+      for (let i = 0; i < group.count; i++) {
+        // Offset from the formation's center: across the line of travel, and back along it
+        const slot = i - (group.count - 1) / 2;
+        let across = 0;
+        let behind = 0;
+
+        switch (group.formation) {
+          case Formation.LINE:
+            across = slot * 60;
+            break;
+          case Formation.V:
+            across = slot * 50;
+            behind = Math.abs(slot) * 40;
+            break;
+          case Formation.COLUMN:
+            // The interval strings the column out
+            break;
+          case Formation.RANDOM:
+            across = (random.next() - 0.5) * (group.entry === EntryPath.TOP ? this.screenWidth - 100 : 200);
+            break;
+        }
+
+        const request = this.createRequest(group, center, across, behind);
+        let time = group.delay + i * group.interval;
+
+        if (path) {
+          // A formation holding its shape along the path flies it side by side,
+          // with the rows further back setting off later; one heading for its
+          // places flies it in single file
+          request.path = path;
+          request.pathSpeed = group.speed;
+          request.verticalSpeed = group.speed * 0.4;
+          request.pathOffsetX = formation ? 0 : across;
+          if (!formation) {
+            time += behind / group.speed;
+          }
+
+          const start = path.getPoint(0);
+          request.x = start.x + request.pathOffsetX;
+          request.y = start.y;
+        }
+
+        if (formation) {
+          request.formation = formation;
+          request.slot = this.getFormationSlot(group, i);
+        }
+
+        schedule.push({ time, request });
+      }
+    }
+
+    // Release in time order across groups
+    return schedule.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Work out when and where each meteor of a wave's shower falls
+   * @param wave The wave to schedule
+   */
+  public scheduleMeteors(wave: WaveDefinition): ScheduledMeteor[] {
+    const shower = wave.meteors;
+    if (!shower) return [];
+
+    const random = RandomService.getInstance().getStream(RandomStream.SPAWN);
+    const schedule: ScheduledMeteor[] = [];
+
+    for (let i = 0; i < shower.count; i++) {
+      schedule.push({
+        time: shower.delay + random.range(0, shower.duration),
+        request: {
+          size: random.pick(shower.sizes),
+          x: random.range(0, this.screenWidth),
+          y: -60,
+          velocityX: random.range(-shower.drift, shower.drift),
+          velocityY: shower.speed * random.range(0.8, 1.2),
+        },
+      });
+    }
+
+    return schedule.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Work out a member's place in a formation holding near the top of the screen
+   * @param group Group the enemy belongs to
+   * @param index Position of the enemy within the group
+   */
+  private getFormationSlot(group: SpawnGroup, index: number): PathPoint {
+    const slot = index - (group.count - 1) / 2;
+
+    switch (group.formation) {
+      case Formation.LINE:
+        return { x: slot * 60, y: 0 };
+      case Formation.V:
+        return { x: slot * 50, y: -Math.abs(slot) * 40 };
+      case Formation.COLUMN:
+        return { x: 0, y: slot * 45 };
+      case Formation.RANDOM:
+      default:
+        // Two staggered rows
+        return { x: slot * 45, y: index % 2 === 0 ? -25 : 25 };
+    }
+  }
+
+  /**
+   * Turn a formation slot into a spawn position and velocity
+   * @param group Group the enemy belongs to
+   * @param center Center of the formation, 0-1 across (or down) the screen
+   * @param across Offset across the direction of travel in pixels
+   * @param behind Offset back along the direction of travel in pixels
+   */
+  private createRequest(group: SpawnGroup, center: number, across: number, behind: number): SpawnRequest {
+    const request: SpawnRequest = {
+      type: group.enemy,
+      x: 0,
+      y: 0,
+      behaviour: group.behaviour,
+      verticalSpeed: group.speed,
+      horizontalDrift: 0,
+      path: null,
+      pathSpeed: 0,
+      pathOffsetX: 0,
+      formation: null,
+      slot: { x: 0, y: 0 },
+    };
+
+    switch (group.entry) {
+      case EntryPath.TOP:
+        request.x = Math.max(40, Math.min(this.screenWidth - 40, center * this.screenWidth + across));
+        request.y = -50 - behind;
+        break;
+      case EntryPath.LEFT:
+        request.x = -40 - behind;
+        request.y = center * this.screenHeight + across;
+        request.horizontalDrift = group.speed;
+        request.verticalSpeed = group.speed * 0.25;
+        break;
+      case EntryPath.RIGHT:
+        request.x = this.screenWidth + 40 + behind;
+        request.y = center * this.screenHeight + across;
+        request.horizontalDrift = -group.speed;
+        request.verticalSpeed = group.speed * 0.25;
+        break;
+    }
+
+    return request;
+  }
+
+  /**
+   * Ask for an enemy to be spawned
+   * @param request The enemy to spawn
+   */
+  public requestSpawn(request: SpawnRequest): void {
+    if (this.spawnCallback) {
+      this.spawnCallback(request);
+    }
+  }
+
+  /**
+   * Ask for a meteor to be spawned
+   * @param request The meteor to spawn
+   */
+  public requestMeteor(request: MeteorRequest): void {
+    if (this.meteorCallback) {
+      this.meteorCallback(request);
+    }
+  }
+
+  /**
+   * Ask for the boss to be brought in
+   */
+  public requestBoss(): void {
+    if (this.bossCallback) {
+      this.bossCallback();
+    }
+  }
+
+  /**
+   * Show a banner
+   * @param title Main line
+   * @param subtitle Second line, may be empty
+   */
+  public announce(title: string, subtitle: string): void {
+    if (this.bannerCallback) {
+      this.bannerCallback(title, subtitle);
+    }
+  }
+
+  /**
+   * Report the end of the current wave
+   */
+  public endWave(): void {
+    if (this.waveEndCallback) {
+      this.waveEndCallback(this.waveCount);
+    }
+  }
+
+  /**
+   * Get the current level
+   */
+  public getLevel(): LevelDefinition {
+    return this.level;
+  }
+
+  /**
+   * Get the current wave
+   */
+  public getWave(): WaveDefinition {
+    return this.level.waves[this.waveIndex];
+  }
+
+  /**
+   * Get the current level number, starting at 1
+   */
+  public getLevelNumber(): number {
+    return this.levelIndex + 1;
+  }
+
+  /**
+   * Get the current wave number, counted across levels and starting at 1
+   */
+  public getWaveNumber(): number {
+    return this.waveCount;
+  }
+
+  /**
+   * Get the number of enemies (and bosses and meteors) still around
+   */
+  public getHostileCount(): number {
+    return this.hostileCountProvider();
+  }
+
+  /**
+   * Is a boss still in the fight?
+   */
+  public isBossActive(): boolean {
+    return this.bossActiveProvider();
+  }
+
+  /**
+   * Set the callback used to spawn enemies
+   * @param callback Function receiving the spawn request
+   */
+  public setSpawnCallback(callback: (request: SpawnRequest) => void): void {
+    this.spawnCallback = callback;
+  }
+
+  /**
+   * Set the callback used to spawn meteors
+   * @param callback Function receiving the meteor request
+   */
+  public setMeteorCallback(callback: (request: MeteorRequest) => void): void {
+    this.meteorCallback = callback;
+  }
+
+  /**
+   * Set the callback used to bring in a boss
+   * @param callback Function spawning the boss
+   */
+  public setBossCallback(callback: () => void): void {
+    this.bossCallback = callback;
+  }
+
+  /**
+   * Set the callback used to show level and wave banners
+   * @param callback Function receiving the banner's title and subtitle
+   */
+  public setBannerCallback(callback: (title: string, subtitle: string) => void): void {
+    this.bannerCallback = callback;
+  }
+
+  /**
+   * Set the callback for when a wave ends, cleared or timed out
+   * @param callback Function receiving the number of the wave that ended
+   */
+  public setWaveEndCallback(callback: (waveNumber: number) => void): void {
+    this.waveEndCallback = callback;
+  }
+
+  /**
+   * Set how the director counts the enemies still alive
+   * @param provider Function returning the count
+   */
+  public setHostileCountProvider(provider: () => number): void {
+    this.hostileCountProvider = provider;
+  }
+
+  /**
+   * Set how the director tells whether a boss is still in the fight
+   * @param provider Function returning true while a boss is active
+   */
+  public setBossActiveProvider(provider: () => boolean): void {
+    this.bossActiveProvider = provider;
+  }
+
+  /**
+   * Set screen dimensions
+   * @param width Screen width
+   * @param height Screen height
+   */
+  public setScreenDimensions(width: number, height: number): void {
+    this.screenWidth = width;
+    this.screenHeight = height;
+  }
+}
@@ -0,0 +1,46 @@
+import { box, circle, compound } from '../core/collider';
+import type { Collider } from '../core/collider';
+
+/**
+ * Collider shapes of the sprites used in play, in texture pixels around the
+ * texture's center. Ships are their opaque pixels cut into three bands, each
+ * band the box around its opaque pixels, as the asset loader generates for
+ * other textures. They are written out here because headless runs load no
+ * textures, and replays only match if every run collides the same way.
+ */
+export const TEXTURE_COLLIDERS: Record<string, Collider> = {
+  // The player's ship: nose, then the widest part across the wings
+  playerShip1_blue: compound(box(23, 25, 0, -25), box(99, 25), box(95, 25, 0, 25)),
+
+  // Enemy ships point down the screen, wide at the back
+  enemyRed1: compound(box(93, 27, 0, -27.5), box(91, 28), box(71, 28, 0, 28)),
+  enemyRed2: compound(box(104, 27, 0, -27.5), box(104, 28), box(78, 28, 0, 28)),
+  enemyRed3: compound(box(84, 28, -0.5, -28), box(102, 28, -0.5, 0), box(93, 28, 0, 28)),
+  enemyRed5: compound(box(97, 28, 0, -28), box(82, 28, -0.5, 0), box(66, 28, -0.5, 28)),
+  enemyBlue1: compound(box(93, 27, 0, -27.5), box(91, 28), box(71, 27, 0, 27.5)),
+  enemyBlue4: compound(box(80, 28, 0, -28), box(80, 28), box(80, 28, 0, 28)),
+  enemyGreen2: compound(box(104, 27, 0, -27.5), box(104, 28), box(78, 28, 0, 28)),
+  enemyGreen3: compound(box(84, 28, -0.5, -28), box(102, 28, -0.5, 0), box(93, 28, 0, 28)),
+  enemyBlack1: compound(box(93, 27, 0, -27.5), box(91, 28), box(71, 27, 0, 27.5)),
+  enemyBlack4: compound(box(80, 28, 0, -28), box(80, 28), box(80, 28, 0, 28)),
+
+  // Lasers are thin boxes that turn with the shot
+  laserBlue01: box(9, 54),
+  laserBlue02: box(13, 37),
+  laserBlue03: box(9, 37),
+  laserBlue05: box(9, 37),
+  laserBlue07: box(9, 34, 0, -1.5),
+  laserBlue12: box(13, 57),
+  laserBlue13: box(9, 57),
+  laserBlue14: box(13, 57),
+  laserBlue15: box(9, 57),
+  laserBlue16: box(13, 54),
+  laserGreen04: box(13, 37),
+  laserGreen05: box(9, 37),
+  laserRed05: box(9, 37),
+  laserRed16: box(13, 54),
+
+  // Round bolts
+  laserRed08: circle(23),
+  laserRed10: circle(18),
+};
@@ -0,0 +1,73 @@
+import { FlightPath, SplineType } from '../core/flight-path';
+
+/**
+ * Authored flight paths enemies can be given when they spawn
+ */
+export enum FlightPathName {
+  SWOOP_LEFT = 'swoop-left', // In from the top left, down through the middle and back up to the right
+  SWOOP_RIGHT = 'swoop-right', // Mirror of the left swoop
+  LOOP = 'loop', // Down from the top, a full loop in the middle, then on down
+  S_CURVE = 's-curve', // Snake across the screen and down
+  DIVE_LEFT = 'dive-left', // In from the left edge, straight into a dive to the bottom
+  DIVE_RIGHT = 'dive-right', // Mirror of the left dive
+}
+
+/**
+ * A path in screen fractions: 0-1 across and down the screen, with values
+ * outside that range starting or ending off screen
+ */
+export interface FlightPathDefinition {
+  type: SplineType;
+  points: [number, number][];
+}
+
+/**
+ * Flip a path left to right
+ * @param definition The path to flip
+ */
+function mirror(definition: FlightPathDefinition): FlightPathDefinition {
+  return { type: definition.type, points: definition.points.map(([x, y]) => [1 - x, y]) };
+}
+
+const SWOOP: FlightPathDefinition = {
+  type: SplineType.CATMULL_ROM,
+  points: [[-0.1, 0.05], [0.15, 0.25], [0.4, 0.5], [0.6, 0.5], [0.8, 0.3], [0.7, 0.15]],
+};
+
+const DIVE: FlightPathDefinition = {
+  type: SplineType.BEZIER,
+  points: [[-0.1, 0.2], [0.3, 0.15], [0.45, 0.3], [0.45, 0.55], [0.45, 0.8], [0.6, 0.95], [0.7, 1.15]],
+};
+
+/**
+ * Every authored path
+ */
+export const FLIGHT_PATHS: Record<FlightPathName, FlightPathDefinition> = {
+  [FlightPathName.SWOOP_LEFT]: SWOOP,
+  [FlightPathName.SWOOP_RIGHT]: mirror(SWOOP),
+  [FlightPathName.LOOP]: {
+    type: SplineType.CATMULL_ROM,
+    points: [[0.35, -0.1], [0.4, 0.25], [0.55, 0.42], [0.68, 0.3], [0.55, 0.18], [0.42, 0.3], [0.5, 0.5], [0.6, 0.75], [0.62, 1.15]],
+  },
+  [FlightPathName.S_CURVE]: {
+    type: SplineType.BEZIER,
+    points: [[0.2, -0.1], [0.2, 0.2], [0.8, 0.15], [0.8, 0.4], [0.8, 0.65], [0.2, 0.6], [0.2, 0.85], [0.2, 0.95], [0.3, 1.05], [0.35, 1.15]],
+  },
+  [FlightPathName.DIVE_LEFT]: DIVE,
+  [FlightPathName.DIVE_RIGHT]: mirror(DIVE),
+};
+
+/**
+ * Scale an authored path to the screen
+ * @param name The path to build
+ * @param screenWidth Screen width
+ * @param screenHeight Screen height
+ */
+export function createFlightPath(name: FlightPathName, screenWidth: number, screenHeight: number): FlightPath {
+  const definition = FLIGHT_PATHS[name];
+
+  return new FlightPath(
+    definition.type,
+    definition.points.map(([x, y]) => ({ x: x * screenWidth, y: y * screenHeight }))
+  );
+}
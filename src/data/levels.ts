@@ -0,0 +1,177 @@
+import { EnemyBehaviour, EnemyType } from '../entities/enemy-ship';
+import { MeteorSize } from '../entities/meteor';
+import { FlightPathName } from './flight-paths';
+
+/**
+ * Where the enemies of a group come from
+ */
+export enum EntryPath {
+  TOP = 'top', // Drop in from above
+  LEFT = 'left', // Cross the screen from the left
+  RIGHT = 'right', // Cross the screen from the right
+}
+
+/**
+ * How the enemies of a group are arranged
+ */
+export enum Formation {
+  RANDOM = 'random', // Each enemy at a random position
+  LINE = 'line', // Side by side
+  COLUMN = 'column', // One behind the other
+  V = 'v', // A V with the point leading
+}
+
+/**
+ * A group of identical enemies spawned together
+ */
+export interface SpawnGroup {
+  enemy: EnemyType;
+  count: number;
+  delay: number; // Seconds after the wave starts
+  interval: number; // Seconds between the enemies of the group
+  entry: EntryPath; // Ignored when the group flies a path
+  formation: Formation;
+  behaviour: EnemyBehaviour; // Once any path has been flown
+  speed: number; // Pixels per second; down the screen for top entries, across it for side entries, along the path for paths
+  position?: number; // Center of the formation across (or down, for side entries) the screen, 0-1; random when omitted
+  path?: FlightPathName; // Flown in the formation's shape, or in single file when holding formation
+  hold?: boolean; // Take up the formation near the top of the screen and dive from it, Galaga style
+}
+
+/**
+ * Meteors raining down through a wave
+ */
+export interface MeteorShower {
+  count: number;
+  delay: number; // Seconds after the wave starts
+  duration: number; // Seconds the meteors are spread over
+  sizes: MeteorSize[]; // Picked at random for each meteor
+  speed: number; // Pixels per second down the screen
+  drift: number; // Fastest pixels per second across the screen, either way
+}
+
+/**
+ * A wave: groups of enemies, a meteor shower, or a boss fight
+ */
+export interface WaveDefinition {
+  groups: SpawnGroup[];
+  meteors?: MeteorShower; // Falls alongside any groups
+  boss?: boolean;
+  timeout: number; // Seconds after the last spawn before the next wave starts anyway
+}
+
+/**
+ * A level: a named run of waves with a break before it
+ */
+export interface LevelDefinition {
+  name: string;
+  intermission: number; // Seconds of calm before the first wave
+  waves: WaveDefinition[];
+}
+
+/**
+ * Authored levels, played in order before the endless waves take over
+ */
+export const LEVELS: LevelDefinition[] = [
+  {
+    name: 'Outer Patrol',
+    intermission: 1,
+    waves: [
+      {
+        timeout: 12,
+        groups: [
+          { enemy: EnemyType.TYPE_1, count: 3, delay: 0, interval: 0, entry: EntryPath.TOP, formation: Formation.LINE, behaviour: EnemyBehaviour.STRAIGHT, speed: 60, position: 0.5 },
+          { enemy: EnemyType.TYPE_1, count: 3, delay: 4, interval: 0.8, entry: EntryPath.TOP, formation: Formation.RANDOM, behaviour: EnemyBehaviour.WOBBLE, speed: 70 },
+        ],
+      },
+      {
+        timeout: 12,
+        groups: [
+          { enemy: EnemyType.TYPE_1, count: 5, delay: 0, interval: 0, entry: EntryPath.TOP, formation: Formation.V, behaviour: EnemyBehaviour.STRAIGHT, speed: 70, position: 0.5 },
+          { enemy: EnemyType.TYPE_2, count: 2, delay: 5, interval: 1.5, entry: EntryPath.TOP, formation: Formation.RANDOM, behaviour: EnemyBehaviour.WOBBLE, speed: 50 },
+          { enemy: EnemyType.STRAFER, count: 2, delay: 8, interval: 1.5, entry: EntryPath.TOP, formation: Formation.RANDOM, behaviour: EnemyBehaviour.STRAIGHT, speed: 90 },
+        ],
+      },
+      {
+        timeout: 14,
+        groups: [
+          { enemy: EnemyType.TYPE_1, count: 4, delay: 0, interval: 0.5, entry: EntryPath.LEFT, formation: Formation.COLUMN, behaviour: EnemyBehaviour.WOBBLE, speed: 180, path: FlightPathName.SWOOP_LEFT },
+          { enemy: EnemyType.TYPE_1, count: 4, delay: 3, interval: 0.5, entry: EntryPath.RIGHT, formation: Formation.COLUMN, behaviour: EnemyBehaviour.WOBBLE, speed: 180, path: FlightPathName.SWOOP_RIGHT },
+          { enemy: EnemyType.TYPE_2, count: 3, delay: 6, interval: 0, entry: EntryPath.TOP, formation: Formation.LINE, behaviour: EnemyBehaviour.HOVER, speed: 60, position: 0.5 },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'Asteroid Belt',
+    intermission: 4,
+    waves: [
+      {
+        timeout: 14,
+        groups: [
+          { enemy: EnemyType.TYPE_2, count: 5, delay: 0, interval: 0.4, entry: EntryPath.TOP, formation: Formation.V, behaviour: EnemyBehaviour.WOBBLE, speed: 200, position: 0.5, path: FlightPathName.SWOOP_LEFT, hold: true },
+          { enemy: EnemyType.SNIPER, count: 2, delay: 4, interval: 2, entry: EntryPath.TOP, formation: Formation.RANDOM, behaviour: EnemyBehaviour.HOVER, speed: 50 },
+        ],
+      },
+      {
+        timeout: 10,
+        groups: [],
+        meteors: { count: 14, delay: 0, duration: 16, sizes: [MeteorSize.BIG, MeteorSize.BIG, MeteorSize.MEDIUM, MeteorSize.MEDIUM, MeteorSize.SMALL], speed: 80, drift: 30 },
+      },
+      {
+        timeout: 14,
+        groups: [
+          { enemy: EnemyType.TYPE_1, count: 6, delay: 0, interval: 0.4, entry: EntryPath.RIGHT, formation: Formation.COLUMN, behaviour: EnemyBehaviour.WOBBLE, speed: 120, position: 0.2 },
+          { enemy: EnemyType.TYPE_1, count: 6, delay: 2, interval: 0.4, entry: EntryPath.LEFT, formation: Formation.COLUMN, behaviour: EnemyBehaviour.WOBBLE, speed: 120, position: 0.3 },
+          { enemy: EnemyType.KAMIKAZE, count: 4, delay: 6, interval: 0.8, entry: EntryPath.TOP, formation: Formation.RANDOM, behaviour: EnemyBehaviour.STRAIGHT, speed: 80 },
+        ],
+        meteors: { count: 5, delay: 2, duration: 10, sizes: [MeteorSize.MEDIUM, MeteorSize.SMALL], speed: 100, drift: 40 },
+      },
+      {
+        timeout: 16,
+        groups: [
+          { enemy: EnemyType.TYPE_2, count: 4, delay: 0, interval: 0, entry: EntryPath.TOP, formation: Formation.LINE, behaviour: EnemyBehaviour.HOVER, speed: 70, position: 0.5 },
+          { enemy: EnemyType.TYPE_1, count: 6, delay: 3, interval: 0.4, entry: EntryPath.TOP, formation: Formation.COLUMN, behaviour: EnemyBehaviour.STRAIGHT, speed: 190, path: FlightPathName.LOOP },
+          { enemy: EnemyType.TANK, count: 1, delay: 7, interval: 0, entry: EntryPath.TOP, formation: Formation.LINE, behaviour: EnemyBehaviour.STRAIGHT, speed: 25, position: 0.5 },
+          { enemy: EnemyType.SHIELDED, count: 2, delay: 7.5, interval: 0, entry: EntryPath.TOP, formation: Formation.LINE, behaviour: EnemyBehaviour.HOVER, speed: 50, position: 0.5 },
+        ],
+      },
+      {
+        timeout: 60,
+        boss: true,
+        groups: [],
+      },
+    ],
+  },
+  {
+    name: 'Dreadnought Sector',
+    intermission: 4,
+    waves: [
+      {
+        timeout: 14,
+        groups: [
+          { enemy: EnemyType.TYPE_3, count: 5, delay: 0, interval: 0, entry: EntryPath.TOP, formation: Formation.V, behaviour: EnemyBehaviour.HOVER, speed: 60, position: 0.5 },
+          { enemy: EnemyType.TYPE_2, count: 5, delay: 4, interval: 0.5, entry: EntryPath.LEFT, formation: Formation.COLUMN, behaviour: EnemyBehaviour.STRAIGHT, speed: 115, position: 0.2 },
+          { enemy: EnemyType.CLOAKER, count: 3, delay: 7, interval: 1, entry: EntryPath.TOP, formation: Formation.RANDOM, behaviour: EnemyBehaviour.WOBBLE, speed: 45 },
+        ],
+      },
+      {
+        timeout: 16,
+        groups: [
+          { enemy: EnemyType.TYPE_1, count: 6, delay: 0, interval: 0.35, entry: EntryPath.TOP, formation: Formation.RANDOM, behaviour: EnemyBehaviour.STRAIGHT, speed: 220, position: 0.5, path: FlightPathName.SWOOP_RIGHT, hold: true },
+          { enemy: EnemyType.TYPE_1, count: 3, delay: 3, interval: 0, entry: EntryPath.TOP, formation: Formation.V, behaviour: EnemyBehaviour.STRAIGHT, speed: 200, path: FlightPathName.S_CURVE },
+          { enemy: EnemyType.TYPE_2, count: 4, delay: 5, interval: 0.5, entry: EntryPath.RIGHT, formation: Formation.COLUMN, behaviour: EnemyBehaviour.WOBBLE, speed: 120, position: 0.25 },
+          { enemy: EnemyType.TANK, count: 2, delay: 8, interval: 1, entry: EntryPath.TOP, formation: Formation.RANDOM, behaviour: EnemyBehaviour.STRAIGHT, speed: 25 },
+          { enemy: EnemyType.SNIPER, count: 2, delay: 9, interval: 0, entry: EntryPath.TOP, formation: Formation.LINE, behaviour: EnemyBehaviour.HOVER, speed: 60, position: 0.5 },
+          { enemy: EnemyType.TYPE_2, count: 2, delay: 10, interval: 0.6, entry: EntryPath.LEFT, formation: Formation.COLUMN, behaviour: EnemyBehaviour.STRAIGHT, speed: 240, path: FlightPathName.DIVE_LEFT },
+          { enemy: EnemyType.TYPE_2, count: 2, delay: 10.3, interval: 0.6, entry: EntryPath.RIGHT, formation: Formation.COLUMN, behaviour: EnemyBehaviour.STRAIGHT, speed: 240, path: FlightPathName.DIVE_RIGHT },
+        ],
+      },
+      {
+        timeout: 60,
+        boss: true,
+        groups: [],
+      },
+    ],
+  },
+];
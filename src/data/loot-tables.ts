@@ -0,0 +1,231 @@
+import { EnemyType } from '../entities/enemy-ship';
+import { MeteorSize } from '../entities/meteor';
+import { PowerUpType } from '../entities/power-up';
+import { WeaponType } from '../entities/weapon';
+import { GameMode } from '../core/game-mode';
+
+/**
+ * One possible drop of a loot table
+ */
+export interface LootEntry {
+  type: PowerUpType;
+  weight: number; // Relative to the other entries of the table
+  weapons?: WeaponType[]; // Weapon power-ups carry one of these, picked at random
+}
+
+/**
+ * What an enemy may drop when it is destroyed
+ */
+export interface LootTableDefinition {
+  dropChance: number; // Chance (0-1) of rolling a drop from the entries
+  entries: LootEntry[];
+  guaranteed: LootEntry[]; // Always dropped, on top of any rolled drop
+  pityKills: number; // A drop is forced after this many kills without one
+}
+
+/**
+ * Adjustments a game mode makes to every loot table
+ */
+export interface LootModifier {
+  dropChance: number; // Multiplier on each table's drop chance
+  pityKills: number; // Multiplier on each table's pity timer
+  weights: Partial<Record<PowerUpType, number>>; // Multipliers on entry weights; 0 removes the entry
+}
+
+/**
+ * Weapons enemies can drop
+ */
+const WEAPON_DROPS: WeaponType[] = [WeaponType.SPREAD, WeaponType.TWIN, WeaponType.RAPID, WeaponType.PIERCING];
+
+/**
+ * Drops shared by the specialist enemies (everything but the red fighters)
+ */
+const SPECIALIST_ENTRIES: LootEntry[] = [
+  { type: PowerUpType.SHIELD, weight: 20 },
+  { type: PowerUpType.WEAPON, weight: 20, weapons: WEAPON_DROPS },
+  { type: PowerUpType.MISSILES, weight: 15 },
+  { type: PowerUpType.WEAPON_UPGRADE, weight: 10 },
+  { type: PowerUpType.RAPID_FIRE, weight: 8 },
+  { type: PowerUpType.SPEED_BOOST, weight: 6 },
+  { type: PowerUpType.SCORE_MULTIPLIER, weight: 8 },
+  { type: PowerUpType.HEALTH_REPAIR, weight: 6 },
+  { type: PowerUpType.EXTRA_LIFE, weight: 3 },
+  { type: PowerUpType.BOMB, weight: 4 },
+];
+
+/**
+ * Loot of each enemy type
+ */
+export const LOOT_TABLES: Record<EnemyType, LootTableDefinition> = {
+  [EnemyType.TYPE_1]: {
+    dropChance: 0.35,
+    pityKills: 8,
+    guaranteed: [],
+    entries: [
+      { type: PowerUpType.SHIELD, weight: 30 },
+      { type: PowerUpType.WEAPON, weight: 20, weapons: WEAPON_DROPS },
+      { type: PowerUpType.MISSILES, weight: 12 },
+      { type: PowerUpType.WEAPON_UPGRADE, weight: 6 },
+      { type: PowerUpType.RAPID_FIRE, weight: 6 },
+      { type: PowerUpType.SPEED_BOOST, weight: 6 },
+      { type: PowerUpType.SCORE_MULTIPLIER, weight: 6 },
+      { type: PowerUpType.HEALTH_REPAIR, weight: 6 },
+      { type: PowerUpType.EXTRA_LIFE, weight: 3 },
+      { type: PowerUpType.BOMB, weight: 3 },
+    ],
+  },
+  [EnemyType.TYPE_2]: {
+    dropChance: 0.4,
+    pityKills: 7,
+    guaranteed: [],
+    entries: [
+      { type: PowerUpType.SHIELD, weight: 25 },
+      { type: PowerUpType.WEAPON, weight: 28, weapons: WEAPON_DROPS },
+      { type: PowerUpType.MISSILES, weight: 10 },
+      { type: PowerUpType.WEAPON_UPGRADE, weight: 10 },
+      { type: PowerUpType.RAPID_FIRE, weight: 8 },
+      { type: PowerUpType.SPEED_BOOST, weight: 5 },
+      { type: PowerUpType.SCORE_MULTIPLIER, weight: 5 },
+      { type: PowerUpType.HEALTH_REPAIR, weight: 5 },
+      { type: PowerUpType.EXTRA_LIFE, weight: 2 },
+      { type: PowerUpType.BOMB, weight: 2 },
+    ],
+  },
+  [EnemyType.TYPE_3]: {
+    dropChance: 0.45,
+    pityKills: 6,
+    guaranteed: [],
+    entries: [
+      { type: PowerUpType.SHIELD, weight: 25 },
+      { type: PowerUpType.WEAPON, weight: 15, weapons: WEAPON_DROPS },
+      { type: PowerUpType.MISSILES, weight: 20 },
+      { type: PowerUpType.WEAPON_UPGRADE, weight: 5 },
+      { type: PowerUpType.RAPID_FIRE, weight: 5 },
+      { type: PowerUpType.SPEED_BOOST, weight: 5 },
+      { type: PowerUpType.SCORE_MULTIPLIER, weight: 8 },
+      { type: PowerUpType.HEALTH_REPAIR, weight: 8 },
+      { type: PowerUpType.EXTRA_LIFE, weight: 4 },
+      { type: PowerUpType.BOMB, weight: 5 },
+    ],
+  },
+  [EnemyType.SNIPER]: {
+    dropChance: 0.45,
+    pityKills: 6,
+    guaranteed: [],
+    entries: SPECIALIST_ENTRIES,
+  },
+  [EnemyType.KAMIKAZE]: {
+    // Usually shot down in numbers, so each one drops less
+    dropChance: 0.25,
+    pityKills: 10,
+    guaranteed: [],
+    entries: SPECIALIST_ENTRIES,
+  },
+  [EnemyType.TANK]: {
+    // Worth the effort of bringing down
+    dropChance: 0.9,
+    pityKills: 2,
+    guaranteed: [],
+    entries: [
+      { type: PowerUpType.WEAPON_UPGRADE, weight: 30 },
+      { type: PowerUpType.WEAPON, weight: 20, weapons: WEAPON_DROPS },
+      { type: PowerUpType.MISSILES, weight: 20 },
+      { type: PowerUpType.HEALTH_REPAIR, weight: 15 },
+      { type: PowerUpType.EXTRA_LIFE, weight: 8 },
+      { type: PowerUpType.BOMB, weight: 7 },
+    ],
+  },
+  [EnemyType.STRAFER]: {
+    dropChance: 0.4,
+    pityKills: 7,
+    guaranteed: [],
+    entries: SPECIALIST_ENTRIES,
+  },
+  [EnemyType.SHIELDED]: {
+    dropChance: 0.5,
+    pityKills: 5,
+    guaranteed: [],
+    entries: [
+      { type: PowerUpType.SHIELD, weight: 50 },
+      ...SPECIALIST_ENTRIES.filter((entry) => entry.type !== PowerUpType.SHIELD),
+    ],
+  },
+  [EnemyType.CLOAKER]: {
+    dropChance: 0.5,
+    pityKills: 5,
+    guaranteed: [],
+    entries: SPECIALIST_ENTRIES,
+  },
+};
+
+/**
+ * Loot of a defeated boss
+ */
+export const BOSS_LOOT: LootTableDefinition = {
+  dropChance: 1,
+  pityKills: 1,
+  guaranteed: [
+    { type: PowerUpType.WEAPON_UPGRADE, weight: 1 },
+    { type: PowerUpType.MISSILES, weight: 1 },
+  ],
+  entries: [
+    { type: PowerUpType.EXTRA_LIFE, weight: 30 },
+    { type: PowerUpType.HEALTH_REPAIR, weight: 30 },
+    { type: PowerUpType.SCORE_MULTIPLIER, weight: 20 },
+    { type: PowerUpType.BOMB, weight: 20 },
+  ],
+};
+
+/**
+ * Loot of broken meteors: only the bigger rocks hold anything, and it is
+ * resources rather than weapons. The smaller pieces roll nothing, so the
+ * pieces of a broken-up rock do not run down the pity timer.
+ */
+export const METEOR_LOOT: Partial<Record<MeteorSize, LootTableDefinition>> = {
+  [MeteorSize.BIG]: {
+    dropChance: 0.25,
+    pityKills: 12,
+    guaranteed: [],
+    entries: [
+      { type: PowerUpType.SHIELD, weight: 30 },
+      { type: PowerUpType.HEALTH_REPAIR, weight: 25 },
+      { type: PowerUpType.MISSILES, weight: 25 },
+      { type: PowerUpType.SCORE_MULTIPLIER, weight: 20 },
+    ],
+  },
+  [MeteorSize.MEDIUM]: {
+    dropChance: 0.08,
+    pityKills: 20,
+    guaranteed: [],
+    entries: [
+      { type: PowerUpType.SHIELD, weight: 40 },
+      { type: PowerUpType.MISSILES, weight: 30 },
+      { type: PowerUpType.SCORE_MULTIPLIER, weight: 30 },
+    ],
+  },
+};
+
+/**
+ * Loot adjustments of each game mode
+ */
+export const LOOT_MODIFIERS: Record<GameMode, LootModifier> = {
+  [GameMode.CLASSIC]: {
+    dropChance: 1,
+    pityKills: 1,
+    weights: {},
+  },
+  [GameMode.DAILY]: {
+    dropChance: 1,
+    pityKills: 1,
+    weights: {},
+  },
+  [GameMode.HARDCORE]: {
+    // Fewer drops and no second chances
+    dropChance: 0.75,
+    pityKills: 1.5,
+    weights: {
+      [PowerUpType.EXTRA_LIFE]: 0,
+      [PowerUpType.HEALTH_REPAIR]: 0.5,
+    },
+  },
+};
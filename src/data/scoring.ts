@@ -0,0 +1,83 @@
+import { EnemyType } from '../entities/enemy-ship';
+import { MeteorSize } from '../entities/meteor';
+
+/**
+ * How kills made in quick succession build a chain
+ */
+export interface ComboSettings {
+  window: number; // Seconds after a kill in which the next one keeps the chain going
+  killsPerStep: number; // Kills in the chain for each rise of the multiplier
+  step: number; // How much the multiplier rises each time
+  maxMultiplier: number;
+}
+
+/**
+ * One rung of the accuracy bonus
+ */
+export interface AccuracyBonus {
+  accuracy: number; // Fraction (0-1) of the wave's shots that must hit
+  points: number;
+}
+
+/**
+ * Bonuses paid when a wave ends
+ */
+export interface WaveBonusSettings {
+  noDamage: number; // Points per wave number for getting through a wave without being hit
+  minShots: number; // Shots a wave needs before accuracy counts
+  accuracy: AccuracyBonus[]; // Best rung first; only the first one reached pays
+}
+
+/**
+ * Points for destroying each enemy type, before any multiplier
+ */
+export const ENEMY_SCORES: Record<EnemyType, number> = {
+  [EnemyType.TYPE_1]: 100,
+  [EnemyType.TYPE_2]: 100,
+  [EnemyType.TYPE_3]: 100,
+  [EnemyType.SNIPER]: 150,
+  [EnemyType.KAMIKAZE]: 150,
+  [EnemyType.TANK]: 400,
+  [EnemyType.STRAFER]: 150,
+  [EnemyType.SHIELDED]: 250,
+  [EnemyType.CLOAKER]: 250,
+};
+
+/**
+ * Points for breaking a meteor of each size, before any multiplier
+ */
+export const METEOR_SCORES: Record<MeteorSize, number> = {
+  [MeteorSize.BIG]: 40,
+  [MeteorSize.MEDIUM]: 25,
+  [MeteorSize.SMALL]: 15,
+  [MeteorSize.TINY]: 10,
+};
+
+/**
+ * Points for defeating a boss, before any multiplier
+ */
+export const BOSS_SCORE = 5000;
+
+/**
+ * Kill chains: every 5 kills, each within 2 seconds of the last, raise the
+ * multiplier by 0.5, up to 4
+ */
+export const COMBO: ComboSettings = {
+  window: 2,
+  killsPerStep: 5,
+  step: 0.5,
+  maxMultiplier: 4,
+};
+
+/**
+ * End of wave bonuses
+ */
+export const WAVE_BONUS: WaveBonusSettings = {
+  noDamage: 200,
+  minShots: 10,
+  accuracy: [
+    { accuracy: 0.9, points: 1500 },
+    { accuracy: 0.75, points: 750 },
+    { accuracy: 0.5, points: 250 },
+  ],
+};
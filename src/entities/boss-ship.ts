@@ -0,0 +1,891 @@
+import { Container, Graphics, Sprite } from 'pixi.js';
+import { Entity } from './entity';
+import { StateMachine } from '../states/state-machine';
+import type { State } from '../states/state-machine';
+import { EnemyType } from './enemy-ship';
+import { ProjectilePool, ProjectileType } from './projectile';
+import type { Projectile } from './projectile';
+import { EnemyGun, FIRE_PATTERNS, FirePatternName } from './fire-pattern';
+import type { PatternShot } from './fire-pattern';
+import { AssetLoader } from '../library/asset-loader';
+import { ExplosionManager, ExplosionType } from '../library/explosion-manager';
+import { SoundManager, SoundType } from '../library/sound-manager';
+import { CollisionLayer } from '../core/collision';
+import { box, circle, placeCollider, shapesOverlap } from '../core/collider';
+import type { Collider } from '../core/collider';
+import { RandomService, RandomStream } from '../core/random';
+
+/**
+ * Boss states: an entry, one state per phase and a defeat
+ */
+enum BossState {
+  ENTERING = 'entering',
+  PHASE_1 = 'phase1',
+  PHASE_2 = 'phase2',
+  PHASE_3 = 'phase3',
+  DEFEATED = 'defeated',
+  INACTIVE = 'inactive',
+}
+
+/**
+ * Phases in the order they are fought and the fraction of health at which each starts
+ */
+const PHASES: { state: BossState; health: number }[] = [
+  { state: BossState.PHASE_1, health: 1 },
+  { state: BossState.PHASE_2, health: 0.66 },
+  { state: BossState.PHASE_3, health: 0.33 },
+];
+
+/**
+ * Entering state: the boss descends into view and cannot be hurt
+ */
+class BossEnteringState implements State {
+  public readonly name = BossState.ENTERING;
+  private timer = 0;
+  private readonly duration = 3; // Seconds
+  private startY = 0;
+
+  public enter(owner: StateMachine): void {
+    const boss = owner.getOwner() as BossShip;
+    this.timer = 0;
+    this.startY = boss.getY();
+
+    SoundManager.getInstance().play(SoundType.BOSS_WARNING);
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const boss = owner.getOwner() as BossShip;
+    this.timer += deltaTime;
+
+    // Ease out into the hover position
+    const t = Math.min(this.timer / this.duration, 1);
+    const eased = 1 - Math.pow(1 - t, 3);
+    boss.setHoverY(this.startY + (boss.hoverY - this.startY) * eased);
+
+    if (t >= 1) {
+      owner.setState(BossState.PHASE_1);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Phase 1: a rotating bullet spiral, broken up by telegraphed radial bursts
+ */
+class BossPhaseOneState implements State {
+  public readonly name = BossState.PHASE_1;
+  private spiralTimer = 0;
+  private burstTimer = 0;
+  private readonly burstInterval = 5; // Seconds
+
+  public enter(_owner: StateMachine): void {
+    this.spiralTimer = 0;
+    this.burstTimer = 3;
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const boss = owner.getOwner() as BossShip;
+    boss.sway(deltaTime);
+
+    this.spiralTimer -= deltaTime;
+    if (this.spiralTimer <= 0) {
+      this.spiralTimer += 0.12;
+      boss.firePattern(FirePatternName.SPIRAL_TRIPLE);
+    }
+
+    this.burstTimer -= deltaTime;
+    if (this.burstTimer <= 0) {
+      this.burstTimer += this.burstInterval;
+      boss.firePattern(FirePatternName.RADIAL_BURST);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Phase 2: a beam sweeps across the screen while a slower spiral keeps firing
+ */
+class BossPhaseTwoState implements State {
+  public readonly name = BossState.PHASE_2;
+  private spiralTimer = 0;
+
+  public enter(owner: StateMachine): void {
+    const boss = owner.getOwner() as BossShip;
+    this.spiralTimer = 0;
+    boss.getBeam().start();
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const boss = owner.getOwner() as BossShip;
+    boss.sway(deltaTime * 0.5);
+
+    this.spiralTimer -= deltaTime;
+    if (this.spiralTimer <= 0) {
+      this.spiralTimer += 0.3;
+      boss.firePattern(FirePatternName.SPIRAL_DOUBLE);
+    }
+  }
+
+  public exit(owner: StateMachine): void {
+    const boss = owner.getOwner() as BossShip;
+    boss.getBeam().stop();
+  }
+}
+
+/**
+ * Phase 3: minions are summoned while a four-armed spiral fires and
+ * telegraphed walls close in, leaving a gap by the player
+ */
+class BossPhaseThreeState implements State {
+  public readonly name = BossState.PHASE_3;
+  private spiralTimer = 0;
+  private summonTimer = 0;
+  private wallTimer = 0;
+  private readonly summonInterval = 5; // Seconds
+  private readonly wallInterval = 6; // Seconds
+
+  public enter(_owner: StateMachine): void {
+    this.spiralTimer = 0;
+    this.summonTimer = 1;
+    this.wallTimer = 3;
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const boss = owner.getOwner() as BossShip;
+    boss.sway(deltaTime * 1.5);
+
+    this.spiralTimer -= deltaTime;
+    if (this.spiralTimer <= 0) {
+      this.spiralTimer += 0.1;
+      boss.firePattern(FirePatternName.SPIRAL_QUAD);
+    }
+
+    this.wallTimer -= deltaTime;
+    if (this.wallTimer <= 0) {
+      this.wallTimer += this.wallInterval;
+      boss.firePattern(FirePatternName.WALL);
+    }
+
+    this.summonTimer -= deltaTime;
+    if (this.summonTimer <= 0) {
+      this.summonTimer += this.summonInterval;
+      boss.summonMinions();
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Defeated state: a chain of explosions before the final blast
+ */
+class BossDefeatedState implements State {
+  public readonly name = BossState.DEFEATED;
+  private timer = 0;
+  private explosionTimer = 0;
+  private readonly duration = 2.5; // Seconds
+
+  public enter(owner: StateMachine): void {
+    const boss = owner.getOwner() as BossShip;
+    this.timer = 0;
+    this.explosionTimer = 0;
+
+    boss.clearProjectiles();
+    SoundManager.getInstance().play(SoundType.BOSS_DEFEATED);
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const boss = owner.getOwner() as BossShip;
+    this.timer += deltaTime;
+
+    // Small blasts all over the hull, shaking it
+    this.explosionTimer -= deltaTime;
+    if (this.explosionTimer <= 0) {
+      this.explosionTimer += 0.2;
+      boss.explodeOnHull();
+    }
+
+    if (this.timer >= this.duration) {
+      const parent = boss.getContainer().parent || boss.getContainer();
+      ExplosionManager.getInstance().createExplosion(ExplosionType.SONIC, boss.getX(), boss.getY(), parent, 3);
+      SoundManager.getInstance().play(SoundType.EXPLOSION_LARGE);
+      owner.setState(BossState.INACTIVE);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Inactive state: waiting to be removed
+ */
+class BossInactiveState implements State {
+  public readonly name = BossState.INACTIVE;
+
+  public enter(owner: StateMachine): void {
+    const boss = owner.getOwner() as BossShip;
+    boss.setActive(false);
+  }
+
+  public update(_owner: StateMachine, _deltaTime: number): void {
+    // Nothing to do while inactive
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Sweeping beam fired by the boss: a column of animated beam segments that
+ * warms up as a thin telegraph, then fires while swinging from side to side
+ */
+export class BossBeam {
+  /**
+   * Container of the segments; rotated to the beam's angle
+   */
+  private container: Container = new Container();
+
+  /**
+   * Beam segments, top to bottom
+   */
+  private segments: Sprite[] = [];
+
+  /**
+   * Whether the beam is cycling through warm-up and firing
+   */
+  private running: boolean = false;
+
+  /**
+   * Seconds into the current warm-up, fire and rest cycle
+   */
+  private cycleTime: number = 0;
+
+  /**
+   * Seconds of warning before the beam fires
+   */
+  private readonly warmUpTime: number = 1;
+
+  /**
+   * Seconds the beam fires for
+   */
+  private readonly fireTime: number = 3.5;
+
+  /**
+   * Seconds between sweeps
+   */
+  private readonly restTime: number = 1.5;
+
+  /**
+   * Widest angle of the sweep either side of straight down, in radians
+   */
+  private readonly sweepAngle: number = Math.PI / 3;
+
+  /**
+   * Angle from straight down in radians; positive points the beam to the left of the screen
+   */
+  private angle: number = 0;
+
+  /**
+   * Direction of the current sweep (1 or -1)
+   */
+  private direction: number = 1;
+
+  /**
+   * Length of the beam in pixels
+   */
+  private readonly length: number;
+
+  /**
+   * Half the width of the beam in pixels, for hit checks
+   */
+  public readonly halfWidth: number = 14;
+
+  /**
+   * Damage dealt each time the beam hits
+   */
+  public readonly damage: number = 30;
+
+  /**
+   * Seconds the beam waits before it can hit again
+   */
+  private readonly hitCooldown: number = 0.6;
+
+  /**
+   * Seconds until the beam can hit again
+   */
+  private hitTimer: number = 0;
+
+  /**
+   * Spacing of the segments in pixels
+   */
+  private readonly segmentSpacing: number = 16;
+
+  /**
+   * Constructor
+   * @param length Length of the beam in pixels
+   */
+  constructor(length: number) {
+    this.length = length;
+
+    const assetLoader = AssetLoader.getInstance();
+    for (let offset = 0; offset < length; offset += this.segmentSpacing) {
+      const segment = new Sprite(assetLoader.getTexture('beam0'));
+      segment.anchor.set(0.5);
+      segment.position.set(0, offset);
+      this.segments.push(segment);
+      this.container.addChild(segment);
+    }
+
+    this.container.visible = false;
+  }
+
+  /**
+   * Start sweeping, beginning with a warm-up
+   */
+  public start(): void {
+    this.running = true;
+    this.cycleTime = 0;
+    this.angle = -this.sweepAngle * this.direction;
+  }
+
+  /**
+   * Stop the beam
+   */
+  public stop(): void {
+    this.running = false;
+    this.container.visible = false;
+  }
+
+  /**
+   * Advance the beam
+   * @param deltaTime Time since last update in seconds
+   */
+  public update(deltaTime: number): void {
+    this.hitTimer = Math.max(0, this.hitTimer - deltaTime);
+
+    if (!this.running) return;
+
+    this.cycleTime += deltaTime;
+
+    const cycleLength = this.warmUpTime + this.fireTime + this.restTime;
+    if (this.cycleTime >= cycleLength) {
+      // Next sweep goes the other way
+      this.cycleTime -= cycleLength;
+      this.direction = -this.direction;
+      this.angle = -this.sweepAngle * this.direction;
+    }
+
+    if (this.isFiring()) {
+      // Swing smoothly from one side to the other
+      const t = (this.cycleTime - this.warmUpTime) / this.fireTime;
+      this.angle = -this.sweepAngle * this.direction * Math.cos(t * Math.PI);
+
+      if (this.cycleTime - deltaTime < this.warmUpTime) {
+        SoundManager.getInstance().play(SoundType.BOSS_BEAM);
+      }
+    }
+
+    this.updateVisual();
+  }
+
+  /**
+   * Show the beam: a faint thin telegraph while warming up,
+   * then crackling segments cycling through beam0-beam6 while firing
+   */
+  private updateVisual(): void {
+    const warming = this.cycleTime < this.warmUpTime;
+    this.container.visible = warming || this.isFiring();
+    this.container.rotation = this.angle;
+
+    const assetLoader = AssetLoader.getInstance();
+    const frame = Math.floor(this.cycleTime * 20);
+
+    this.segments.forEach((segment, index) => {
+      segment.texture = assetLoader.getTexture(`beam${(frame + index) % 7}`);
+      if (warming) {
+        segment.alpha = 0.15 + 0.15 * Math.sin(this.cycleTime * 30);
+        segment.scale.set(0.3, 1);
+      } else {
+        segment.alpha = 1;
+        segment.scale.set(1);
+      }
+    });
+  }
+
+  /**
+   * Is the beam firing (and able to hurt)?
+   */
+  public isFiring(): boolean {
+    return this.running && this.cycleTime >= this.warmUpTime && this.cycleTime < this.warmUpTime + this.fireTime;
+  }
+
+  /**
+   * Check whether the beam hits a collider, starting its hit cooldown if it does
+   * @param originX X position the beam fires from
+   * @param originY Y position the beam fires from
+   * @param collider The collider
+   * @param x X position of the collider
+   * @param y Y position of the collider
+   */
+  public tryHit(originX: number, originY: number, collider: Collider, x: number, y: number): boolean {
+    if (!this.isFiring() || this.hitTimer > 0) return false;
+
+    // A long box hanging from the origin, turned to the beam's angle
+    const [beam] = placeCollider(box(this.halfWidth * 2, this.length, 0, this.length / 2), originX, originY, this.angle);
+    const shapes = placeCollider(collider, x, y, 0);
+
+    if (shapes.some((shape) => shapesOverlap(beam, shape))) {
+      this.hitTimer = this.hitCooldown;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Get the beam's container
+   */
+  public getContainer(): Container {
+    return this.container;
+  }
+}
+
+/**
+ * Boss ship: a large enemy fought in phases. Each phase starts when the boss's
+ * health drops below a threshold and has its own attack pattern; the boss
+ * descends into view before the fight and goes down in a chain of explosions
+ */
+export class BossShip extends Entity {
+  /**
+   * Display name shown above the health bar
+   */
+  public readonly name: string = 'Crimson Dreadnought';
+
+  /**
+   * Health points
+   */
+  private health: number;
+
+  /**
+   * Maximum health points
+   */
+  public readonly maxHealth: number = 4000;
+
+  /**
+   * Rough radius of the hull, for effects drawn around it
+   */
+  public readonly hitRadius: number = 60;
+
+  /**
+   * Y position the boss hovers at once it has entered
+   */
+  public readonly hoverY: number = 150;
+
+  /**
+   * Damage dealt by flying into the player
+   */
+  private readonly ramDamage: number = 40;
+
+  /**
+   * How hard the boss is to knock back, relative to the player's ship
+   */
+  private readonly mass: number = 20;
+
+  /**
+   * Seconds spent swaying, driving the side to side movement
+   */
+  private swayTime: number = 0;
+
+  /**
+   * Fires the quick patterns, such as spirals
+   */
+  private gun: EnemyGun = new EnemyGun();
+
+  /**
+   * Fires the telegraphed heavy patterns alongside the quick ones
+   */
+  private heavyGun: EnemyGun = new EnemyGun();
+
+  /**
+   * Glow around the hull warning of a heavy volley
+   */
+  private telegraphFlash: Graphics = new Graphics();
+
+  /**
+   * Entity aimed at
+   */
+  private target: Entity | null = null;
+
+  /**
+   * Bullets fired by the boss
+   */
+  private projectilePool: ProjectilePool;
+
+  /**
+   * Sweeping beam used in phase 2
+   */
+  private beam: BossBeam;
+
+  /**
+   * Screen dimensions
+   */
+  private screenWidth: number;
+  private screenHeight: number;
+
+  /**
+   * Called to bring in minions
+   */
+  private summonCallback: ((type: EnemyType, x: number, y: number) => void) | null = null;
+
+  /**
+   * Called once when the boss is defeated
+   */
+  private defeatedCallback: ((boss: BossShip) => void) | null = null;
+
+  /**
+   * Constructor
+   * @param screenWidth Screen width
+   * @param screenHeight Screen height
+   */
+  constructor(screenWidth: number, screenHeight: number) {
+    super(screenWidth / 2, -120);
+
+    this.screenWidth = screenWidth;
+    this.screenHeight = screenHeight;
+    this.health = this.maxHealth;
+
+    this.projectilePool = new ProjectilePool(40, ProjectileType.ENEMY, 20, 200, screenWidth, screenHeight);
+
+    // The beam is drawn behind the hull
+    this.beam = new BossBeam(screenHeight * 1.2);
+    this.container.addChild(this.beam.getContainer());
+    this.container.addChild(this.telegraphFlash);
+
+    this.setSprite(AssetLoader.getInstance().getTexture('enemyRed5'));
+    if (this.sprite) {
+      this.sprite.scale.set(1.6);
+      this.width = this.sprite.width;
+      this.height = this.sprite.height;
+    }
+
+    this.setColliderFromTexture('enemyRed5', 1.6, circle(this.hitRadius));
+    this.setCollisionLayer(CollisionLayer.ENEMY, CollisionLayer.PLAYER | CollisionLayer.PLAYER_BULLET);
+
+    this.stateMachine.setState(BossState.ENTERING);
+  }
+
+  /**
+   * Initialize states
+   */
+  protected initializeStates(): void {
+    this.stateMachine.addState(new BossEnteringState());
+    this.stateMachine.addState(new BossPhaseOneState());
+    this.stateMachine.addState(new BossPhaseTwoState());
+    this.stateMachine.addState(new BossPhaseThreeState());
+    this.stateMachine.addState(new BossDefeatedState());
+    this.stateMachine.addState(new BossInactiveState());
+  }
+
+  /**
+   * Update the boss, its bullets and its beam
+   * @param deltaTime Time since last update in seconds
+   */
+  public update(deltaTime: number): void {
+    super.update(deltaTime);
+
+    this.beam.update(deltaTime);
+
+    // Guns stop firing once the boss is beaten
+    if (this.isVulnerable()) {
+      for (const gun of [this.gun, this.heavyGun]) {
+        for (const shot of gun.update(deltaTime, this.x, this.y, this.target, this.screenWidth)) {
+          this.spawnProjectile(shot);
+        }
+      }
+    } else {
+      this.gun.reset();
+      this.heavyGun.reset();
+    }
+    this.drawTelegraph();
+
+    this.projectilePool.update(deltaTime);
+  }
+
+  /**
+   * Render the boss and its bullets
+   * @param alpha Interpolation factor between simulation steps
+   */
+  public render(alpha: number): void {
+    super.render(alpha);
+    this.projectilePool.render(alpha);
+  }
+
+  /**
+   * Move to a height during the entry
+   * @param y Y position
+   */
+  public setHoverY(y: number): void {
+    this.y = y;
+  }
+
+  /**
+   * Sway from side to side across the top of the screen
+   * @param deltaTime Time to advance the sway by in seconds
+   */
+  public sway(deltaTime: number): void {
+    this.swayTime += deltaTime;
+    this.x = this.screenWidth / 2 + Math.sin(this.swayTime * 0.6) * (this.screenWidth / 2 - 100);
+  }
+
+  /**
+   * Fire a pattern from the library; patterns with a warning go to the heavy
+   * gun so the spirals keep turning while it charges
+   * @param name The pattern to fire
+   * @returns False if the gun for the pattern is still busy
+   */
+  public firePattern(name: FirePatternName): boolean {
+    const pattern = FIRE_PATTERNS[name];
+    const gun = pattern.telegraph > 0 ? this.heavyGun : this.gun;
+    return gun.trigger(pattern);
+  }
+
+  /**
+   * Launch one bullet of a volley
+   * @param shot Where the bullet starts and how it flies
+   */
+  private spawnProjectile(shot: PatternShot): void {
+    const projectile = this.projectilePool.getProjectile();
+    projectile.fire(shot.x, shot.y, shot.launch);
+
+    if (this.container.parent && !projectile.getContainer().parent) {
+      this.container.parent.addChild(projectile.getContainer());
+    }
+  }
+
+  /**
+   * Draw the ring that pulses around the hull while a heavy volley charges
+   */
+  private drawTelegraph(): void {
+    const telegraph = this.heavyGun.getTelegraph();
+
+    this.telegraphFlash.clear();
+    if (telegraph <= 0) return;
+
+    const flicker = Math.sin(telegraph * telegraph * 40) > 0 ? 1 : 0.5;
+    this.telegraphFlash
+      .circle(0, 0, this.hitRadius + 30 - telegraph * 20)
+      .stroke({ width: 2 + telegraph * 6, color: 0xFF5533, alpha: (0.3 + 0.6 * telegraph) * flicker });
+  }
+
+  /**
+   * Call in a pair of minions either side of the boss
+   */
+  public summonMinions(): void {
+    if (!this.summonCallback) return;
+
+    const random = RandomService.getInstance().getStream(RandomStream.ENEMY);
+    const type = random.pick([EnemyType.TYPE_1, EnemyType.TYPE_2, EnemyType.KAMIKAZE]);
+
+    this.summonCallback(type, Math.max(40, this.x - 90), this.y);
+    this.summonCallback(type, Math.min(this.screenWidth - 40, this.x + 90), this.y);
+  }
+
+  /**
+   * Set off a small explosion somewhere on the hull
+   */
+  public explodeOnHull(): void {
+    const random = RandomService.getInstance().getStream(RandomStream.ENEMY);
+    const x = this.x + random.range(-this.width / 2, this.width / 2);
+    const y = this.y + random.range(-this.height / 2, this.height / 2);
+
+    ExplosionManager.getInstance().createExplosion(
+      ExplosionType.SONIC,
+      x,
+      y,
+      this.container.parent || this.container,
+      0.8
+    );
+    SoundManager.getInstance().play(SoundType.EXPLOSION_SMALL);
+
+    // Shake the hull
+    if (this.sprite) {
+      this.sprite.position.set(random.range(-4, 4), random.range(-4, 4));
+    }
+  }
+
+  /**
+   * Take damage, moving to the next phase when health drops below its threshold
+   * @param amount Damage amount
+   */
+  public takeDamage(amount: number): void {
+    if (!this.isVulnerable()) return;
+
+    this.health = Math.max(0, this.health - amount);
+
+    if (this.health <= 0) {
+      this.stateMachine.setState(BossState.DEFEATED);
+
+      if (this.defeatedCallback) {
+        this.defeatedCallback(this);
+      }
+      return;
+    }
+
+    const current = this.stateMachine.getCurrentState()?.name;
+    const currentIndex = PHASES.findIndex((phase) => phase.state === current);
+    const next = PHASES[currentIndex + 1];
+
+    if (next && this.health / this.maxHealth <= next.health) {
+      this.stateMachine.setState(next.state);
+    }
+  }
+
+  /**
+   * Can the boss be damaged (not entering or defeated)?
+   */
+  public isVulnerable(): boolean {
+    return PHASES.some((phase) => phase.state === this.stateMachine.getCurrentState()?.name);
+  }
+
+  /**
+   * Is the boss still descending into view?
+   */
+  public isEntering(): boolean {
+    return this.stateMachine.getCurrentState()?.name === BossState.ENTERING;
+  }
+
+  /**
+   * Has the boss been defeated?
+   */
+  public isDefeated(): boolean {
+    return this.health <= 0;
+  }
+
+  /**
+   * Has the defeat finished playing?
+   */
+  public isFinished(): boolean {
+    return this.stateMachine.getCurrentState()?.name === BossState.INACTIVE;
+  }
+
+  /**
+   * Get the current phase, starting at 1 (0 before the fight starts)
+   */
+  public getPhase(): number {
+    return PHASES.findIndex((phase) => phase.state === this.stateMachine.getCurrentState()?.name) + 1;
+  }
+
+  /**
+   * Get the fraction of health left (0-1)
+   */
+  public getHealthFraction(): number {
+    return this.health / this.maxHealth;
+  }
+
+  /**
+   * Get the damage dealt by flying into the player
+   */
+  public getRamDamage(): number {
+    return this.ramDamage;
+  }
+
+  /**
+   * Get how hard the boss is to knock back, relative to the player's ship
+   */
+  public getMass(): number {
+    return this.mass;
+  }
+
+  /**
+   * Shove the boss, as when it collides with the player
+   * @param _velocityX Horizontal push in pixels per second
+   * @param _velocityY Vertical push in pixels per second
+   */
+  public applyKnockback(_velocityX: number, _velocityY: number): void {
+    // The boss holds its course; only the player bounces off
+  }
+
+  /**
+   * Get the sweeping beam
+   */
+  public getBeam(): BossBeam {
+    return this.beam;
+  }
+
+  /**
+   * Check whether the beam hits a collider
+   * @param collider The collider
+   * @param x X position of the collider
+   * @param y Y position of the collider
+   */
+  public beamHits(collider: Collider, x: number, y: number): boolean {
+    return this.beam.tryHit(this.x, this.y, collider, x, y);
+  }
+
+  /**
+   * Get the bullets in flight
+   */
+  public getActiveProjectiles(): Projectile[] {
+    return this.projectilePool.getActiveProjectiles();
+  }
+
+  /**
+   * Remove every bullet in flight
+   */
+  public clearProjectiles(): void {
+    this.projectilePool.deactivateAll();
+  }
+
+  /**
+   * Set the entity to aim at
+   * @param target The entity to aim at
+   */
+  public setTarget(target: Entity | null): void {
+    this.target = target;
+  }
+
+  /**
+   * Set the callback used to summon minions
+   * @param callback Function receiving the enemy type and position
+   */
+  public setSummonCallback(callback: (type: EnemyType, x: number, y: number) => void): void {
+    this.summonCallback = callback;
+  }
+
+  /**
+   * Set the callback for when the boss is defeated
+   * @param callback Function receiving the boss
+   */
+  public setDefeatedCallback(callback: (boss: BossShip) => void): void {
+    this.defeatedCallback = callback;
+  }
+
+  /**
+   * Set screen dimensions
+   * @param width Screen width
+   * @param height Screen height
+   */
+  public setScreenDimensions(width: number, height: number): void {
+    this.screenWidth = width;
+    this.screenHeight = height;
+  }
+
+  /**
+   * Remove the boss and its bullets from the scene
+   */
+  public destroy(): void {
+    this.projectilePool.destroyAll();
+    super.destroy();
+  }
+}
@@ -0,0 +1,581 @@
+import { Graphics } from 'pixi.js';
+import type { State, StateMachine } from '../states/state-machine';
+import { Projectile } from './projectile';
+import { RandomService, RandomStream } from '../core/random';
+import type { EnemyShip } from './enemy-ship';
+
+/**
+ * How an enemy fights; each role has its own set of states
+ */
+export enum EnemyRole {
+  FIGHTER = 'fighter', // Flies its behaviour and fires whenever it can
+  SNIPER = 'sniper', // Stops, lines up a shot on the player, then fires a fast bolt
+  KAMIKAZE = 'kamikaze', // Locks on to the player and rams them
+  TANK = 'tank', // Slow and tough, braces to fire wide spreads
+  STRAFER = 'strafer', // Sweeps across the screen, raking it with fire
+  SHIELDED = 'shielded', // An energy shield soaks up damage and recharges
+  CLOAKER = 'cloaker', // Fades out of sight, untouchable while cloaked
+}
+
+/**
+ * Names of the role states
+ */
+enum RoleState {
+  SNIPER_PERCH = 'sniper-perch',
+  SNIPER_AIM = 'sniper-aim',
+  KAMIKAZE_APPROACH = 'kamikaze-approach',
+  KAMIKAZE_LOCK = 'kamikaze-lock',
+  KAMIKAZE_CHARGE = 'kamikaze-charge',
+  TANK_ADVANCE = 'tank-advance',
+  TANK_VOLLEY = 'tank-volley',
+  STRAFER_ENTER = 'strafer-enter',
+  STRAFER_SWEEP = 'strafer-sweep',
+  STRAFER_EXIT = 'strafer-exit',
+  SHIELD_UP = 'shield-up',
+  SHIELD_DOWN = 'shield-down',
+  CLOAK_VISIBLE = 'cloak-visible',
+  CLOAK_FADE = 'cloak-fade',
+  CLOAKED = 'cloaked',
+  CLOAK_REVEAL = 'cloak-reveal',
+}
+
+/**
+ * Sniper perch: fly in, then line up a shot once on screen and ready
+ */
+class SniperPerchState implements State {
+  public readonly name = RoleState.SNIPER_PERCH;
+
+  public enter(_owner: StateMachine): void {
+    // Nothing to do
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.move(deltaTime);
+
+    const target = enemy.getTarget();
+    if (enemy.isReadyToShoot() && enemy.getY() > 40 && target && target.isActive()) {
+      owner.setState(RoleState.SNIPER_AIM);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Sniper aim: a laser sight tracks the player, holds still for a moment,
+ * then the sniper fires a fast bolt along it
+ */
+class SniperAimState implements State {
+  public readonly name = RoleState.SNIPER_AIM;
+  private timer = 0;
+  private readonly trackTime = 0.8; // Seconds the sight follows the player
+  private readonly lockTime = 0.3; // Seconds the sight holds still before the shot
+  private aimX = 0;
+  private aimY = 0;
+  private sight: Graphics | null = null;
+
+  public enter(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    this.timer = 0;
+
+    this.sight = new Graphics();
+    enemy.getContainer().addChild(this.sight);
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    const target = enemy.getTarget();
+    this.timer += deltaTime;
+
+    // Snipers stand still to aim, unless they are keeping to a path or formation
+    if (!enemy.isFree()) {
+      enemy.move(deltaTime);
+    }
+
+    if (this.timer < this.trackTime && target && target.isActive()) {
+      this.aimX = target.getX();
+      this.aimY = target.getY();
+    }
+
+    const locked = this.timer >= this.trackTime;
+    if (this.sight) {
+      this.sight.clear();
+      this.sight
+        .moveTo(0, 0)
+        .lineTo(this.aimX - enemy.getX(), this.aimY - enemy.getY())
+        .stroke({ width: locked ? 2 : 1, color: 0xFF2222, alpha: locked ? 0.9 : 0.4 });
+    }
+
+    if (this.timer >= this.trackTime + this.lockTime) {
+      enemy.shoot({ x: this.aimX, y: this.aimY });
+      owner.setState(RoleState.SNIPER_PERCH);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    if (this.sight) {
+      this.sight.destroy();
+      this.sight = null;
+    }
+  }
+}
+
+/**
+ * Kamikaze approach: fly in until far enough down the screen to start a run
+ */
+class KamikazeApproachState implements State {
+  public readonly name = RoleState.KAMIKAZE_APPROACH;
+
+  public enter(_owner: StateMachine): void {
+    // Nothing to do
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.move(deltaTime);
+
+    const target = enemy.getTarget();
+    if (enemy.isFree() && enemy.getY() > enemy.getScreenHeight() * 0.2 && target && target.isActive()) {
+      owner.setState(RoleState.KAMIKAZE_LOCK);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Kamikaze lock: hangs in place flashing red as a warning before it charges
+ */
+class KamikazeLockState implements State {
+  public readonly name = RoleState.KAMIKAZE_LOCK;
+  private timer = 0;
+  private readonly lockTime = 0.6; // Seconds of warning
+
+  public enter(_owner: StateMachine): void {
+    this.timer = 0;
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    this.timer += deltaTime;
+
+    enemy.setTint(Math.floor(this.timer * 12) % 2 === 0 ? 0xFF4444 : 0xFFFFFF);
+
+    if (this.timer >= this.lockTime) {
+      owner.setState(RoleState.KAMIKAZE_CHARGE);
+    }
+  }
+
+  public exit(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.setTint(0xFFFFFF);
+  }
+}
+
+/**
+ * Kamikaze charge: accelerates at where the player was when the charge began
+ * and keeps going until it hits them or leaves the screen
+ */
+class KamikazeChargeState implements State {
+  public readonly name = RoleState.KAMIKAZE_CHARGE;
+  private speed = 0;
+  private readonly startSpeed = 120; // Pixels per second
+  private readonly maxSpeed = 480; // Pixels per second
+  private readonly acceleration = 600; // Pixels per second squared
+  private directionX = 0;
+  private directionY = 1;
+
+  public enter(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    const target = enemy.getTarget();
+    this.speed = this.startSpeed;
+
+    if (target && target.isActive()) {
+      const aim = Projectile.aim(enemy.getX(), enemy.getY(), target.getX(), target.getY(), 1);
+      this.directionX = aim.velocityX ?? 0;
+      this.directionY = aim.velocityY ?? 1;
+    }
+
+    enemy.setRotation(Math.atan2(this.directionY, this.directionX) - Math.PI / 2);
+    enemy.setRamming(true);
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    this.speed = Math.min(this.maxSpeed, this.speed + this.acceleration * deltaTime);
+    enemy.translate(this.directionX * this.speed * deltaTime, this.directionY * this.speed * deltaTime);
+  }
+
+  public exit(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.setRamming(false);
+  }
+}
+
+/**
+ * Tank advance: lumber down the screen until the guns are ready
+ */
+class TankAdvanceState implements State {
+  public readonly name = RoleState.TANK_ADVANCE;
+
+  public enter(_owner: StateMachine): void {
+    // Nothing to do
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.move(deltaTime);
+
+    if (enemy.isReadyToShoot() && enemy.getY() > 30) {
+      owner.setState(RoleState.TANK_VOLLEY);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Tank volley: brace, glowing hotter while the guns warn of the volley,
+ * then fire a wide, slow spread
+ */
+class TankVolleyState implements State {
+  public readonly name = RoleState.TANK_VOLLEY;
+
+  public enter(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.shoot();
+  }
+
+  public update(owner: StateMachine, _deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+
+    // Glow from white to orange as the guns charge
+    const charge = enemy.getTelegraph();
+    const green = Math.round(255 - charge * 120);
+    const blue = Math.round(255 - charge * 220);
+    enemy.setTint((0xFF << 16) | (green << 8) | blue);
+
+    if (!enemy.isFiring()) {
+      owner.setState(RoleState.TANK_ADVANCE);
+    }
+  }
+
+  public exit(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.setTint(0xFFFFFF);
+  }
+}
+
+/**
+ * Strafer enter: fly in to a sweeping height picked at random
+ */
+class StraferEnterState implements State {
+  public readonly name = RoleState.STRAFER_ENTER;
+  private sweepY = 0;
+
+  public enter(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    const random = RandomService.getInstance().getStream(RandomStream.ENEMY);
+    this.sweepY = enemy.getScreenHeight() * random.range(0.12, 0.3);
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.move(deltaTime);
+
+    if (enemy.isFree() && enemy.getY() >= this.sweepY) {
+      owner.setState(RoleState.STRAFER_SWEEP);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Strafer sweep: race from edge to edge firing straight down, dropping
+ * lower at each turn, then leave after a few passes
+ */
+class StraferSweepState implements State {
+  public readonly name = RoleState.STRAFER_SWEEP;
+  private direction = 1;
+  private passes = 0;
+  private readonly speed = 220; // Pixels per second
+  private readonly maxPasses = 3;
+  private readonly drop = 40; // Pixels lower at each turn
+
+  public enter(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+
+    // Head for the far side first
+    this.direction = enemy.getX() < enemy.getScreenWidth() / 2 ? 1 : -1;
+    this.passes = 0;
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    const margin = 40;
+
+    enemy.translate(this.direction * this.speed * deltaTime, 0);
+    enemy.setRotation(-this.direction * 0.25); // Bank into the sweep
+
+    const atEdge = this.direction > 0
+      ? enemy.getX() >= enemy.getScreenWidth() - margin
+      : enemy.getX() <= margin;
+
+    if (atEdge) {
+      this.passes++;
+      if (this.passes >= this.maxPasses) {
+        owner.setState(RoleState.STRAFER_EXIT);
+        return;
+      }
+      this.direction = -this.direction;
+      enemy.translate(0, this.drop);
+    }
+
+    if (enemy.isReadyToShoot()) {
+      enemy.shoot();
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Strafer exit: peel off the side of the screen
+ */
+class StraferExitState implements State {
+  public readonly name = RoleState.STRAFER_EXIT;
+  private direction = 1;
+
+  public enter(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    this.direction = enemy.getX() < enemy.getScreenWidth() / 2 ? -1 : 1;
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.translate(this.direction * 280 * deltaTime, -60 * deltaTime);
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Shield up: the shield soaks up damage while the ship flies and fires
+ */
+class ShieldUpState implements State {
+  public readonly name = RoleState.SHIELD_UP;
+
+  public enter(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.restoreShield();
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.move(deltaTime);
+
+    if (enemy.isReadyToShoot()) {
+      enemy.shoot();
+    }
+
+    if (enemy.getShield() <= 0) {
+      owner.setState(RoleState.SHIELD_DOWN);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Shield down: the hull is exposed until the shield recharges
+ */
+class ShieldDownState implements State {
+  public readonly name = RoleState.SHIELD_DOWN;
+  private timer = 0;
+  private readonly rechargeTime = 4; // Seconds
+
+  public enter(_owner: StateMachine): void {
+    this.timer = 0;
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    this.timer += deltaTime;
+    enemy.move(deltaTime);
+
+    if (enemy.isReadyToShoot()) {
+      enemy.shoot();
+    }
+
+    if (this.timer >= this.rechargeTime) {
+      owner.setState(RoleState.SHIELD_UP);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Cloak visible: fly and fire aimed shots for a while before cloaking
+ */
+class CloakVisibleState implements State {
+  public readonly name = RoleState.CLOAK_VISIBLE;
+  private timer = 0;
+  private readonly visibleTime = 2.5; // Seconds
+
+  public enter(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    this.timer = 0;
+    enemy.setOpacity(1);
+    enemy.setTargetable(true);
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    this.timer += deltaTime;
+    enemy.move(deltaTime);
+
+    if (enemy.isReadyToShoot()) {
+      enemy.shoot();
+    }
+
+    // Only cloak once on screen, so the player sees it happen
+    if (this.timer >= this.visibleTime && enemy.getY() > 0) {
+      owner.setState(RoleState.CLOAK_FADE);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Cloak fade: the ship shimmers out of sight
+ */
+class CloakFadeState implements State {
+  public readonly name = RoleState.CLOAK_FADE;
+  private timer = 0;
+  private readonly fadeTime = 0.5; // Seconds
+
+  public enter(_owner: StateMachine): void {
+    this.timer = 0;
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    this.timer += deltaTime;
+    enemy.move(deltaTime);
+    enemy.setOpacity(1 - 0.85 * Math.min(1, this.timer / this.fadeTime));
+
+    if (this.timer >= this.fadeTime) {
+      owner.setState(RoleState.CLOAKED);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Cloaked: barely visible, and shots pass straight through
+ */
+class CloakedState implements State {
+  public readonly name = RoleState.CLOAKED;
+  private timer = 0;
+  private readonly cloakTime = 2.5; // Seconds
+
+  public enter(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    this.timer = 0;
+    enemy.setOpacity(0.15);
+    enemy.setTargetable(false);
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    this.timer += deltaTime;
+    enemy.move(deltaTime);
+
+    if (this.timer >= this.cloakTime) {
+      owner.setState(RoleState.CLOAK_REVEAL);
+    }
+  }
+
+  public exit(owner: StateMachine): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.setTargetable(true);
+  }
+}
+
+/**
+ * Cloak reveal: the ship shimmers back into sight, already vulnerable
+ */
+class CloakRevealState implements State {
+  public readonly name = RoleState.CLOAK_REVEAL;
+  private timer = 0;
+  private readonly revealTime = 0.5; // Seconds
+
+  public enter(_owner: StateMachine): void {
+    this.timer = 0;
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const enemy = owner.getOwner() as EnemyShip;
+    this.timer += deltaTime;
+    enemy.move(deltaTime);
+    enemy.setOpacity(0.15 + 0.85 * Math.min(1, this.timer / this.revealTime));
+
+    if (this.timer >= this.revealTime) {
+      owner.setState(RoleState.CLOAK_VISIBLE);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Create the states of a role. The first state is where the enemy starts;
+ * fighters use the shared moving and shooting states and get none.
+ * @param role The role to create states for
+ */
+export function createRoleStates(role: EnemyRole): State[] {
+  switch (role) {
+    case EnemyRole.SNIPER:
+      return [new SniperPerchState(), new SniperAimState()];
+    case EnemyRole.KAMIKAZE:
+      return [new KamikazeApproachState(), new KamikazeLockState(), new KamikazeChargeState()];
+    case EnemyRole.TANK:
+      return [new TankAdvanceState(), new TankVolleyState()];
+    case EnemyRole.STRAFER:
+      return [new StraferEnterState(), new StraferSweepState(), new StraferExitState()];
+    case EnemyRole.SHIELDED:
+      return [new ShieldUpState(), new ShieldDownState()];
+    case EnemyRole.CLOAKER:
+      return [new CloakVisibleState(), new CloakFadeState(), new CloakedState(), new CloakRevealState()];
+    case EnemyRole.FIGHTER:
+    default:
+      return [];
+  }
+}
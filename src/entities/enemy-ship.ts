@@ -1,3 +1,4 @@
+import { Graphics } from 'pixi.js';
 import { Entity } from './entity';
 import { StateMachine } from '../states/state-machine';
 import type { State } from '../states/state-machine';
@@ -5,7 +6,16 @@ import { AssetLoader } from '../library/asset-loader';
 import { Projectile, ProjectileType } from './projectile';
 import { ExplosionManager, ExplosionType } from '../library/explosion-manager';
 import { SoundManager, SoundType } from '../library/sound-manager';
-import { PowerUp, PowerUpType } from './power-up';
+import { PowerUp } from './power-up';
+import { RandomService, RandomStream } from '../core/random';
+import type { LootTable } from '../core/loot-table';
+import type { FlightPath } from '../core/flight-path';
+import { CollisionLayer } from '../core/collision';
+import { circle } from '../core/collider';
+import type { EnemyFormation } from '../core/enemy-formation';
+import { EnemyRole, createRoleStates } from './enemy-roles';
+import { EnemyGun, FIRE_PATTERNS, FirePatternName } from './fire-pattern';
+import type { PatternShot } from './fire-pattern';
 
 /**
  * Enum for enemy types
@@ -14,6 +24,78 @@ export enum EnemyType {
   TYPE_1 = 'enemyRed1',
   TYPE_2 = 'enemyRed2',
   TYPE_3 = 'enemyRed3',
+  SNIPER = 'enemyBlue1',
+  KAMIKAZE = 'enemyGreen2',
+  TANK = 'enemyBlack4',
+  STRAFER = 'enemyGreen3',
+  SHIELDED = 'enemyBlue4',
+  CLOAKER = 'enemyBlack1',
+}
+
+/**
+ * Stats and role of an enemy type
+ */
+export interface EnemyDefinition {
+  role: EnemyRole;
+  health: number;
+  scale: number; // Sprite scale
+  pattern: FirePatternName; // What it fires
+  shootCooldown: number; // Minimum seconds between shots; each enemy adds up to 1.5 at random
+  maxShots: number; // Shots of its own allowed on screen at once
+  shield: number; // Damage the shield soaks up before the hull is hit
+  ramDamage: number; // Damage dealt by flying into the player
+  mass: number; // How hard it is to knock back, relative to the player's ship
+}
+
+/**
+ * Configuration of every enemy type
+ */
+export const ENEMIES: Record<EnemyType, EnemyDefinition> = {
+  [EnemyType.TYPE_1]: {
+    role: EnemyRole.FIGHTER, health: 100, scale: 0.6,
+    pattern: FirePatternName.STRAIGHT, shootCooldown: 0.5, maxShots: 3, shield: 0, ramDamage: 20, mass: 1,
+  },
+  [EnemyType.TYPE_2]: {
+    role: EnemyRole.FIGHTER, health: 100, scale: 0.6,
+    pattern: FirePatternName.AIMED, shootCooldown: 0.5, maxShots: 3, shield: 0, ramDamage: 20, mass: 1,
+  },
+  [EnemyType.TYPE_3]: {
+    role: EnemyRole.FIGHTER, health: 100, scale: 0.6,
+    pattern: FirePatternName.LOBBED, shootCooldown: 0.5, maxShots: 3, shield: 0, ramDamage: 20, mass: 1,
+  },
+  [EnemyType.SNIPER]: {
+    role: EnemyRole.SNIPER, health: 80, scale: 0.6,
+    pattern: FirePatternName.SNIPER_BOLT, shootCooldown: 2.5, maxShots: 2, shield: 0, ramDamage: 15, mass: 0.8,
+  },
+  [EnemyType.KAMIKAZE]: {
+    role: EnemyRole.KAMIKAZE, health: 60, scale: 0.55,
+    pattern: FirePatternName.STRAIGHT, shootCooldown: 0, maxShots: 0, shield: 0, ramDamage: 50, mass: 0.6,
+  },
+  [EnemyType.TANK]: {
+    role: EnemyRole.TANK, health: 400, scale: 0.75,
+    pattern: FirePatternName.TANK_SPREAD, shootCooldown: 2.5, maxShots: 10, shield: 0, ramDamage: 40, mass: 4,
+  },
+  [EnemyType.STRAFER]: {
+    role: EnemyRole.STRAFER, health: 90, scale: 0.6,
+    pattern: FirePatternName.STRAFE, shootCooldown: 0.4, maxShots: 4, shield: 0, ramDamage: 20, mass: 1,
+  },
+  [EnemyType.SHIELDED]: {
+    role: EnemyRole.SHIELDED, health: 100, scale: 0.6,
+    pattern: FirePatternName.THREE_WAY, shootCooldown: 0.8, maxShots: 6, shield: 150, ramDamage: 25, mass: 1.5,
+  },
+  [EnemyType.CLOAKER]: {
+    role: EnemyRole.CLOAKER, health: 100, scale: 0.6,
+    pattern: FirePatternName.AIMED, shootCooldown: 1, maxShots: 3, shield: 0, ramDamage: 20, mass: 1,
+  },
+};
+
+/**
+ * How an enemy flies once it has entered the screen
+ */
+export enum EnemyBehaviour {
+  WOBBLE = 'wobble', // Drift down, weaving side to side
+  STRAIGHT = 'straight', // Drift down in a straight line
+  HOVER = 'hover', // Stop near the top for a while, weaving, then carry on down
 }
 
 /**
@@ -23,7 +105,6 @@ enum EnemyState {
   IDLE = 'idle',
   MOVING = 'moving',
   SHOOTING = 'shooting',
-  DAMAGED = 'damaged',
   DESTROYED = 'destroyed',
 }
 
@@ -32,16 +113,20 @@ enum EnemyState {
  */
 class EnemyIdleState implements State {
   public readonly name = EnemyState.IDLE;
+  private idleTimer = 0;
+  private readonly idleTime = 0.5; // Seconds before starting to move
   
   public enter(_owner: StateMachine): void {
-    // Nothing to do
+    this.idleTimer = 0;
   }
   
-  public update(owner: StateMachine, _deltaTime: number): void {
+  public update(owner: StateMachine, deltaTime: number): void {
+    this.idleTimer += deltaTime;
+    
     // Transition to moving after a short delay
-    setTimeout(() => {
+    if (this.idleTimer >= this.idleTime) {
       owner.setState(EnemyState.MOVING);
-    }, 500);
+    }
   }
   
   public exit(_owner: StateMachine): void {
@@ -62,6 +147,11 @@ class EnemyMovingState implements State {
   public update(owner: StateMachine, deltaTime: number): void {
     const enemy = owner.getOwner() as EnemyShip;
     enemy.move(deltaTime);
+    
+    // Fire whenever the guns are ready
+    if (enemy.isReadyToShoot() && enemy.shoot()) {
+      owner.setState(EnemyState.SHOOTING);
+    }
   }
   
   public exit(_owner: StateMachine): void {
@@ -75,7 +165,7 @@ class EnemyMovingState implements State {
 class EnemyShootingState implements State {
   public readonly name = EnemyState.SHOOTING;
   private shootingTimer = 0;
-  private readonly shootingTime = 0.3; // Time for shooting animation
+  private readonly shootingTime = 0.3; // Seconds for shooting animation
   
   public enter(_owner: StateMachine): void {
     this.shootingTimer = 0;
@@ -84,6 +174,10 @@ class EnemyShootingState implements State {
   public update(owner: StateMachine, deltaTime: number): void {
     this.shootingTimer += deltaTime;
     
+    // Keep flying while the shot goes out
+    const enemy = owner.getOwner() as EnemyShip;
+    enemy.move(deltaTime);
+    
     // After shooting animation time, transition back to moving
     if (this.shootingTimer >= this.shootingTime) {
       owner.setState(EnemyState.MOVING);
@@ -95,49 +189,13 @@ class EnemyShootingState implements State {
   }
 }
 
-/**
- * Enemy damaged state
- */
-class EnemyDamagedState implements State {
-  public readonly name = EnemyState.DAMAGED;
-  private damagedTimer = 0;
-  private readonly damagedTime = 0.2; // Time for damaged animation
-  
-  public enter(owner: StateMachine): void {
-    this.damagedTimer = 0;
-    
-    // Flash or indicate damage
-    const enemy = owner.getOwner() as EnemyShip;
-    enemy.setDamagedVisual(true);
-  }
-  
-  public update(owner: StateMachine, deltaTime: number): void {
-    this.damagedTimer += deltaTime;
-    
-    // After damaged animation time, transition back to moving
-    if (this.damagedTimer >= this.damagedTime) {
-      const enemy = owner.getOwner() as EnemyShip;
-      if (enemy.isDestroyed()) {
-        owner.setState(EnemyState.DESTROYED);
-      } else {
-        owner.setState(EnemyState.MOVING);
-        enemy.setDamagedVisual(false);
-      }
-    }
-  }
-  
-  public exit(_owner: StateMachine): void {
-    // Nothing to do
-  }
-}
-
 /**
  * Enemy destroyed state
  */
 class EnemyDestroyedState implements State {
   public readonly name = EnemyState.DESTROYED;
   private destroyedTimer = 0;
-  private readonly destroyedTime = 0.5; // Time for destroyed animation
+  private readonly destroyedTime = 0.5; // Seconds for destroyed animation
   
   public enter(owner: StateMachine): void {
     this.destroyedTimer = 0;
@@ -156,7 +214,7 @@ class EnemyDestroyedState implements State {
     // Play explosion sound
     SoundManager.getInstance().play(SoundType.EXPLOSION_LARGE);
     
-    // Chance to drop a power-up (20% chance for shield)
+    // Chance to drop a power-up
     enemy.tryDropPowerUp();
     
     // Hide the enemy sprite
@@ -189,15 +247,71 @@ export class EnemyShip extends Entity {
    */
   private type: EnemyType;
   
+  /**
+   * Stats and role of the enemy's type
+   */
+  private definition: EnemyDefinition;
+  
   /**
    * Health points
    */
   private health: number = 100;
   
   /**
-   * Movement speed (used in move method)
+   * Damage the shield can still soak up
+   */
+  private shield: number = 0;
+  
+  /**
+   * Shield bubble, drawn while the shield holds
+   */
+  private shieldBubble: Graphics | null = null;
+  
+  /**
+   * State the enemy starts in: its role's first state, or moving for fighters
+   */
+  private entryState: string = EnemyState.MOVING;
+  
+  /**
+   * Seconds left of the red flash shown after a hit
+   */
+  private damageFlashTimer: number = 0;
+  
+  /**
+   * Seconds the flash after a hit lasts
+   */
+  private readonly damageFlashTime: number = 0.2;
+  
+  /**
+   * Can the player's shots and missiles hit the enemy? (false while cloaked)
+   */
+  private targetable: boolean = true;
+  
+  /**
+   * Is the enemy charging at the player to ram them?
    */
-  private speed: number = 2;
+  private ramming: boolean = false;
+  
+  /**
+   * Velocity picked up from a collision, in pixels per second; eases off quickly
+   */
+  private knockbackX: number = 0;
+  private knockbackY: number = 0;
+  
+  /**
+   * Fires the type's pattern
+   */
+  private gun: EnemyGun = new EnemyGun();
+  
+  /**
+   * Glow at the muzzle warning of a heavy volley
+   */
+  private telegraphFlash: Graphics | null = null;
+  
+  /**
+   * Movement speed in pixels per second (used in move method)
+   */
+  private speed: number = 120;
   
   /**
    * Horizontal movement direction (1 = right, -1 = left, used in wave movement)
@@ -205,17 +319,17 @@ export class EnemyShip extends Entity {
   private horizontalDirection: number = 0;
   
   /**
-   * Vertical movement speed
+   * Vertical movement speed in pixels per second
    */
-  private verticalSpeed: number = 1;
+  private verticalSpeed: number = 60;
   
   /**
-   * Shooting cooldown in milliseconds
+   * Shooting cooldown in seconds
    */
-  private shootCooldown: number = 2000;
+  private shootCooldown: number = 2;
   
   /**
-   * Time since last shot in milliseconds
+   * Time since last shot in seconds
    */
   private timeSinceLastShot: number = 0;
   
@@ -241,7 +355,7 @@ export class EnemyShip extends Entity {
   private movementAmplitude: number = 50;
   
   /**
-   * Movement frequency for horizontal movement
+   * Movement frequency for horizontal movement (radians per second / 6)
    */
   private movementFrequency: number = 0.8;
   
@@ -250,11 +364,81 @@ export class EnemyShip extends Entity {
    */
   private spawnX: number = 0;
   
+  /**
+   * How the enemy flies
+   */
+  private behaviour: EnemyBehaviour = EnemyBehaviour.WOBBLE;
+  
+  /**
+   * Horizontal drift in pixels per second, for enemies crossing the screen from the side
+   */
+  private horizontalDrift: number = 0;
+  
+  /**
+   * Y position hovering enemies stop at
+   */
+  private readonly hoverY: number = 160;
+  
+  /**
+   * Seconds hovering enemies stay before carrying on down
+   */
+  private hoverTimeLeft: number = 6;
+  
+  /**
+   * Path the enemy is flying, overriding its behaviour until the end is reached
+   */
+  private flightPath: FlightPath | null = null;
+  
+  /**
+   * Pixels travelled along the flight path
+   */
+  private pathDistance: number = 0;
+  
+  /**
+   * Speed along the flight path in pixels per second
+   */
+  private pathSpeed: number = 0;
+  
+  /**
+   * Horizontal shift of the flight path, so a formation can fly it side by side
+   */
+  private pathOffsetX: number = 0;
+  
+  /**
+   * Formation the enemy holds a place in
+   */
+  private formation: EnemyFormation | null = null;
+  
+  /**
+   * Has the enemy reached its place in the formation?
+   */
+  private docked: boolean = false;
+  
+  /**
+   * Speed while flying to a place in formation, in pixels per second
+   */
+  private readonly dockSpeed: number = 180;
+  
+  /**
+   * Speed while diving out of formation, in pixels per second
+   */
+  private readonly diveSpeed: number = 260;
+  
+  /**
+   * Entity the enemy aims at
+   */
+  private target: Entity | null = null;
+  
   /**
    * Callback for when a power-up is dropped
    */
   private onPowerUpDroppedCallback: ((powerUp: PowerUp) => void) | null = null;
   
+  /**
+   * Loot table rolled when the enemy is destroyed
+   */
+  private lootTable: LootTable | null = null;
+  
   /**
    * Constructor
    * @param x Initial x position
@@ -267,18 +451,22 @@ export class EnemyShip extends Entity {
     super(x, y);
     
     this.type = type;
+    this.definition = ENEMIES[type];
+    this.health = this.definition.health;
     this.screenWidth = screenWidth;
     this.screenHeight = screenHeight;
     this.spawnX = x; // Store initial x position
     
+    const random = RandomService.getInstance().getStream(RandomStream.ENEMY);
+    
     // Initialize movement properties with more moderate values
-    this.movementPhase = Math.random() * Math.PI * 2; // Random starting phase
-    this.movementAmplitude = 20 + Math.random() * 30; // Reduced range: 20-50 pixels (was 30-80)
-    this.movementFrequency = 0.3 + Math.random() * 0.5; // Reduced range: 0.3-0.8 (was 0.5-1.5)
+    this.movementPhase = random.next() * Math.PI * 2; // Random starting phase
+    this.movementAmplitude = 20 + random.next() * 30; // Reduced range: 20-50 pixels (was 30-80)
+    this.movementFrequency = 0.3 + random.next() * 0.5; // Reduced range: 0.3-0.8 (was 0.5-1.5)
     
-    // Set minimum shoot cooldown to 0.5 seconds (500ms) as per the spec
+    // Each type has its own minimum shoot cooldown (0.5 seconds for fighters, as per the spec)
     // Add some randomness so enemies don't all shoot at the same time
-    this.shootCooldown = 500 + Math.random() * 1500; // Between 0.5 and 2 seconds
+    this.shootCooldown = this.definition.shootCooldown + random.next() * 1.5;
     
     // Create the sprite
     const texture = AssetLoader.getInstance().getTexture(this.type);
@@ -290,7 +478,7 @@ export class EnemyShip extends Entity {
         this.sprite.anchor.set(0.5);
         
         // Scale down the sprite to a more appropriate size
-        this.sprite.scale.set(0.6);
+        this.sprite.scale.set(this.definition.scale);
         
         // Debug console log to see if enemy is created
         console.log(`Enemy ship created: ${this.type} at (${x}, ${y}) with texture dimensions: ${this.sprite.width}x${this.sprite.height}`);
@@ -305,8 +493,21 @@ export class EnemyShip extends Entity {
       console.log('Available textures:', AssetLoader.getInstance().listTextures());
     }
     
+    this.setColliderFromTexture(this.type, this.definition.scale, circle(40 * this.definition.scale));
+    this.setCollisionLayer(CollisionLayer.ENEMY, CollisionLayer.PLAYER | CollisionLayer.PLAYER_BULLET);
+    
     // Set a random horizontal direction
-    this.horizontalDirection = Math.random() > 0.5 ? 1 : -1;
+    this.horizontalDirection = random.next() > 0.5 ? 1 : -1;
+    
+    // Each role brings its own states; it starts in the first of them
+    const roleStates = createRoleStates(this.definition.role);
+    for (const state of roleStates) {
+      this.stateMachine.addState(state);
+    }
+    if (roleStates.length > 0) {
+      this.entryState = roleStates[0].name;
+      this.stateMachine.setState(this.entryState);
+    }
   }
   
   /**
@@ -317,7 +518,6 @@ export class EnemyShip extends Entity {
     this.stateMachine.addState(new EnemyIdleState());
     this.stateMachine.addState(new EnemyMovingState());
     this.stateMachine.addState(new EnemyShootingState());
-    this.stateMachine.addState(new EnemyDamagedState());
     this.stateMachine.addState(new EnemyDestroyedState());
     
     // Set the initial state
@@ -325,19 +525,37 @@ export class EnemyShip extends Entity {
   }
   
   /**
-   * Update method called each frame
-   * @param deltaTime Time since last update
+   * Update method called each simulation step
+   * @param deltaTime Time since last update in seconds
    */
   public update(deltaTime: number): void {
     super.update(deltaTime);
     
-    // Update shooting cooldown
-    this.timeSinceLastShot += deltaTime * 16.67; // Convert to milliseconds
+    // Update shooting cooldown; the states decide when to fire
+    this.timeSinceLastShot += deltaTime;
+    
+    // Flash after a hit without interrupting whatever the state is doing
+    if (this.damageFlashTimer > 0) {
+      this.damageFlashTimer -= deltaTime;
+      this.setDamagedVisual(this.damageFlashTimer > 0);
+    }
     
-    // Try to shoot if cooldown is over
-    if (this.active && this.timeSinceLastShot >= this.shootCooldown) {
-      this.shoot();
-      this.timeSinceLastShot = 0;
+    // Drift from any knockback
+    if (this.active && (this.knockbackX !== 0 || this.knockbackY !== 0)) {
+      this.x += this.knockbackX * deltaTime;
+      this.y += this.knockbackY * deltaTime;
+      
+      const decay = Math.exp(-6 * deltaTime);
+      this.knockbackX = Math.abs(this.knockbackX * decay) < 1 ? 0 : this.knockbackX * decay;
+      this.knockbackY = Math.abs(this.knockbackY * decay) < 1 ? 0 : this.knockbackY * decay;
+    }
+    
+    // Fire whatever the gun has ready
+    if (this.active) {
+      for (const shot of this.gun.update(deltaTime, this.x, this.getMuzzleY(), this.target, this.screenWidth)) {
+        this.spawnProjectile(shot);
+      }
+      this.drawTelegraph();
     }
     
     // Update projectiles
@@ -351,42 +569,79 @@ export class EnemyShip extends Entity {
       }
     }
     
-    // Check if enemy is out of screen
-    if (this.active && this.y > this.screenHeight + 50) {
+    // Check if enemy is out of screen; paths may swing off screen and back
+    if (this.active && !this.flightPath && (this.y > this.screenHeight + 50 || this.x < -100 || this.x > this.screenWidth + 100)) {
       this.setActive(false);
     }
   }
   
+  /**
+   * Render the enemy and its projectiles
+   * @param alpha Interpolation factor between simulation steps
+   */
+  public render(alpha: number): void {
+    super.render(alpha);
+    
+    for (const projectile of this.activeProjectiles) {
+      projectile.render(alpha);
+    }
+  }
+  
   /**
    * Move the enemy
-   * @param deltaTime Time since last update
+   * @param deltaTime Time since last update in seconds
    */
   public move(deltaTime: number): void {
-    // Move down
-    this.y += this.verticalSpeed * deltaTime;
+    // A path or a place in formation takes over from the behaviour
+    if (this.flightPath) {
+      this.followPath(deltaTime);
+      return;
+    }
+    
+    this.straighten(deltaTime);
+    
+    if (this.formation) {
+      this.holdFormation(deltaTime);
+      return;
+    }
+    
+    // Move down, unless holding position near the top
+    const hovering = this.behaviour === EnemyBehaviour.HOVER && this.y >= this.hoverY && this.hoverTimeLeft > 0;
+    if (hovering) {
+      this.hoverTimeLeft -= deltaTime;
+    } else {
+      this.y += this.verticalSpeed * deltaTime;
+    }
+    
+    // Drift across the screen
+    this.spawnX += this.horizontalDrift * deltaTime;
     
     // Horizontal movement with easing
     // Instead of changing direction randomly, use a sine wave pattern
     // This creates a smooth side-to-side motion
     
     // Update movement phase
-    this.movementPhase += this.movementFrequency * deltaTime * 0.1;
+    this.movementPhase += this.movementFrequency * deltaTime * 6;
     
     // Calculate new x position using sine wave
     const centerX = this.spawnX;
-    const offsetX = Math.sin(this.movementPhase) * this.movementAmplitude;
+    const amplitude = this.behaviour === EnemyBehaviour.STRAIGHT ? 0 : this.movementAmplitude;
+    const offsetX = Math.sin(this.movementPhase) * amplitude;
     const targetX = centerX + offsetX;
     
     // Calculate the horizontal movement delta
     const deltaX = targetX - this.x;
     
-    // Cap the horizontal movement speed to a maximum value
-    const maxHorizontalSpeed = 1.0 * deltaTime;
+    // Cap the horizontal movement speed to a maximum value (60 pixels per second on top of any drift)
+    const maxHorizontalSpeed = (60 + Math.abs(this.horizontalDrift)) * deltaTime;
     const cappedDeltaX = Math.sign(deltaX) * Math.min(Math.abs(deltaX), maxHorizontalSpeed);
     
     // Apply the capped movement
     this.x += cappedDeltaX;
     
+    // Enemies crossing the screen are free to leave it
+    if (this.horizontalDrift !== 0) return;
+    
     // Keep within screen bounds
     if (this.x < 30) {
       this.x = 30;
@@ -397,41 +652,117 @@ export class EnemyShip extends Entity {
       // Reverse direction by adjusting phase
       this.movementPhase = Math.PI - this.movementPhase;
     }
+  }
+  
+  /**
+   * Fly along the flight path, nose first; at the end the enemy carries on
+   * with its behaviour, or heads for its place in formation
+   * @param deltaTime Time since last update in seconds
+   */
+  private followPath(deltaTime: number): void {
+    if (!this.flightPath) return;
+    
+    this.pathDistance += this.pathSpeed * deltaTime;
+    
+    const point = this.flightPath.getPoint(this.pathDistance);
+    this.x = point.x + this.pathOffsetX;
+    this.y = point.y;
+    
+    if (this.sprite) {
+      this.sprite.rotation = this.flightPath.getHeading(this.pathDistance);
+    }
+    
+    if (this.pathDistance >= this.flightPath.getLength()) {
+      this.flightPath = null;
+      
+      // Weave around wherever the path left off
+      this.spawnX = this.x;
+      this.horizontalDrift = 0;
+    }
+  }
+  
+  /**
+   * Fly to the enemy's place in formation, then keep to it as the formation sways
+   * @param deltaTime Time since last update in seconds
+   */
+  private holdFormation(deltaTime: number): void {
+    if (!this.formation) return;
+    
+    const slot = this.formation.getSlotPosition(this);
+    const dx = slot.x - this.x;
+    const dy = slot.y - this.y;
+    const distance = Math.hypot(dx, dy);
+    const step = this.dockSpeed * deltaTime;
     
-    // Update container position
-    this.container.position.set(this.x, this.y);
+    if (this.docked || distance <= step) {
+      this.x = slot.x;
+      this.y = slot.y;
+      this.docked = true;
+    } else {
+      this.x += dx / distance * step;
+      this.y += dy / distance * step;
+    }
   }
   
   /**
-   * Shoot a projectile
+   * Turn the nose back to face down the screen after flying a path
+   * @param deltaTime Time since last update in seconds
    */
-  public shoot(): void {
+  private straighten(deltaTime: number): void {
+    if (this.sprite && this.sprite.rotation !== 0) {
+      this.sprite.rotation -= this.sprite.rotation * Math.min(1, deltaTime * 8);
+      if (Math.abs(this.sprite.rotation) < 0.01) {
+        this.sprite.rotation = 0;
+      }
+    }
+  }
+  
+  /**
+   * Start firing the type's pattern and restart the shoot cooldown
+   * @param aimPoint Fixed point to aim at; the target is tracked when omitted
+   * @returns True if the gun started firing
+   */
+  public shoot(aimPoint: { x: number; y: number } | null = null): boolean {
     // Skip shooting if not active
-    if (!this.active || !this.sprite) return;
-
-    // Check if we already have the maximum number of active shots (3 per spec)
-    if (this.activeProjectiles.length >= 3) {
-      console.log(`Enemy ${this.type} already has maximum (3) active shots. Skipping.`);
-      return;
+    if (!this.active || !this.sprite || this.gun.isBusy()) return false;
+    
+    this.timeSinceLastShot = 0;
+    
+    // Check if we already have the maximum number of active shots (3 per spec for fighters)
+    const maxShots = this.definition.maxShots;
+    if (this.activeProjectiles.length >= maxShots) {
+      console.log(`Enemy ${this.type} already has maximum (${maxShots}) active shots. Skipping.`);
+      return false;
     }
-
-    // Calculate projectile spawn position (bottom-center of the ship)
-    const projectileX = this.x;
-    const projectileY = this.y + (this.sprite.height / 2);
     
+    return this.gun.trigger(FIRE_PATTERNS[this.definition.pattern], aimPoint);
+  }
+  
+  /**
+   * Get the y position shots leave from (bottom-center of the ship)
+   */
+  private getMuzzleY(): number {
+    return this.y + (this.sprite ? this.sprite.height / 2 : 0);
+  }
+  
+  /**
+   * Launch one shot of a volley
+   * @param shot Where the shot starts and how it flies
+   */
+  private spawnProjectile(shot: PatternShot): void {
     // Create a new projectile
     const projectile = new Projectile(
       ProjectileType.ENEMY,
-      projectileX,
-      projectileY,
+      shot.x,
+      shot.y,
       25, // damage
-      5,  // velocityY (positive means down)
+      300, // velocityY in pixels per second (positive means down)
       this.screenWidth,
       this.screenHeight
     );
     
     // Fire the projectile
-    projectile.fire(projectileX, projectileY);
+    projectile.fire(shot.x, shot.y, shot.launch);
     
     // Add the projectile to our tracking array
     this.activeProjectiles.push(projectile);
@@ -451,10 +782,51 @@ export class EnemyShip extends Entity {
     }
     
     // Debug log
-    console.log(`Enemy ${this.type} firing projectile at (${projectileX}, ${projectileY}). Active shots: ${this.activeProjectiles.length}`);
+    console.log(`Enemy ${this.type} firing projectile at (${shot.x}, ${shot.y}). Active shots: ${this.activeProjectiles.length}`);
+  }
+  
+  /**
+   * Draw the muzzle glow while the gun warns of a heavy volley
+   */
+  private drawTelegraph(): void {
+    const telegraph = this.gun.getTelegraph();
+    if (telegraph <= 0 && !this.telegraphFlash) return;
+    
+    if (!this.telegraphFlash) {
+      this.telegraphFlash = new Graphics();
+      this.container.addChild(this.telegraphFlash);
+    }
+    
+    this.telegraphFlash.clear();
+    if (telegraph <= 0) return;
     
-    // Switch to shooting state
-    this.stateMachine.setState(EnemyState.SHOOTING);
+    // Grows and flickers faster as the volley nears
+    const flicker = Math.sin(telegraph * telegraph * 40) > 0 ? 1 : 0.5;
+    this.telegraphFlash
+      .circle(0, this.getMuzzleY() - this.y, 4 + telegraph * 10)
+      .fill({ color: 0xFF5533, alpha: (0.3 + 0.5 * telegraph) * flicker });
+  }
+  
+  /**
+   * Is the gun warning of, or in the middle of, a volley?
+   */
+  public isFiring(): boolean {
+    return this.gun.isBusy();
+  }
+  
+  /**
+   * Get how far through its warning the gun is
+   * @returns 0 when not warning, rising to 1 as the volley nears
+   */
+  public getTelegraph(): number {
+    return this.gun.getTelegraph();
+  }
+  
+  /**
+   * Are the guns ready to fire again?
+   */
+  public isReadyToShoot(): boolean {
+    return this.active && !this.gun.isBusy() && this.timeSinceLastShot >= this.shootCooldown;
   }
   
   /**
@@ -464,15 +836,27 @@ export class EnemyShip extends Entity {
   public takeDamage(amount: number): void {
     if (this.health <= 0) return;
     
-    this.health -= amount;
+    // The shield soaks up what it can
+    if (this.shield > 0) {
+      const absorbed = Math.min(this.shield, amount);
+      this.shield -= absorbed;
+      amount -= absorbed;
+      this.drawShield();
+      
+      if (amount <= 0) return;
+    }
     
-    // Switch to damaged state
-    this.stateMachine.setState(EnemyState.DAMAGED);
+    this.health -= amount;
     
     // Check if destroyed
     if (this.health <= 0) {
       this.stateMachine.setState(EnemyState.DESTROYED);
+      return;
     }
+    
+    // Flash red for a moment; the current state carries on
+    this.damageFlashTimer = this.damageFlashTime;
+    this.setDamagedVisual(true);
   }
   
   /**
@@ -490,11 +874,167 @@ export class EnemyShip extends Entity {
     
     // Reset health if reactivating
     if (active) {
-      this.health = 100;
-      this.stateMachine.setState(EnemyState.MOVING);
+      this.health = this.definition.health;
+      this.damageFlashTimer = 0;
+      this.setDamagedVisual(false);
+      this.stateMachine.setState(this.entryState);
     }
   }
   
+  /**
+   * Can the player's shots and missiles hit the enemy?
+   */
+  public isTargetable(): boolean {
+    return this.targetable;
+  }
+  
+  /**
+   * Set whether the player's shots and missiles can hit the enemy
+   * @param targetable False to let shots pass through
+   */
+  public setTargetable(targetable: boolean): void {
+    this.targetable = targetable;
+  }
+  
+  /**
+   * Is the enemy charging at the player to ram them?
+   */
+  public isRamming(): boolean {
+    return this.ramming;
+  }
+  
+  /**
+   * Set whether the enemy is charging at the player
+   * @param ramming True while charging
+   */
+  public setRamming(ramming: boolean): void {
+    this.ramming = ramming;
+  }
+  
+  /**
+   * Get the damage dealt by flying into the player
+   */
+  public getRamDamage(): number {
+    return this.definition.ramDamage;
+  }
+  
+  /**
+   * Get how hard the enemy is to knock back, relative to the player's ship
+   */
+  public getMass(): number {
+    return this.definition.mass;
+  }
+  
+  /**
+   * Shove the enemy, as when it collides with the player
+   * @param velocityX Horizontal push in pixels per second
+   * @param velocityY Vertical push in pixels per second
+   */
+  public applyKnockback(velocityX: number, velocityY: number): void {
+    this.knockbackX += velocityX;
+    this.knockbackY += velocityY;
+  }
+  
+  /**
+   * Get the damage the shield can still soak up
+   */
+  public getShield(): number {
+    return this.shield;
+  }
+  
+  /**
+   * Recharge the shield to full
+   */
+  public restoreShield(): void {
+    this.shield = this.definition.shield;
+    this.drawShield();
+  }
+  
+  /**
+   * Draw the shield bubble, fading as the shield weakens
+   */
+  private drawShield(): void {
+    if (!this.shieldBubble) {
+      this.shieldBubble = new Graphics();
+      this.container.addChild(this.shieldBubble);
+    }
+    
+    this.shieldBubble.clear();
+    if (this.shield <= 0 || this.definition.shield <= 0) return;
+    
+    const strength = this.shield / this.definition.shield;
+    this.shieldBubble
+      .circle(0, 0, 40)
+      .fill({ color: 0x44AAFF, alpha: 0.1 + 0.15 * strength })
+      .stroke({ width: 2, color: 0x88CCFF, alpha: 0.3 + 0.6 * strength });
+  }
+  
+  /**
+   * Move the enemy by an offset, for states that steer it themselves
+   * @param dx Pixels to the right
+   * @param dy Pixels down
+   */
+  public translate(dx: number, dy: number): void {
+    this.x += dx;
+    this.y += dy;
+  }
+  
+  /**
+   * Is the enemy flying on its own, neither following a path nor holding formation?
+   */
+  public isFree(): boolean {
+    return this.flightPath === null && this.formation === null;
+  }
+  
+  /**
+   * Turn the sprite
+   * @param rotation Radians, 0 facing down the screen
+   */
+  public setRotation(rotation: number): void {
+    if (this.sprite) {
+      this.sprite.rotation = rotation;
+    }
+  }
+  
+  /**
+   * Tint the sprite
+   * @param color Tint color, white for none
+   */
+  public setTint(color: number): void {
+    if (this.sprite) {
+      this.sprite.tint = color;
+    }
+  }
+  
+  /**
+   * Fade the whole ship in or out
+   * @param alpha 0 (invisible) to 1 (fully visible)
+   */
+  public setOpacity(alpha: number): void {
+    this.container.alpha = alpha;
+  }
+  
+  /**
+   * Get the entity the enemy aims at
+   */
+  public getTarget(): Entity | null {
+    return this.target;
+  }
+  
+  /**
+   * Get the screen width
+   */
+  public getScreenWidth(): number {
+    return this.screenWidth;
+  }
+  
+  /**
+   * Get the screen height
+   */
+  public getScreenHeight(): number {
+    return this.screenHeight;
+  }
+  
   /**
    * Get the enemy type
    */
@@ -510,14 +1050,85 @@ export class EnemyShip extends Entity {
   }
   
   /**
-   * Set the vertical speed
+   * Set the vertical speed in pixels per second
    */
   public setVerticalSpeed(speed: number): void {
     this.verticalSpeed = speed;
   }
   
   /**
-   * Set the shoot cooldown
+   * Set how the enemy flies
+   * @param behaviour Flight behaviour
+   */
+  public setBehaviour(behaviour: EnemyBehaviour): void {
+    this.behaviour = behaviour;
+  }
+  
+  /**
+   * Set the horizontal drift for enemies crossing the screen
+   * @param speed Pixels per second, positive to the right
+   */
+  public setHorizontalDrift(speed: number): void {
+    this.horizontalDrift = speed;
+  }
+  
+  /**
+   * Set a path for the enemy to fly
+   * @param path The path, in screen pixels
+   * @param speed Speed along the path in pixels per second
+   * @param offsetX Horizontal shift of the path in pixels
+   */
+  public setFlightPath(path: FlightPath, speed: number, offsetX: number = 0): void {
+    this.flightPath = path;
+    this.pathSpeed = speed;
+    this.pathOffsetX = offsetX;
+    this.pathDistance = 0;
+  }
+  
+  /**
+   * Take a place in a formation; called by the formation
+   * @param formation The formation joined
+   */
+  public joinFormation(formation: EnemyFormation): void {
+    this.formation = formation;
+    this.docked = false;
+  }
+  
+  /**
+   * Is the enemy holding a place in a formation?
+   * @param formation The formation to check
+   */
+  public isInFormation(formation: EnemyFormation): boolean {
+    return this.formation === formation;
+  }
+  
+  /**
+   * Has the enemy reached its place in formation?
+   */
+  public isDocked(): boolean {
+    return this.formation !== null && this.docked && this.flightPath === null;
+  }
+  
+  /**
+   * Break out of formation and dive along a path
+   * @param path The dive, in screen pixels
+   */
+  public dive(path: FlightPath): void {
+    this.formation = null;
+    this.docked = false;
+    this.setFlightPath(path, this.diveSpeed);
+  }
+  
+  /**
+   * Set the entity to aim shots at
+   * @param target The entity to aim at
+   */
+  public setTarget(target: Entity | null): void {
+    this.target = target;
+  }
+  
+  /**
+   * Set the shoot cooldown in seconds
    */
   public setShootCooldown(cooldown: number): void {
     this.shootCooldown = cooldown;
@@ -565,23 +1176,21 @@ export class EnemyShip extends Entity {
   }
   
   /**
-   * Try to drop a power-up
-   * Shield power-up has a 20% chance of dropping
+   * Drop whatever the loot table rolls for this enemy
    */
   public tryDropPowerUp(): void {
-    // 20% chance to drop a shield power-up
-    const dropChance = Math.random();
+    if (!this.lootTable) return;
     
-    if (dropChance <= 0.2) { // 20% chance
-      console.log('Enemy dropping shield power-up!');
+    for (const drop of this.lootTable.roll(this.type)) {
+      console.log(`Enemy dropping ${drop.type} power-up!`);
       
-      // Create a shield power-up at the enemy's position
       const powerUp = new PowerUp(
         this.x,
         this.y,
-        PowerUpType.SHIELD,
-        this.verticalSpeed * 2, // Twice the enemy's vertical speed (was matching speed)
-        this.screenHeight
+        drop.type,
+        this.verticalSpeed * 2, // Twice the enemy's vertical speed
+        this.screenHeight,
+        drop.weaponType
       );
       
       // Notify the game scene about the power-up
@@ -591,6 +1200,14 @@ export class EnemyShip extends Entity {
     }
   }
   
+  /**
+   * Set the loot table rolled when the enemy is destroyed
+   * @param lootTable Loot table of the current run
+   */
+  public setLootTable(lootTable: LootTable): void {
+    this.lootTable = lootTable;
+  }
+  
   /**
    * Set the callback for when a power-up is dropped
    * @param callback Callback function
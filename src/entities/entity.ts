@@ -1,5 +1,9 @@
 import { Container, Sprite, Texture } from 'pixi.js';
 import { StateMachine } from '../states/state-machine';
+import { CollisionLayer } from '../core/collision';
+import { circle, scaleCollider } from '../core/collider';
+import type { Collider } from '../core/collider';
+import { AssetLoader } from '../library/asset-loader';
 
 /**
  * Base entity class for all game objects
@@ -30,6 +34,13 @@ export abstract class Entity {
    */
   protected y: number;
   
+  /**
+   * Position at the start of the current simulation step,
+   * used to interpolate rendering between fixed steps
+   */
+  protected previousX: number;
+  protected previousY: number;
+  
   /**
    * Width
    */
@@ -45,6 +56,21 @@ export abstract class Entity {
    */
   protected active = true;
   
+  /**
+   * Shape the entity collides with
+   */
+  protected collider: Collider = circle(0);
+  
+  /**
+   * Layer the entity sits on; NONE keeps it out of collisions
+   */
+  protected collisionLayer: CollisionLayer = CollisionLayer.NONE;
+  
+  /**
+   * Layers the entity collides with
+   */
+  protected collisionMask: number = CollisionLayer.NONE;
+  
   /**
    * Constructor for Entity
    * @param x Initial x position
@@ -53,6 +79,8 @@ export abstract class Entity {
   constructor(x = 0, y = 0) {
     this.x = x;
     this.y = y;
+    this.previousX = x;
+    this.previousY = y;
     this.width = 0;
     this.height = 0;
     
@@ -88,9 +116,13 @@ export abstract class Entity {
   
   /**
    * Update the entity
-   * @param deltaTime The time since the last update
+   * @param deltaTime The time since the last update in seconds
    */
   public update(deltaTime: number): void {
+    // Remember where this step started for render interpolation
+    this.previousX = this.x;
+    this.previousY = this.y;
+    
     // Always update the state machine regardless of active status
     // This is important for states like "destroyed" which need to run while inactive
     this.stateMachine.update(deltaTime);
@@ -101,6 +133,17 @@ export abstract class Entity {
     // Specific entity updates when active would go here in derived classes
   }
   
+  /**
+   * Sync the container with the simulated position
+   * @param alpha Interpolation factor (0-1) between the previous and current simulation step
+   */
+  public render(alpha: number): void {
+    this.container.position.set(
+      this.previousX + (this.x - this.previousX) * alpha,
+      this.previousY + (this.y - this.previousY) * alpha
+    );
+  }
+  
   /**
    * Get the container for this entity
    */
@@ -123,13 +166,15 @@ export abstract class Entity {
   }
   
   /**
-   * Set the position
+   * Set the position, without interpolating from the old one
    * @param x X position
    * @param y Y position
    */
   public setPosition(x: number, y: number): void {
     this.x = x;
     this.y = y;
+    this.previousX = x;
+    this.previousY = y;
     this.container.position.set(x, y);
   }
   
@@ -163,6 +208,63 @@ export abstract class Entity {
     this.container.visible = active;
   }
   
+  /**
+   * Get the shape the entity collides with
+   */
+  public getCollider(): Collider {
+    return this.collider;
+  }
+  
+  /**
+   * Set the shape the entity collides with
+   * @param collider The collider
+   */
+  public setCollider(collider: Collider): void {
+    this.collider = collider;
+  }
+  
+  /**
+   * Collide with the shape of a texture, scaled like the sprite showing it
+   * @param textureName The texture
+   * @param scale Sprite scale
+   * @param fallback Collider used when the texture has no shape
+   */
+  protected setColliderFromTexture(textureName: string, scale: number, fallback: Collider): void {
+    const shape = AssetLoader.getInstance().getCollider(textureName);
+    this.collider = shape ? scaleCollider(shape, scale) : fallback;
+  }
+  
+  /**
+   * Get the rotation the collider turns with, in radians
+   */
+  public getRotation(): number {
+    return this.sprite ? this.sprite.rotation : 0;
+  }
+  
+  /**
+   * Get the layer the entity sits on
+   */
+  public getCollisionLayer(): CollisionLayer {
+    return this.collisionLayer;
+  }
+  
+  /**
+   * Get the layers the entity collides with
+   */
+  public getCollisionMask(): number {
+    return this.collisionMask;
+  }
+  
+  /**
+   * Put the entity on a collision layer
+   * @param layer Layer the entity sits on
+   * @param mask Layers the entity collides with
+   */
+  public setCollisionLayer(layer: CollisionLayer, mask: number): void {
+    this.collisionLayer = layer;
+    this.collisionMask = mask;
+  }
+  
   /**
    * Destroy the entity
    */
@@ -0,0 +1,299 @@
+import type { ProjectileLaunch } from './projectile';
+import type { Entity } from './entity';
+
+/**
+ * Shapes a volley can take
+ */
+export enum FirePatternType {
+  FAN = 'fan', // One or more shots fanned across the spread, straight down or at the target
+  RADIAL = 'radial', // A ring of shots in every direction
+  SPIRAL = 'spiral', // Evenly spaced arms that turn a little with every volley
+  WALL = 'wall', // A row of shots across the screen with a gap to slip through
+  LOB = 'lob', // Lobbed upwards to come down where the target was
+}
+
+/**
+ * Named patterns enemies and bosses can fire
+ */
+export enum FirePatternName {
+  STRAIGHT = 'straight',
+  AIMED = 'aimed',
+  LOBBED = 'lobbed',
+  SNIPER_BOLT = 'sniper-bolt',
+  THREE_WAY = 'three-way',
+  TANK_SPREAD = 'tank-spread',
+  STRAFE = 'strafe',
+  RADIAL_BURST = 'radial-burst',
+  SPIRAL_TRIPLE = 'spiral-triple',
+  SPIRAL_DOUBLE = 'spiral-double',
+  SPIRAL_QUAD = 'spiral-quad',
+  WALL = 'wall',
+}
+
+/**
+ * How a pattern fires
+ */
+export interface FirePattern {
+  type: FirePatternType;
+  count: number; // Shots per volley: fan shots, ring shots, spiral arms or wall slots
+  spread: number; // Total fan angle in degrees
+  aimed: boolean; // Fans center on the target instead of straight down
+  speed: number; // Pixels per second
+  damage: number;
+  texture: string;
+  volleys: number; // Volleys per trigger pull
+  volleyInterval: number; // Seconds between volleys
+  turn: number; // Radians a spiral turns after each volley
+  gap: number; // Wall slots left open around the target
+  telegraph: number; // Seconds of warning flash before the first volley; 0 for none
+  lifetime: number; // Seconds before the shots fizzle out
+}
+
+/**
+ * Stats shared by most patterns; each pattern overrides what makes it different
+ */
+const BASE_PATTERN: FirePattern = {
+  type: FirePatternType.FAN,
+  count: 1,
+  spread: 0,
+  aimed: false,
+  speed: 300,
+  damage: 25,
+  texture: 'laserRed05',
+  volleys: 1,
+  volleyInterval: 0,
+  turn: 0,
+  gap: 0,
+  telegraph: 0,
+  lifetime: Infinity,
+};
+
+/**
+ * The pattern library
+ */
+export const FIRE_PATTERNS: Record<FirePatternName, FirePattern> = {
+  [FirePatternName.STRAIGHT]: { ...BASE_PATTERN },
+  [FirePatternName.AIMED]: { ...BASE_PATTERN, aimed: true },
+  [FirePatternName.LOBBED]: { ...BASE_PATTERN, type: FirePatternType.LOB },
+  [FirePatternName.SNIPER_BOLT]: { ...BASE_PATTERN, aimed: true, speed: 560, damage: 35, texture: 'laserRed16' },
+  [FirePatternName.THREE_WAY]: { ...BASE_PATTERN, count: 3, spread: 30, aimed: true, speed: 260, damage: 20 },
+  [FirePatternName.TANK_SPREAD]: {
+    ...BASE_PATTERN, count: 5, spread: 60, speed: 190, damage: 20, texture: 'laserRed08',
+    volleys: 2, volleyInterval: 0.3, telegraph: 0.6,
+  },
+  [FirePatternName.STRAFE]: { ...BASE_PATTERN, speed: 320 },
+  [FirePatternName.RADIAL_BURST]: {
+    ...BASE_PATTERN, type: FirePatternType.RADIAL, count: 16, speed: 170, damage: 20, texture: 'laserRed10',
+    volleys: 2, volleyInterval: 0.35, telegraph: 0.8, lifetime: 6,
+  },
+  [FirePatternName.SPIRAL_TRIPLE]: { ...BASE_PATTERN, type: FirePatternType.SPIRAL, count: 3, speed: 200, damage: 20, texture: 'laserRed10', turn: 0.25, lifetime: 6 },
+  [FirePatternName.SPIRAL_DOUBLE]: { ...BASE_PATTERN, type: FirePatternType.SPIRAL, count: 2, speed: 180, damage: 20, texture: 'laserRed10', turn: 0.4, lifetime: 6 },
+  [FirePatternName.SPIRAL_QUAD]: { ...BASE_PATTERN, type: FirePatternType.SPIRAL, count: 4, speed: 220, damage: 20, texture: 'laserRed10', turn: -0.3, lifetime: 6 },
+  [FirePatternName.WALL]: {
+    ...BASE_PATTERN, type: FirePatternType.WALL, count: 14, speed: 140, texture: 'laserRed10',
+    gap: 3, telegraph: 1,
+  },
+};
+
+/**
+ * A shot of a volley: where it starts and how it flies
+ */
+export interface PatternShot {
+  x: number;
+  y: number;
+  launch: ProjectileLaunch;
+}
+
+/**
+ * Fires patterns for an enemy or boss: plays the warning before heavy
+ * volleys, spaces out the volleys and keeps spirals turning between them
+ */
+export class EnemyGun {
+  /**
+   * Pattern being fired, or null when idle
+   */
+  private pattern: FirePattern | null = null;
+
+  /**
+   * Seconds of warning left before the first volley
+   */
+  private telegraphTimer: number = 0;
+
+  /**
+   * Volleys still to fire
+   */
+  private volleysLeft: number = 0;
+
+  /**
+   * Seconds until the next volley
+   */
+  private volleyTimer: number = 0;
+
+  /**
+   * Point the volleys are fixed on, or null to track the target
+   */
+  private aimPoint: { x: number; y: number } | null = null;
+
+  /**
+   * Angle spirals and rings have turned to, in radians
+   */
+  private rotation: number = 0;
+
+  /**
+   * Start firing a pattern
+   * @param pattern The pattern to fire
+   * @param aimPoint Fixed point to aim at; the target is tracked when omitted
+   * @returns False if the gun is still busy with another pattern
+   */
+  public trigger(pattern: FirePattern, aimPoint: { x: number; y: number } | null = null): boolean {
+    if (this.pattern) return false;
+
+    this.pattern = pattern;
+    this.telegraphTimer = pattern.telegraph;
+    this.volleysLeft = pattern.volleys;
+    this.volleyTimer = 0;
+    this.aimPoint = aimPoint;
+    return true;
+  }
+
+  /**
+   * Advance the warning and volley timers
+   * @param deltaTime Time since last update in seconds
+   * @param x Muzzle x position
+   * @param y Muzzle y position
+   * @param target Entity aimed at, if any
+   * @param screenWidth Screen width, for walls
+   * @returns Shots to fire now
+   */
+  public update(deltaTime: number, x: number, y: number, target: Entity | null, screenWidth: number): PatternShot[] {
+    if (!this.pattern) return [];
+
+    if (this.telegraphTimer > 0) {
+      this.telegraphTimer -= deltaTime;
+      if (this.telegraphTimer > 0) return [];
+    }
+
+    this.volleyTimer -= deltaTime;
+    if (this.volleyTimer > 0) return [];
+
+    const pattern = this.pattern;
+    const aim = this.aimPoint ?? (target && target.isActive() ? { x: target.getX(), y: target.getY() } : null);
+    const shots = this.createVolley(pattern, x, y, aim, screenWidth);
+
+    // Spirals turn by their own amount; rings alternate so their shots interleave
+    this.rotation += pattern.type === FirePatternType.RADIAL ? Math.PI / pattern.count : pattern.turn;
+
+    this.volleysLeft--;
+    this.volleyTimer += pattern.volleyInterval;
+    if (this.volleysLeft <= 0) {
+      this.pattern = null;
+    }
+
+    return shots;
+  }
+
+  /**
+   * Create the shots of one volley
+   * @param pattern Pattern being fired
+   * @param x Muzzle x position
+   * @param y Muzzle y position
+   * @param aim Point aimed at, or null with no target
+   * @param screenWidth Screen width
+   */
+  private createVolley(
+    pattern: FirePattern,
+    x: number,
+    y: number,
+    aim: { x: number; y: number } | null,
+    screenWidth: number
+  ): PatternShot[] {
+    const shots: PatternShot[] = [];
+    const base = { damage: pattern.damage, texture: pattern.texture, lifetime: pattern.lifetime };
+
+    // Angles are in radians from straight down, positive towards the right
+    const shoot = (angle: number, fromX: number = x): void => {
+      shots.push({
+        x: fromX,
+        y,
+        launch: { ...base, velocityX: Math.sin(angle) * pattern.speed, velocityY: Math.cos(angle) * pattern.speed },
+      });
+    };
+
+    switch (pattern.type) {
+      case FirePatternType.FAN: {
+        const center = pattern.aimed && aim ? Math.atan2(aim.x - x, aim.y - y) : 0;
+        const spread = pattern.spread * Math.PI / 180;
+        for (let i = 0; i < pattern.count; i++) {
+          const position = pattern.count > 1 ? i / (pattern.count - 1) - 0.5 : 0;
+          shoot(center + position * spread);
+        }
+        break;
+      }
+      case FirePatternType.RADIAL:
+      case FirePatternType.SPIRAL:
+        for (let i = 0; i < pattern.count; i++) {
+          shoot(this.rotation + (i * Math.PI * 2) / pattern.count);
+        }
+        break;
+      case FirePatternType.WALL: {
+        // Leave the slots nearest the target open; the middle with no target
+        const slotWidth = screenWidth / pattern.count;
+        const gapCenter = aim ? aim.x : screenWidth / 2;
+        const firstGap = Math.round(gapCenter / slotWidth - pattern.gap / 2);
+        for (let i = 0; i < pattern.count; i++) {
+          if (i >= firstGap && i < firstGap + pattern.gap) continue;
+          shoot(0, (i + 0.5) * slotWidth);
+        }
+        break;
+      }
+      case FirePatternType.LOB: {
+        if (!aim) {
+          shoot(0);
+          break;
+        }
+        // Lob upwards a little and let gravity bring it down on the target
+        const flightTime = 1.6; // Seconds
+        const velocityY = -60;
+        shots.push({
+          x,
+          y,
+          launch: {
+            ...base,
+            velocityX: (aim.x - x) / flightTime,
+            velocityY,
+            accelerationY: 2 * (aim.y - y - velocityY * flightTime) / (flightTime * flightTime),
+            lifetime: flightTime * 2,
+          },
+        });
+        break;
+      }
+    }
+
+    return shots;
+  }
+
+  /**
+   * Is the gun warning of, or in the middle of, a pattern?
+   */
+  public isBusy(): boolean {
+    return this.pattern !== null;
+  }
+
+  /**
+   * Get how far through its warning the gun is
+   * @returns 0 when not warning, rising to 1 as the first volley nears
+   */
+  public getTelegraph(): number {
+    if (!this.pattern || this.pattern.telegraph <= 0 || this.telegraphTimer <= 0) return 0;
+    return 1 - this.telegraphTimer / this.pattern.telegraph;
+  }
+
+  /**
+   * Stop firing, dropping any volleys still to come
+   */
+  public reset(): void {
+    this.pattern = null;
+    this.volleysLeft = 0;
+    this.telegraphTimer = 0;
+  }
+}
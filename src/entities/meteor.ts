@@ -0,0 +1,436 @@
+import { Entity } from './entity';
+import { StateMachine } from '../states/state-machine';
+import type { State } from '../states/state-machine';
+import { PowerUp } from './power-up';
+import { AssetLoader } from '../library/asset-loader';
+import { ExplosionManager, ExplosionType } from '../library/explosion-manager';
+import { SoundManager, SoundType } from '../library/sound-manager';
+import { RandomService, RandomStream } from '../core/random';
+import type { LootTable } from '../core/loot-table';
+import { CollisionLayer } from '../core/collision';
+import { circle } from '../core/collider';
+
+/**
+ * Meteor sizes, from the largest down; each splits into the next size
+ */
+export enum MeteorSize {
+  BIG = 'big',
+  MEDIUM = 'med',
+  SMALL = 'small',
+  TINY = 'tiny',
+}
+
+/**
+ * Rock colours in the sprite sheet
+ */
+export enum MeteorColor {
+  BROWN = 'Brown',
+  GREY = 'Grey',
+}
+
+/**
+ * How tough a meteor of a size is and what it breaks into
+ */
+export interface MeteorDefinition {
+  health: number;
+  damage: number; // Dealt to the player on contact
+  radius: number; // Collision radius in pixels
+  mass: number; // How hard it is to knock back, relative to the player's ship
+  spin: number; // Fastest spin in radians per second, either way
+  textures: Record<MeteorColor, string[]>;
+  splitInto: MeteorSize | null; // Size of the pieces, or null if it crumbles
+  pieces: number;
+}
+
+/**
+ * Configuration of every meteor size
+ */
+export const METEORS: Record<MeteorSize, MeteorDefinition> = {
+  [MeteorSize.BIG]: {
+    health: 200, damage: 50, radius: 42, mass: 3, spin: 0.8,
+    textures: {
+      [MeteorColor.BROWN]: ['meteorBrown_big1', 'meteorBrown_big2', 'meteorBrown_big3', 'meteorBrown_big4'],
+      [MeteorColor.GREY]: ['meteorGrey_big1', 'meteorGrey_big2', 'meteorGrey_big3', 'meteorGrey_big4'],
+    },
+    splitInto: MeteorSize.MEDIUM, pieces: 2,
+  },
+  [MeteorSize.MEDIUM]: {
+    health: 80, damage: 30, radius: 20, mass: 1.5, spin: 1.5,
+    textures: {
+      [MeteorColor.BROWN]: ['meteorBrown_med1', 'meteorBrown_med3'],
+      [MeteorColor.GREY]: ['meteorGrey_med1', 'meteorGrey_med2'],
+    },
+    splitInto: MeteorSize.SMALL, pieces: 2,
+  },
+  [MeteorSize.SMALL]: {
+    health: 40, damage: 20, radius: 13, mass: 0.6, spin: 2.5,
+    textures: {
+      [MeteorColor.BROWN]: ['meteorBrown_small1', 'meteorBrown_small2'],
+      [MeteorColor.GREY]: ['meteorGrey_small1', 'meteorGrey_small2'],
+    },
+    splitInto: MeteorSize.TINY, pieces: 2,
+  },
+  [MeteorSize.TINY]: {
+    health: 15, damage: 10, radius: 8, mass: 0.3, spin: 3.5,
+    textures: {
+      [MeteorColor.BROWN]: ['meteorBrown_tiny1', 'meteorBrown_tiny2'],
+      [MeteorColor.GREY]: ['meteorGrey_tiny1', 'meteorGrey_tiny2'],
+    },
+    splitInto: null, pieces: 0,
+  },
+};
+
+/**
+ * Meteor states
+ */
+enum MeteorState {
+  DRIFTING = 'drifting',
+  DESTROYED = 'destroyed',
+}
+
+/**
+ * Drifting state: tumble across the screen until broken or gone past the edges
+ */
+class MeteorDriftingState implements State {
+  public readonly name = MeteorState.DRIFTING;
+
+  public enter(_owner: StateMachine): void {
+    // Nothing to do
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const meteor = owner.getOwner() as Meteor;
+    meteor.move(deltaTime);
+
+    if (meteor.isOffScreen()) {
+      meteor.setActive(false);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Destroyed state: burst apart into smaller meteors, maybe leaving a drop
+ */
+class MeteorDestroyedState implements State {
+  public readonly name = MeteorState.DESTROYED;
+
+  public enter(owner: StateMachine): void {
+    const meteor = owner.getOwner() as Meteor;
+    const definition = METEORS[meteor.getSize()];
+
+    ExplosionManager.getInstance().createExplosion(
+      ExplosionType.PIXEL,
+      meteor.getX(),
+      meteor.getY(),
+      meteor.getContainer().parent || meteor.getContainer(),
+      definition.radius / 20
+    );
+    SoundManager.getInstance().play(SoundType.EXPLOSION_SMALL);
+
+    // Rocks caught in a bomb blast crumble to dust
+    if (!meteor.isShattered()) {
+      meteor.split();
+      meteor.tryDropPowerUp();
+    }
+
+    meteor.setActive(false);
+  }
+
+  public update(_owner: StateMachine, _deltaTime: number): void {
+    // Nothing to do, the meteor is already inactive
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * A tumbling rock: a hazard that blocks shots from either side, hurts the
+ * player on contact and breaks into smaller rocks when destroyed
+ */
+export class Meteor extends Entity {
+  /**
+   * Size of the meteor
+   */
+  private size: MeteorSize;
+
+  /**
+   * Colour of the rock, passed on to its pieces
+   */
+  private color: MeteorColor;
+
+  /**
+   * Health left
+   */
+  private health: number;
+
+  /**
+   * Velocity in pixels per second
+   */
+  private velocityX: number;
+  private velocityY: number;
+
+  /**
+   * Spin in radians per second
+   */
+  private spin: number;
+
+  /**
+   * Was the meteor crumbled to dust rather than broken apart?
+   */
+  private shattered: boolean = false;
+
+  /**
+   * Screen dimensions
+   */
+  private screenWidth: number;
+  private screenHeight: number;
+
+  /**
+   * Rolls the meteor's drops
+   */
+  private lootTable: LootTable | null = null;
+
+  /**
+   * Called when the meteor drops a power-up
+   */
+  private onPowerUpDroppedCallback: ((powerUp: PowerUp) => void) | null = null;
+
+  /**
+   * Called with the pieces when the meteor breaks apart
+   */
+  private onSplitCallback: ((pieces: Meteor[]) => void) | null = null;
+
+  /**
+   * Constructor
+   * @param x Initial x position
+   * @param y Initial y position
+   * @param size Size of the meteor
+   * @param velocityX Horizontal speed in pixels per second
+   * @param velocityY Vertical speed in pixels per second
+   * @param screenWidth Screen width
+   * @param screenHeight Screen height
+   * @param color Colour of the rock; picked at random when omitted
+   */
+  constructor(
+    x: number,
+    y: number,
+    size: MeteorSize,
+    velocityX: number,
+    velocityY: number,
+    screenWidth: number,
+    screenHeight: number,
+    color?: MeteorColor
+  ) {
+    super(x, y);
+
+    const random = RandomService.getInstance().getStream(RandomStream.ENEMY);
+    const definition = METEORS[size];
+
+    this.size = size;
+    this.color = color ?? random.pick([MeteorColor.BROWN, MeteorColor.GREY]);
+    this.health = definition.health;
+    this.velocityX = velocityX;
+    this.velocityY = velocityY;
+    this.spin = random.range(-definition.spin, definition.spin);
+    this.screenWidth = screenWidth;
+    this.screenHeight = screenHeight;
+
+    this.setSprite(AssetLoader.getInstance().getTexture(random.pick(definition.textures[this.color])));
+    if (this.sprite) {
+      this.sprite.rotation = random.range(0, Math.PI * 2);
+    }
+
+    // Anyone's fire breaks meteors
+    this.setCollider(circle(definition.radius));
+    this.setCollisionLayer(
+      CollisionLayer.HAZARD,
+      CollisionLayer.PLAYER | CollisionLayer.PLAYER_BULLET | CollisionLayer.ENEMY_BULLET
+    );
+
+    this.stateMachine.setState(MeteorState.DRIFTING);
+  }
+
+  /**
+   * Initialize states
+   */
+  protected initializeStates(): void {
+    this.stateMachine.addState(new MeteorDriftingState());
+    this.stateMachine.addState(new MeteorDestroyedState());
+  }
+
+  /**
+   * Drift and tumble
+   * @param deltaTime Time since last update in seconds
+   */
+  public move(deltaTime: number): void {
+    this.x += this.velocityX * deltaTime;
+    this.y += this.velocityY * deltaTime;
+
+    if (this.sprite) {
+      this.sprite.rotation += this.spin * deltaTime;
+    }
+  }
+
+  /**
+   * Has the meteor drifted out past the bottom or the sides of the screen?
+   */
+  public isOffScreen(): boolean {
+    const margin = METEORS[this.size].radius + 60;
+    return this.y > this.screenHeight + margin || this.x < -margin || this.x > this.screenWidth + margin;
+  }
+
+  /**
+   * Take damage, breaking apart when health runs out
+   * @param amount Damage amount
+   */
+  public takeDamage(amount: number): void {
+    if (!this.active || this.isDestroyed()) return;
+
+    this.health -= amount;
+
+    if (this.health <= 0) {
+      this.stateMachine.setState(MeteorState.DESTROYED);
+    }
+  }
+
+  /**
+   * Crumble the meteor to dust, as a bomb does: it breaks without splitting or dropping anything
+   */
+  public shatter(): void {
+    if (!this.active || this.isDestroyed()) return;
+
+    this.shattered = true;
+    this.stateMachine.setState(MeteorState.DESTROYED);
+  }
+
+  /**
+   * Break into the next size down, the pieces flying apart
+   */
+  public split(): void {
+    const definition = METEORS[this.size];
+    if (!definition.splitInto || !this.onSplitCallback) return;
+
+    const random = RandomService.getInstance().getStream(RandomStream.ENEMY);
+    const pieces: Meteor[] = [];
+    const startAngle = random.range(0, Math.PI * 2);
+
+    for (let i = 0; i < definition.pieces; i++) {
+      const angle = startAngle + (i * Math.PI * 2) / definition.pieces;
+      const speed = random.range(40, 90);
+      const offset = definition.radius / 2;
+
+      pieces.push(new Meteor(
+        this.x + Math.cos(angle) * offset,
+        this.y + Math.sin(angle) * offset,
+        definition.splitInto,
+        this.velocityX + Math.cos(angle) * speed,
+        this.velocityY + Math.sin(angle) * speed,
+        this.screenWidth,
+        this.screenHeight,
+        this.color
+      ));
+    }
+
+    this.onSplitCallback(pieces);
+  }
+
+  /**
+   * Drop whatever the loot table rolls for a meteor of this size
+   */
+  public tryDropPowerUp(): void {
+    if (!this.lootTable) return;
+
+    for (const drop of this.lootTable.rollMeteor(this.size)) {
+      const powerUp = new PowerUp(this.x, this.y, drop.type, 100, this.screenHeight, drop.weaponType);
+
+      if (this.onPowerUpDroppedCallback) {
+        this.onPowerUpDroppedCallback(powerUp);
+      }
+    }
+  }
+
+  /**
+   * Is the meteor broken?
+   */
+  public isDestroyed(): boolean {
+    return this.stateMachine.getCurrentState()?.name === MeteorState.DESTROYED;
+  }
+
+  /**
+   * Was the meteor crumbled to dust?
+   */
+  public isShattered(): boolean {
+    return this.shattered;
+  }
+
+  /**
+   * Get the size of the meteor
+   */
+  public getSize(): MeteorSize {
+    return this.size;
+  }
+
+  /**
+   * Get the damage dealt to the player on contact
+   */
+  public getContactDamage(): number {
+    return METEORS[this.size].damage;
+  }
+
+  /**
+   * Get how hard the meteor is to knock back, relative to the player's ship
+   */
+  public getMass(): number {
+    return METEORS[this.size].mass;
+  }
+
+  /**
+   * Shove the meteor, as when the player flies into it; it keeps the push
+   * @param velocityX Horizontal push in pixels per second
+   * @param velocityY Vertical push in pixels per second
+   */
+  public applyKnockback(velocityX: number, velocityY: number): void {
+    this.velocityX += velocityX;
+    this.velocityY += velocityY;
+  }
+
+  /**
+   * Set screen dimensions
+   * @param width Screen width
+   * @param height Screen height
+   */
+  public setScreenDimensions(width: number, height: number): void {
+    this.screenWidth = width;
+    this.screenHeight = height;
+  }
+
+  /**
+   * Set the loot table rolled when the meteor breaks
+   * @param lootTable Loot table of the current run
+   */
+  public setLootTable(lootTable: LootTable): void {
+    this.lootTable = lootTable;
+  }
+
+  /**
+   * Set the callback for when a power-up is dropped
+   * @param callback Callback function
+   */
+  public setOnPowerUpDroppedCallback(callback: (powerUp: PowerUp) => void): void {
+    this.onPowerUpDroppedCallback = callback;
+  }
+
+  /**
+   * Set the callback for when the meteor breaks apart
+   * @param callback Function receiving the pieces
+   */
+  public setOnSplitCallback(callback: (pieces: Meteor[]) => void): void {
+    this.onSplitCallback = callback;
+  }
+}
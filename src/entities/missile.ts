@@ -0,0 +1,426 @@
+import { Container, Graphics } from 'pixi.js';
+import { Entity } from './entity';
+import { StateMachine } from '../states/state-machine';
+import type { State } from '../states/state-machine';
+import { ExplosionManager, ExplosionType } from '../library/explosion-manager';
+import { SoundManager, SoundType } from '../library/sound-manager';
+import { CollisionLayer } from '../core/collision';
+import { box } from '../core/collider';
+
+/**
+ * Missile states
+ */
+enum MissileState {
+  FLYING = 'flying',
+  DETONATED = 'detonated',
+  INACTIVE = 'inactive',
+}
+
+/**
+ * A puff of smoke left behind a missile
+ */
+interface SmokePuff {
+  x: number;
+  y: number;
+  age: number; // Seconds
+}
+
+/**
+ * Flying state: home in on the nearest enemy
+ */
+class MissileFlyingState implements State {
+  public readonly name = MissileState.FLYING;
+
+  public enter(owner: StateMachine): void {
+    const missile = owner.getOwner() as Missile;
+    missile.setActive(true);
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const missile = owner.getOwner() as Missile;
+
+    missile.steer(deltaTime);
+    missile.move(deltaTime);
+    missile.updateTrail(deltaTime, true);
+
+    // Blow up when the fuel runs out; a missile that leaves the screen is
+    // simply gone, so its blast cannot reach enemies still waiting off screen
+    if (missile.isOutOfBounds()) {
+      owner.setState(MissileState.INACTIVE);
+    } else if (missile.isExpired()) {
+      missile.detonate();
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Detonated state: the explosion plays while the smoke trail fades
+ */
+class MissileDetonatedState implements State {
+  public readonly name = MissileState.DETONATED;
+
+  public enter(owner: StateMachine): void {
+    const missile = owner.getOwner() as Missile;
+
+    ExplosionManager.getInstance().createExplosion(
+      ExplosionType.SONIC,
+      missile.getX(),
+      missile.getY(),
+      missile.getContainer().parent || missile.getContainer(),
+      1.2
+    );
+    SoundManager.getInstance().play(SoundType.EXPLOSION_LARGE);
+
+    // Hide the missile body; its trail keeps fading
+    missile.setActive(false);
+  }
+
+  public update(owner: StateMachine, deltaTime: number): void {
+    const missile = owner.getOwner() as Missile;
+
+    missile.updateTrail(deltaTime, false);
+
+    if (!missile.hasTrail()) {
+      owner.setState(MissileState.INACTIVE);
+    }
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Inactive state: waiting to be removed
+ */
+class MissileInactiveState implements State {
+  public readonly name = MissileState.INACTIVE;
+
+  public enter(owner: StateMachine): void {
+    const missile = owner.getOwner() as Missile;
+    missile.setActive(false);
+  }
+
+  public update(_owner: StateMachine, _deltaTime: number): void {
+    // Nothing to do while inactive
+  }
+
+  public exit(_owner: StateMachine): void {
+    // Nothing to do
+  }
+}
+
+/**
+ * Homing missile fired by the player's secondary weapon.
+ * Locks on to the nearest active target, turns towards it at a capped rate
+ * and explodes with area damage on contact.
+ */
+export class Missile extends Entity {
+  /**
+   * Flight speed in pixels per second
+   */
+  private readonly speed: number = 320;
+
+  /**
+   * Maximum turn rate in radians per second
+   */
+  private readonly turnRate: number = 3.5;
+
+  /**
+   * Seconds of fuel before the missile detonates on its own
+   */
+  private readonly lifetime: number = 3.5;
+
+  /**
+   * Radius of the blast in pixels
+   */
+  public readonly blastRadius: number = 80;
+
+  /**
+   * Damage dealt to everything inside the blast
+   */
+  public readonly blastDamage: number = 120;
+
+  /**
+   * Heading in radians from straight up, positive is clockwise
+   */
+  private heading: number = 0;
+
+  /**
+   * Seconds in flight
+   */
+  private age: number = 0;
+
+  /**
+   * Current target
+   */
+  private target: Entity | null = null;
+
+  /**
+   * Supplies the entities the missile may lock on to
+   */
+  private targetProvider: () => readonly Entity[];
+
+  /**
+   * Called when the missile explodes
+   */
+  private detonationCallback: ((missile: Missile) => void) | null = null;
+
+  /**
+   * Screen bounds
+   */
+  private screenWidth: number;
+  private screenHeight: number;
+
+  /**
+   * Missile body, pointing up
+   */
+  private body: Graphics = new Graphics();
+
+  /**
+   * Smoke trail, drawn in the parent's coordinates
+   */
+  private trail: Graphics = new Graphics();
+
+  /**
+   * Puffs of smoke currently visible
+   */
+  private puffs: SmokePuff[] = [];
+
+  /**
+   * Seconds until the next puff of smoke
+   */
+  private puffTimer: number = 0;
+
+  /**
+   * Seconds between puffs of smoke
+   */
+  private readonly puffInterval: number = 0.03;
+
+  /**
+   * Seconds a puff of smoke lasts
+   */
+  private readonly puffLifetime: number = 0.5;
+
+  /**
+   * Constructor
+   * @param x Launch x position
+   * @param y Launch y position
+   * @param targetProvider Supplies the entities the missile may lock on to
+   * @param screenWidth Screen width
+   * @param screenHeight Screen height
+   */
+  constructor(
+    x: number,
+    y: number,
+    targetProvider: () => readonly Entity[],
+    screenWidth: number,
+    screenHeight: number
+  ) {
+    super(x, y);
+
+    this.targetProvider = targetProvider;
+    this.screenWidth = screenWidth;
+    this.screenHeight = screenHeight;
+
+    // A small red-tipped rocket
+    this.body.roundRect(-3, -9, 6, 18, 3).fill(0xDDDDDD);
+    this.body.poly([-3, -6, 0, -13, 3, -6]).fill(0xFF4444);
+    this.body.poly([-3, 5, -6, 10, -3, 9]).fill(0xFF4444);
+    this.body.poly([3, 5, 6, 10, 3, 9]).fill(0xFF4444);
+    this.container.addChild(this.body);
+    this.width = 12;
+    this.height = 26;
+
+    this.setCollider(box(this.width, this.height));
+    this.setCollisionLayer(CollisionLayer.PLAYER_BULLET, CollisionLayer.ENEMY | CollisionLayer.HAZARD);
+
+    this.stateMachine.setState(MissileState.FLYING);
+  }
+
+  /**
+   * Initialize states
+   */
+  protected initializeStates(): void {
+    this.stateMachine.addState(new MissileFlyingState());
+    this.stateMachine.addState(new MissileDetonatedState());
+    this.stateMachine.addState(new MissileInactiveState());
+  }
+
+  /**
+   * Add the missile and its smoke trail to a layer
+   * @param layer Container to fly in
+   */
+  public launch(layer: Container): void {
+    layer.addChild(this.trail);
+    layer.addChild(this.container);
+  }
+
+  /**
+   * Lock on to the nearest target if needed and turn towards it
+   * @param deltaTime Time since last update in seconds
+   */
+  public steer(deltaTime: number): void {
+    // Pick a new target once the current one is gone
+    if (!this.target || !this.target.isActive() || !this.targetProvider().includes(this.target)) {
+      this.target = this.findNearestTarget();
+    }
+
+    if (!this.target) return;
+
+    const desired = Math.atan2(this.target.getX() - this.x, this.y - this.target.getY());
+
+    // Turn the short way round, no faster than the turn rate
+    let turn = desired - this.heading;
+    turn = Math.atan2(Math.sin(turn), Math.cos(turn));
+
+    const maxTurn = this.turnRate * deltaTime;
+    this.heading += Math.max(-maxTurn, Math.min(maxTurn, turn));
+  }
+
+  /**
+   * Find the closest active target
+   */
+  private findNearestTarget(): Entity | null {
+    let nearest: Entity | null = null;
+    let nearestDistance = Infinity;
+
+    for (const candidate of this.targetProvider()) {
+      if (!candidate.isActive()) continue;
+
+      const dx = candidate.getX() - this.x;
+      const dy = candidate.getY() - this.y;
+      const distance = dx * dx + dy * dy;
+
+      if (distance < nearestDistance) {
+        nearest = candidate;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Fly along the current heading
+   * @param deltaTime Time since last update in seconds
+   */
+  public move(deltaTime: number): void {
+    this.x += Math.sin(this.heading) * this.speed * deltaTime;
+    this.y -= Math.cos(this.heading) * this.speed * deltaTime;
+    this.age += deltaTime;
+
+    this.body.rotation = this.heading;
+  }
+
+  /**
+   * Age the smoke trail
+   * @param deltaTime Time since last update in seconds
+   * @param emit Whether to leave new puffs behind
+   */
+  public updateTrail(deltaTime: number, emit: boolean): void {
+    for (const puff of this.puffs) {
+      puff.age += deltaTime;
+    }
+    this.puffs = this.puffs.filter((puff) => puff.age < this.puffLifetime);
+
+    if (emit) {
+      this.puffTimer -= deltaTime;
+      if (this.puffTimer <= 0) {
+        this.puffTimer += this.puffInterval;
+
+        // Puffs leave from the tail of the missile
+        this.puffs.push({
+          x: this.x - Math.sin(this.heading) * 10,
+          y: this.y + Math.cos(this.heading) * 10,
+          age: 0,
+        });
+      }
+    }
+
+    this.trail.clear();
+    for (const puff of this.puffs) {
+      const life = puff.age / this.puffLifetime;
+      this.trail.circle(puff.x, puff.y, 2 + life * 5).fill({ color: 0xBBBBBB, alpha: 0.5 * (1 - life) });
+    }
+  }
+
+  /**
+   * Is any smoke still visible?
+   */
+  public hasTrail(): boolean {
+    return this.puffs.length > 0;
+  }
+
+  /**
+   * Has the missile run out of fuel?
+   */
+  public isExpired(): boolean {
+    return this.age >= this.lifetime;
+  }
+
+  /**
+   * Check if the missile is out of screen bounds
+   */
+  public isOutOfBounds(): boolean {
+    return this.y < -50 || this.y > this.screenHeight + 50 ||
+      this.x < -50 || this.x > this.screenWidth + 50;
+  }
+
+  /**
+   * Explode, damaging everything within the blast radius
+   */
+  public detonate(): void {
+    if (!this.isFlying()) return;
+
+    this.stateMachine.setState(MissileState.DETONATED);
+
+    if (this.detonationCallback) {
+      this.detonationCallback(this);
+    }
+  }
+
+  /**
+   * Get the rotation the collider turns with: the missile's heading
+   */
+  public getRotation(): number {
+    return this.body.rotation;
+  }
+
+  /**
+   * Is the missile still in flight?
+   */
+  public isFlying(): boolean {
+    return this.stateMachine.getCurrentState()?.name === MissileState.FLYING;
+  }
+
+  /**
+   * Has the missile finished (exploded and its smoke cleared)?
+   */
+  public isFinished(): boolean {
+    return this.stateMachine.getCurrentState()?.name === MissileState.INACTIVE;
+  }
+
+  /**
+   * Set the callback for when the missile explodes
+   * @param callback Function receiving the missile
+   */
+  public setDetonationCallback(callback: (missile: Missile) => void): void {
+    this.detonationCallback = callback;
+  }
+
+  /**
+   * Remove the missile and its trail from the scene
+   */
+  public destroy(): void {
+    if (this.trail.parent) {
+      this.trail.parent.removeChild(this.trail);
+    }
+    this.trail.destroy();
+    super.destroy();
+  }
+}
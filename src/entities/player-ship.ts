@@ -1,12 +1,19 @@
 import { Entity } from './entity';
 import { StateMachine } from '../states/state-machine';
 import type { State } from '../states/state-machine';
-import { InputManager } from '../core/input-manager';
+import { InputFlag } from '../core/input-manager';
 import { Projectile, ProjectilePool, ProjectileType } from './projectile';
+import { Weapon, WeaponType } from './weapon';
+import { Missile } from './missile';
+import { PowerUpType } from './power-up';
+import type { WeaponShot } from './weapon';
 import { AssetLoader } from '../library/asset-loader';
 import { ExplosionManager, ExplosionType } from '../library/explosion-manager';
 import { SoundManager, SoundType } from '../library/sound-manager';
-import { Container, Sprite, Texture } from 'pixi.js';
+import { CollisionLayer } from '../core/collision';
+import { circle } from '../core/collider';
+import type { Collider } from '../core/collider';
+import { Container, Graphics, Sprite, Texture } from 'pixi.js';
 
 /**
  * Player states
@@ -31,21 +38,20 @@ class PlayerIdleState implements State {
 
   public update(owner: StateMachine, _deltaTime: number): void {
     const player = owner.getOwner() as PlayerShip;
-    const inputManager = InputManager.getInstance();
 
     // Transition to moving state if movement keys are pressed
     if (
-      inputManager.isArrowUpPressed() ||
-      inputManager.isArrowDownPressed() ||
-      inputManager.isArrowLeftPressed() ||
-      inputManager.isArrowRightPressed()
+      player.hasInput(InputFlag.UP) ||
+      player.hasInput(InputFlag.DOWN) ||
+      player.hasInput(InputFlag.LEFT) ||
+      player.hasInput(InputFlag.RIGHT)
     ) {
       owner.setState(PlayerState.MOVING);
       return;
     }
 
     // Transition to shooting state if space is pressed
-    if (inputManager.isSpacePressed()) {
+    if (player.hasInput(InputFlag.FIRE)) {
       owner.setState(PlayerState.SHOOTING);
       return;
     }
@@ -66,23 +72,22 @@ class PlayerMovingState implements State {
 
   public update(owner: StateMachine, deltaTime: number): void {
     const player = owner.getOwner() as PlayerShip;
-    const inputManager = InputManager.getInstance();
 
     // Calculate movement direction
     let dx = 0;
     let dy = 0;
 
-    if (inputManager.isArrowUpPressed()) {
-      dy -= player.speed * deltaTime;
+    if (player.hasInput(InputFlag.UP)) {
+      dy -= player.getSpeed() * deltaTime;
     }
-    if (inputManager.isArrowDownPressed()) {
-      dy += player.speed * deltaTime;
+    if (player.hasInput(InputFlag.DOWN)) {
+      dy += player.getSpeed() * deltaTime;
     }
-    if (inputManager.isArrowLeftPressed()) {
-      dx -= player.speed * deltaTime;
+    if (player.hasInput(InputFlag.LEFT)) {
+      dx -= player.getSpeed() * deltaTime;
     }
-    if (inputManager.isArrowRightPressed()) {
-      dx += player.speed * deltaTime;
+    if (player.hasInput(InputFlag.RIGHT)) {
+      dx += player.getSpeed() * deltaTime;
     }
 
     // Move the player
@@ -95,7 +100,7 @@ class PlayerMovingState implements State {
     }
 
     // Transition to shooting state if space is pressed
-    if (inputManager.isSpacePressed()) {
+    if (player.hasInput(InputFlag.FIRE)) {
       owner.setState(PlayerState.SHOOTING);
       return;
     }
@@ -110,36 +115,30 @@ class PlayerMovingState implements State {
  */
 class PlayerShootingState implements State {
   public readonly name = PlayerState.SHOOTING;
-  private shootTimer = 0;
 
   public enter(owner: StateMachine): void {
     const player = owner.getOwner() as PlayerShip;
     player.shoot();
-    this.shootTimer = 0;
   }
 
   public update(owner: StateMachine, deltaTime: number): void {
     const player = owner.getOwner() as PlayerShip;
-    const inputManager = InputManager.getInstance();
-
-    // Update shoot timer
-    this.shootTimer += deltaTime;
 
     // Calculate movement direction
     let dx = 0;
     let dy = 0;
 
-    if (inputManager.isArrowUpPressed()) {
-      dy -= player.speed * deltaTime;
+    if (player.hasInput(InputFlag.UP)) {
+      dy -= player.getSpeed() * deltaTime;
     }
-    if (inputManager.isArrowDownPressed()) {
-      dy += player.speed * deltaTime;
+    if (player.hasInput(InputFlag.DOWN)) {
+      dy += player.getSpeed() * deltaTime;
     }
-    if (inputManager.isArrowLeftPressed()) {
-      dx -= player.speed * deltaTime;
+    if (player.hasInput(InputFlag.LEFT)) {
+      dx -= player.getSpeed() * deltaTime;
     }
-    if (inputManager.isArrowRightPressed()) {
-      dx += player.speed * deltaTime;
+    if (player.hasInput(InputFlag.RIGHT)) {
+      dx += player.getSpeed() * deltaTime;
     }
 
     // Move the player
@@ -147,11 +146,10 @@ class PlayerShootingState implements State {
       player.move(dx, dy);
     }
 
-    // If space is still pressed and enough time has passed, shoot again
-    if (inputManager.isSpacePressed() && this.shootTimer >= player.shootCooldown) {
+    // Keep the trigger pulled while space is held; the weapon paces the shots
+    if (player.hasInput(InputFlag.FIRE)) {
       player.shoot();
-      this.shootTimer = 0;
-    } else if (!inputManager.isSpacePressed()) {
+    } else {
       // Transition to moving state if movement keys are pressed, otherwise idle
       if (dx !== 0 || dy !== 0) {
         owner.setState(PlayerState.MOVING);
@@ -172,7 +170,7 @@ class PlayerShootingState implements State {
 class PlayerDamagedState implements State {
   public readonly name = PlayerState.DAMAGED;
   private damageTimer = 0;
-  private readonly damageTime = 30; // 0.5 seconds at 60fps (500ms)
+  private readonly damageTime = 0.5; // Seconds
 
   public enter(owner: StateMachine): void {
     const player = owner.getOwner() as PlayerShip;
@@ -203,19 +201,18 @@ class PlayerDamagedState implements State {
 class PlayerDestroyedState implements State {
   public readonly name = PlayerState.DESTROYED;
   private destroyTimer = 0;
-  private destroyTime: number = 120; // 2 seconds at 60fps (2000ms)
+  private destroyTime: number = 2; // Seconds
   
-  // For reference: 60 frames ≈ 1 second at 60fps
-  // These values are in frames, not actual seconds (assuming deltaTime ≈ 1 at 60fps)
-  private readonly minDestroyTime = 120; // 2 seconds (2000ms)
-  private readonly maxDestroyTime = 120; // 2 seconds (2000ms)
+  // Respawn delay bounds in seconds
+  private readonly minDestroyTime = 2;
+  private readonly maxDestroyTime = 2;
   private logFrequency = 0.5;
   private lastLogTime = 0;
 
   public enter(owner: StateMachine): void {
     const player = owner.getOwner() as PlayerShip;
     
-    // We're now using a fixed respawn time of 2 seconds (120 frames at 60fps)
+    // We're now using a fixed respawn time of 2 seconds
     this.destroyTime = this.minDestroyTime;
     
     // Reset timers
@@ -241,10 +238,9 @@ class PlayerDestroyedState implements State {
   }
 
   public update(owner: StateMachine, deltaTime: number): void {
-    // deltaTime is typically "1" per frame at 60fps in Pixi.js ticker
     this.destroyTimer += deltaTime;
 
-    // Trigger respawn after delay (120 frames ≈ 2 seconds at 60fps)
+    // Trigger respawn after delay
     if (this.destroyTimer >= this.destroyTime) {
       const player = owner.getOwner() as PlayerShip;
       player.onRespawn();
@@ -264,9 +260,9 @@ class PlayerDestroyedState implements State {
 class PlayerInvulnerableState implements State {
   public readonly name = PlayerState.INVULNERABLE;
   private invulnerableTimer = 0;
-  private readonly invulnerableDuration = 180; // 3 seconds at 60fps (3000ms)
+  private readonly invulnerableDuration = 3; // Seconds
   private flashTimer = 0;
-  private readonly flashInterval = 6; // Flash every 6 frames (~100ms at 60fps)
+  private readonly flashInterval = 0.1; // Flash every 100ms
   private isVisible = true;
 
   public enter(owner: StateMachine): void {
@@ -282,7 +278,6 @@ class PlayerInvulnerableState implements State {
 
   public update(owner: StateMachine, deltaTime: number): void {
     const player = owner.getOwner() as PlayerShip;
-    const inputManager = InputManager.getInstance();
     
     // Update invulnerability timer
     this.invulnerableTimer += deltaTime;
@@ -299,17 +294,17 @@ class PlayerInvulnerableState implements State {
     let dx = 0;
     let dy = 0;
 
-    if (inputManager.isArrowUpPressed()) {
-      dy -= player.speed * deltaTime;
+    if (player.hasInput(InputFlag.UP)) {
+      dy -= player.getSpeed() * deltaTime;
     }
-    if (inputManager.isArrowDownPressed()) {
-      dy += player.speed * deltaTime;
+    if (player.hasInput(InputFlag.DOWN)) {
+      dy += player.getSpeed() * deltaTime;
     }
-    if (inputManager.isArrowLeftPressed()) {
-      dx -= player.speed * deltaTime;
+    if (player.hasInput(InputFlag.LEFT)) {
+      dx -= player.getSpeed() * deltaTime;
     }
-    if (inputManager.isArrowRightPressed()) {
-      dx += player.speed * deltaTime;
+    if (player.hasInput(InputFlag.RIGHT)) {
+      dx += player.getSpeed() * deltaTime;
     }
 
     // Move the player
@@ -318,14 +313,14 @@ class PlayerInvulnerableState implements State {
     }
 
     // Handle shooting
-    if (inputManager.isSpacePressed()) {
+    if (player.hasInput(InputFlag.FIRE)) {
       player.shoot();
     }
 
     // End invulnerability after duration expires
     if (this.invulnerableTimer >= this.invulnerableDuration) {
       // Transition to appropriate state based on input
-      if (inputManager.isSpacePressed()) {
+      if (player.hasInput(InputFlag.FIRE)) {
         owner.setState(PlayerState.SHOOTING);
       } else if (dx !== 0 || dy !== 0) {
         owner.setState(PlayerState.MOVING);
@@ -366,19 +361,117 @@ export class PlayerShip extends Entity {
   public readonly maxHealth: number = 100;
   
   /**
-   * Movement speed
+   * Movement speed in pixels per second
+   */
+  public readonly speed: number = 180;
+  
+  /**
+   * Damage dealt to whatever the ship flies into; doubled while the shield is up
+   */
+  public readonly ramDamage: number = 40;
+  
+  /**
+   * Radius of the ship's true hitbox. Enemy fire only hurts when it reaches
+   * this small core; the hull's outline still collides with bodies and pickups
+   */
+  public readonly hitRadius: number = 4;
+  
+  /**
+   * The hitbox as a collider around the ship's position
+   */
+  private readonly hitbox: Collider = circle(this.hitRadius);
+  
+  /**
+   * Speed multiplier while focused
+   */
+  private readonly focusSpeedFactor: number = 0.45;
+  
+  /**
+   * Weapon spread multiplier while focused
+   */
+  private readonly focusSpreadScale: number = 0.35;
+  
+  /**
+   * Dot marking the hitbox, shown while focused
+   */
+  private hitboxDot: Graphics = new Graphics();
+  
+  /**
+   * Velocity picked up from a collision, in pixels per second; eases off quickly
+   */
+  private knockbackX: number = 0;
+  private knockbackY: number = 0;
+  
+  /**
+   * Seconds until the ship can collide with another body
+   */
+  private contactTimer: number = 0;
+  
+  /**
+   * Seconds after a collision during which further body contacts are ignored,
+   * so one long overlap is not a hit every step
+   */
+  private readonly contactCooldown: number = 0.5;
+  
+  /**
+   * Speed multiplier while the speed boost is active
+   */
+  private readonly speedBoostFactor: number = 1.5;
+  
+  /**
+   * Weapon cooldown multiplier while rapid fire is active
+   */
+  private readonly rapidFireCooldownScale: number = 0.5;
+  
+  /**
+   * Score multiplier while the score multiplier is active
+   */
+  private readonly scoreMultiplierFactor: number = 2;
+  
+  /**
+   * Seconds left on each timed power-up effect
+   */
+  private effects: Map<PowerUpType, number> = new Map();
+  
+  /**
+   * Weapon fired by the ship
+   */
+  private weapon: Weapon = new Weapon();
+  
+  /**
+   * Homing missiles left
+   */
+  private missileAmmo: number = 3;
+  
+  /**
+   * Most homing missiles the ship can carry
+   */
+  public readonly maxMissileAmmo: number = 6;
+  
+  /**
+   * Seconds between missile launches
+   */
+  private readonly missileCooldown: number = 0.4;
+  
+  /**
+   * Seconds until the next missile can be launched
    */
-  public readonly speed: number = 3.0;
+  private missileTimer: number = 0;
   
   /**
-   * Shooting cooldown in frames (amount of time that must pass before player can shoot again)
+   * Missiles in flight or still trailing smoke
    */
-  public readonly shootCooldown: number = 10;
+  private missiles: Missile[] = [];
   
   /**
-   * Damage dealt by this ship's projectiles
+   * Supplies the entities missiles may lock on to
    */
-  public readonly damage: number = 50;
+  private missileTargets: () => readonly Entity[] = () => [];
+  
+  /**
+   * Called when a missile explodes
+   */
+  private missileDetonationCallback: ((missile: Missile) => void) | null = null;
   
   /**
    * Number of lives
@@ -386,9 +479,14 @@ export class PlayerShip extends Entity {
   private lives: number = 3;
   
   /**
-   * Score
+   * Called with the number of shots in each volley fired
+   */
+  private shotCallback: ((count: number) => void) | null = null;
+  
+  /**
+   * Called when a hit gets through to the shield or hull
    */
-  private score: number = 0;
+  private damageCallback: (() => void) | null = null;
   
   /**
    * Projectile pool for recycling projectiles
@@ -406,6 +504,11 @@ export class PlayerShip extends Entity {
    */
   private gameOverCallback: (() => void) | null = null;
 
+  /**
+   * Input flags for the current simulation step
+   */
+  private input: number = 0;
+
   /**
    * Shield health (0-100)
    */
@@ -440,12 +543,12 @@ export class PlayerShip extends Entity {
     this.screenWidth = screenWidth;
     this.screenHeight = screenHeight;
     
-    // Create projectile pool
+    // Create projectile pool; each shot takes its damage and velocity from the weapon
     this.projectilePool = new ProjectilePool(
-      10, // Initial pool size
+      20, // Initial pool size
       ProjectileType.PLAYER,
-      this.damage,
-      -10, // Negative velocity for upward movement
+      this.weapon.getStats().damage,
+      -this.weapon.getStats().speed, // Negative velocity for upward movement (pixels per second)
       screenWidth,
       screenHeight
     );
@@ -458,10 +561,21 @@ export class PlayerShip extends Entity {
       this.sprite.scale.set(0.7);
     }
 
+    this.setColliderFromTexture('playerShip1_blue', 0.7, circle(20));
+    this.setCollisionLayer(
+      CollisionLayer.PLAYER,
+      CollisionLayer.ENEMY | CollisionLayer.ENEMY_BULLET | CollisionLayer.PICKUP | CollisionLayer.HAZARD
+    );
+    
     // Create shield container
     this.shieldContainer = new Container();
     this.container.addChild(this.shieldContainer);
     
+    // The hitbox dot sits on top of the ship and its shield
+    this.hitboxDot.circle(0, 0, this.hitRadius + 1).fill(0xFFFFFF).stroke({ width: 1.5, color: 0xFF3366 });
+    this.hitboxDot.visible = false;
+    this.container.addChild(this.hitboxDot);
+    
     // Set initial state
     this.stateMachine.setState(PlayerState.IDLE);
   }
@@ -484,21 +598,136 @@ export class PlayerShip extends Entity {
 
   /**
    * Update the player
-   * @param deltaTime Time since last update
+   * @param deltaTime Time since last update in seconds
    */
   public update(deltaTime: number): void {
+    // Run down timed power-up effects
+    this.updateEffects(deltaTime);
+    
+    // Fire any volleys left in a burst
+    if (this.active) {
+      this.fireShots(this.weapon.update(deltaTime));
+    }
+    
     // Call the base entity update method, which now handles state machine updates
     // regardless of active status
     super.update(deltaTime);
     
     // Only update active components like position constraints and projectiles when active
     if (this.active) {
+      // Drift from any knockback
+      this.contactTimer = Math.max(0, this.contactTimer - deltaTime);
+      if (this.knockbackX !== 0 || this.knockbackY !== 0) {
+        this.x += this.knockbackX * deltaTime;
+        this.y += this.knockbackY * deltaTime;
+        
+        const decay = Math.exp(-8 * deltaTime);
+        this.knockbackX = Math.abs(this.knockbackX * decay) < 1 ? 0 : this.knockbackX * decay;
+        this.knockbackY = Math.abs(this.knockbackY * decay) < 1 ? 0 : this.knockbackY * decay;
+      }
+      
       // Ensure player stays within screen bounds
       this.constrainToScreen();
+      
+      this.hitboxDot.visible = this.isFocused();
   
       // Update projectiles
       this.projectilePool.update(deltaTime);
+      
+      // Launch a missile while the secondary fire key is held
+      this.missileTimer = Math.max(0, this.missileTimer - deltaTime);
+      if (this.hasInput(InputFlag.SECONDARY)) {
+        this.launchMissile();
+      }
+    }
+    
+    // Missiles keep flying (and their smoke fading) even if the ship is destroyed
+    this.updateMissiles(deltaTime);
+  }
+
+  /**
+   * Count down timed effects, dropping those that have run out
+   * @param deltaTime Time since last update in seconds
+   */
+  private updateEffects(deltaTime: number): void {
+    for (const [type, remaining] of this.effects) {
+      if (remaining - deltaTime <= 0) {
+        this.effects.delete(type);
+      } else {
+        this.effects.set(type, remaining - deltaTime);
+      }
     }
+    
+    this.weapon.setCooldownScale(this.hasEffect(PowerUpType.RAPID_FIRE) ? this.rapidFireCooldownScale : 1);
+  }
+  
+  /**
+   * Start a timed power-up effect; collecting it again restarts the timer
+   * @param type Power-up providing the effect
+   * @param duration Seconds the effect lasts
+   */
+  public addEffect(type: PowerUpType, duration: number): void {
+    this.effects.set(type, duration);
+  }
+  
+  /**
+   * Check if a timed power-up effect is active
+   * @param type Power-up providing the effect
+   */
+  public hasEffect(type: PowerUpType): boolean {
+    return this.effects.has(type);
+  }
+  
+  /**
+   * Get the active timed effects and their seconds left, in the order they were collected
+   */
+  public getEffects(): [PowerUpType, number][] {
+    return [...this.effects];
+  }
+  
+  /**
+   * Get the current movement speed in pixels per second
+   */
+  public getSpeed(): number {
+    const speed = this.hasEffect(PowerUpType.SPEED_BOOST) ? this.speed * this.speedBoostFactor : this.speed;
+    return this.isFocused() ? speed * this.focusSpeedFactor : speed;
+  }
+  
+  /**
+   * Is the player holding focus: moving slowly, with the hitbox shown and the spread tightened?
+   */
+  public isFocused(): boolean {
+    return this.hasInput(InputFlag.FOCUS);
+  }
+  
+  /**
+   * Get the ship's true hitbox, which enemy fire is checked against
+   */
+  public getHitbox(): Collider {
+    return this.hitbox;
+  }
+  
+  /**
+   * Get the multiplier applied to points scored
+   */
+  public getScoreMultiplier(): number {
+    return this.hasEffect(PowerUpType.SCORE_MULTIPLIER) ? this.scoreMultiplierFactor : 1;
+  }
+  
+  /**
+   * Set the input flags for the current simulation step
+   * @param flags Combination of InputFlag values
+   */
+  public setInput(flags: number): void {
+    this.input = flags;
+  }
+
+  /**
+   * Check if an input is held during the current simulation step
+   * @param flag The input to check
+   */
+  public hasInput(flag: InputFlag): boolean {
+    return (this.input & flag) !== 0;
   }
 
   /**
@@ -507,7 +736,8 @@ export class PlayerShip extends Entity {
    * @param dy Y movement
    */
   public move(dx: number, dy: number): void {
-    this.setPosition(this.x + dx, this.y + dy);
+    this.x += dx;
+    this.y += dy;
   }
 
   /**
@@ -540,28 +770,164 @@ export class PlayerShip extends Entity {
     } else if (this.y > this.screenHeight - halfHeight) {
       this.y = this.screenHeight - halfHeight;
     }
-
-    // Update container position
-    this.container.position.set(this.x, this.y);
   }
 
   /**
-   * Shoot a projectile
+   * Pull the weapon's trigger, firing if it is ready
    */
   public shoot(): void {
-    // Get a projectile from the pool
-    const projectile = this.projectilePool.getProjectile();
+    this.fireShots(this.weapon.fire());
+  }
+  
+  /**
+   * Launch projectiles for a volley of weapon shots
+   * @param shots Shots to fire
+   */
+  private fireShots(shots: WeaponShot[]): void {
+    if (shots.length === 0) return;
     
-    // Fire from the top center of the player
-    projectile.fire(this.x, this.y - this.height / 2);
+    // Focus narrows fanned shots towards straight ahead
+    const spreadScale = this.isFocused() ? this.focusSpreadScale : 1;
     
-    // Add projectile container to the scene
-    if (this.container.parent && !projectile.getContainer().parent) {
-      this.container.parent.addChild(projectile.getContainer());
+    for (const shot of shots) {
+      // Get a projectile from the pool
+      const projectile = this.projectilePool.getProjectile();
+      
+      // Fire from the top of the player
+      projectile.fire(this.x + shot.offsetX, this.y - this.height / 2, {
+        velocityX: Math.sin(shot.angle * spreadScale) * shot.speed,
+        velocityY: -Math.cos(shot.angle * spreadScale) * shot.speed,
+        damage: shot.damage,
+        texture: shot.texture,
+        pierce: shot.pierce,
+      });
+      
+      // Add projectile container to the scene
+      if (this.container.parent && !projectile.getContainer().parent) {
+        this.container.parent.addChild(projectile.getContainer());
+      }
     }
     
-    // Play laser sound effect
+    // Play laser sound effect once per volley
     SoundManager.getInstance().play(SoundType.PLAYER_SHOOT);
+    
+    if (this.shotCallback) {
+      this.shotCallback(shots.length);
+    }
+  }
+  
+  /**
+   * Launch a homing missile if one is loaded
+   */
+  public launchMissile(): void {
+    if (this.missileAmmo <= 0 || this.missileTimer > 0) return;
+    
+    this.missileAmmo--;
+    this.missileTimer = this.missileCooldown;
+    
+    const missile = new Missile(
+      this.x,
+      this.y - this.height / 2,
+      this.missileTargets,
+      this.screenWidth,
+      this.screenHeight
+    );
+    missile.setDetonationCallback((detonated) => {
+      if (this.missileDetonationCallback) {
+        this.missileDetonationCallback(detonated);
+      }
+    });
+    
+    if (this.container.parent) {
+      missile.launch(this.container.parent);
+    }
+    this.missiles.push(missile);
+    
+    SoundManager.getInstance().play(SoundType.MISSILE_LAUNCH);
+  }
+  
+  /**
+   * Update missiles, removing the ones that have finished
+   * @param deltaTime Time since last update in seconds
+   */
+  private updateMissiles(deltaTime: number): void {
+    for (const missile of this.missiles) {
+      missile.update(deltaTime);
+    }
+    
+    this.missiles = this.missiles.filter((missile) => {
+      if (missile.isFinished()) {
+        missile.destroy();
+        return false;
+      }
+      return true;
+    });
+  }
+  
+  /**
+   * Get the missiles still in flight
+   */
+  public getActiveMissiles(): Missile[] {
+    return this.missiles.filter((missile) => missile.isFlying());
+  }
+  
+  /**
+   * Set the entities missiles may lock on to
+   * @param provider Function returning the candidate targets
+   */
+  public setMissileTargets(provider: () => readonly Entity[]): void {
+    this.missileTargets = provider;
+  }
+  
+  /**
+   * Set the callback for when a missile explodes
+   * @param callback Function receiving the missile
+   */
+  public setMissileDetonationCallback(callback: (missile: Missile) => void): void {
+    this.missileDetonationCallback = callback;
+  }
+  
+  /**
+   * Refill homing missiles
+   * @param amount Number of missiles to add
+   */
+  public addMissiles(amount: number): void {
+    this.missileAmmo = Math.min(this.missileAmmo + amount, this.maxMissileAmmo);
+  }
+  
+  /**
+   * Get the number of homing missiles left
+   */
+  public getMissileAmmo(): number {
+    return this.missileAmmo;
+  }
+  
+  /**
+   * Collect a weapon pickup
+   * @param type Weapon of the pickup
+   */
+  public collectWeapon(type: WeaponType): void {
+    this.weapon.collect(type);
+  }
+  
+  /**
+   * Get the weapon fired by the ship
+   */
+  public getWeapon(): Weapon {
+    return this.weapon;
+  }
+
+  /**
+   * Render the player and its projectiles
+   * @param alpha Interpolation factor between simulation steps
+   */
+  public render(alpha: number): void {
+    super.render(alpha);
+    this.projectilePool.render(alpha);
+    
+    for (const missile of this.missiles) {
+      missile.render(alpha);
+    }
   }
 
   /**
@@ -588,6 +954,26 @@ export class PlayerShip extends Entity {
     return this.stateMachine.getCurrentState()?.name === PlayerState.INVULNERABLE;
   }
 
+  /**
+   * Can the ship collide with an enemy or meteor right now?
+   */
+  public canCollide(): boolean {
+    const state = this.stateMachine.getCurrentState()?.name;
+    return this.active && this.contactTimer <= 0 &&
+      state !== PlayerState.DESTROYED && state !== PlayerState.INVULNERABLE;
+  }
+  
+  /**
+   * Shove the ship after a collision; further body contacts are ignored for a moment
+   * @param velocityX Horizontal push in pixels per second
+   * @param velocityY Vertical push in pixels per second
+   */
+  public applyKnockback(velocityX: number, velocityY: number): void {
+    this.knockbackX += velocityX;
+    this.knockbackY += velocityY;
+    this.contactTimer = this.contactCooldown;
+  }
+
   /**
    * Take damage
    * @param amount Amount of damage to take
@@ -601,6 +987,10 @@ export class PlayerShip extends Entity {
 
     // Play damage sound
     SoundManager.getInstance().play(SoundType.PLAYER_DAMAGE);
+    
+    if (this.damageCallback) {
+      this.damageCallback();
+    }
 
     // If we have shields, damage them first
     if (this.shieldHealth > 0) {
@@ -629,17 +1019,21 @@ export class PlayerShip extends Entity {
     // Check if destroyed
     if (this.health <= 0) {
       this.health = 0;
-      this.stateMachine.setState(PlayerState.DESTROYED);
+      this.loseLife();
     } else {
       this.stateMachine.setState(PlayerState.DAMAGED);
     }
   }
 
   /**
-   * Destroy the player
+   * Lose a life and explode, respawning later if any lives are left
    */
-  public destroy(): void {
+  private loseLife(): void {
     this.lives--;
+    
+    // Weapon upgrades and timed effects are lost with the ship
+    this.weapon.reset();
+    this.effects.clear();
 
     // Transition to destroyed state
     this.stateMachine.setState(PlayerState.DESTROYED);
@@ -650,6 +1044,20 @@ export class PlayerShip extends Entity {
     }
   }
 
+  /**
+   * Remove the player and its projectiles from the scene
+   */
+  public destroy(): void {
+    this.projectilePool.destroyAll();
+    
+    for (const missile of this.missiles) {
+      missile.destroy();
+    }
+    this.missiles = [];
+    
+    super.destroy();
+  }
+
   /**
    * Handle player respawn
    */
@@ -660,6 +1068,8 @@ export class PlayerShip extends Entity {
 
       // Reset position to bottom center
       this.setPosition(this.screenWidth / 2, this.screenHeight - 120);
+      this.knockbackX = 0;
+      this.knockbackY = 0;
       
       // Clear any active projectiles to prevent self-hits
       this.clearProjectiles();
@@ -710,18 +1120,19 @@ export class PlayerShip extends Entity {
   }
 
   /**
-   * Add score
-   * @param points Points to add
+   * Set the callback for each volley fired
+   * @param callback Function receiving the number of shots
    */
-  public addScore(points: number): void {
-    this.score += points;
+  public setShotCallback(callback: (count: number) => void): void {
+    this.shotCallback = callback;
   }
 
   /**
-   * Get player score
+   * Set the callback for when the player is hit
+   * @param callback Function to call when a hit gets through
    */
-  public getScore(): number {
-    return this.score;
+  public setDamageCallback(callback: () => void): void {
+    this.damageCallback = callback;
   }
 
   /**
@@ -731,6 +1142,28 @@ export class PlayerShip extends Entity {
     return this.lives;
   }
 
+  /**
+   * Gain an extra life
+   */
+  public addLife(): void {
+    this.lives++;
+  }
+
+  /**
+   * Restore full health
+   */
+  public repair(): void {
+    this.health = this.maxHealth;
+  }
+
+  /**
+   * Set the number of lives (e.g. from the game mode)
+   * @param lives Lives remaining
+   */
+  public setLives(lives: number): void {
+    this.lives = lives;
+  }
+
   /**
    * Set screen dimensions
    * @param width Screen width
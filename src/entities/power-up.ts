@@ -3,15 +3,113 @@ import { StateMachine } from '../states/state-machine';
 import type { State } from '../states/state-machine';
 import { AssetLoader } from '../library/asset-loader';
 import { SoundManager, SoundType } from '../library/sound-manager';
+import { WeaponType, WEAPONS } from './weapon';
+import { CollisionLayer } from '../core/collision';
+import { circle } from '../core/collider';
 
 /**
  * Types of power-ups available in the game
  */
 export enum PowerUpType {
   SHIELD = 'shield',
-  // Future power-ups can be added here
+  WEAPON = 'weapon',
+  MISSILES = 'missiles',
+  WEAPON_UPGRADE = 'weaponUpgrade',
+  RAPID_FIRE = 'rapidFire',
+  SPEED_BOOST = 'speedBoost',
+  EXTRA_LIFE = 'extraLife',
+  SCORE_MULTIPLIER = 'scoreMultiplier',
+  HEALTH_REPAIR = 'healthRepair',
+  BOMB = 'bomb',
 }
 
+/**
+ * How a power-up looks, sounds and how long its effect lasts
+ */
+export interface PowerUpDefinition {
+  type: PowerUpType;
+  name: string;
+  texture: string; // Weapon power-ups use their weapon's pickup texture
+  sound: SoundType;
+  duration: number; // Seconds the effect lasts; 0 for instant effects
+}
+
+/**
+ * Configuration of every power-up
+ */
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = {
+  [PowerUpType.SHIELD]: {
+    type: PowerUpType.SHIELD,
+    name: 'Shield',
+    texture: 'powerupBlue_shield',
+    sound: SoundType.SHIELD_ACTIVATE,
+    duration: 0,
+  },
+  [PowerUpType.WEAPON]: {
+    type: PowerUpType.WEAPON,
+    name: 'Weapon',
+    texture: 'powerupBlue_bolt',
+    sound: SoundType.WEAPON_UPGRADE,
+    duration: 0,
+  },
+  [PowerUpType.MISSILES]: {
+    type: PowerUpType.MISSILES,
+    name: 'Missiles',
+    texture: 'powerupRed_star',
+    sound: SoundType.MISSILE_REFILL,
+    duration: 0,
+  },
+  [PowerUpType.WEAPON_UPGRADE]: {
+    type: PowerUpType.WEAPON_UPGRADE,
+    name: 'Weapon Upgrade',
+    texture: 'powerupBlue_bolt',
+    sound: SoundType.WEAPON_UPGRADE,
+    duration: 0,
+  },
+  [PowerUpType.RAPID_FIRE]: {
+    type: PowerUpType.RAPID_FIRE,
+    name: 'Rapid Fire',
+    texture: 'powerupYellow_star',
+    sound: SoundType.RAPID_FIRE,
+    duration: 8,
+  },
+  [PowerUpType.SPEED_BOOST]: {
+    type: PowerUpType.SPEED_BOOST,
+    name: 'Speed Boost',
+    texture: 'powerupGreen_star',
+    sound: SoundType.SPEED_BOOST,
+    duration: 8,
+  },
+  [PowerUpType.EXTRA_LIFE]: {
+    type: PowerUpType.EXTRA_LIFE,
+    name: 'Extra Life',
+    texture: 'playerLife1_blue',
+    sound: SoundType.EXTRA_LIFE,
+    duration: 0,
+  },
+  [PowerUpType.SCORE_MULTIPLIER]: {
+    type: PowerUpType.SCORE_MULTIPLIER,
+    name: 'Score x2',
+    texture: 'pill_yellow',
+    sound: SoundType.SCORE_MULTIPLIER,
+    duration: 10,
+  },
+  [PowerUpType.HEALTH_REPAIR]: {
+    type: PowerUpType.HEALTH_REPAIR,
+    name: 'Repair',
+    texture: 'pill_green',
+    sound: SoundType.HEALTH_REPAIR,
+    duration: 0,
+  },
+  [PowerUpType.BOMB]: {
+    type: PowerUpType.BOMB,
+    name: 'Bomb',
+    texture: 'pill_red',
+    sound: SoundType.BOMB,
+    duration: 0,
+  },
+};
+
 /**
  * Power-up states
  */
@@ -54,13 +152,14 @@ class PowerUpActiveState implements State {
 class PowerUpCollectedState implements State {
   public readonly name = PowerUpState.COLLECTED;
   private collectionTimer = 0;
-  private readonly collectionTime = 30; // 0.5 seconds at 60fps
+  private readonly collectionTime = 0.5; // Seconds
   
-  public enter(_owner: StateMachine): void {
+  public enter(owner: StateMachine): void {
+    const powerUp = owner.getOwner() as PowerUp;
     this.collectionTimer = 0;
     
-    // Play shield activation sound instead of UI select
-    SoundManager.getInstance().play(SoundType.SHIELD_ACTIVATE);
+    // Every power-up has its own pickup sound
+    SoundManager.getInstance().play(POWER_UPS[powerUp.getType()].sound);
   }
   
   public update(owner: StateMachine, deltaTime: number): void {
@@ -106,44 +205,45 @@ export class PowerUp extends Entity {
   private type: PowerUpType;
   private speed: number;
   private screenHeight: number;
+  private weaponType: WeaponType;
   
   /**
    * Constructor
    * @param x Initial x position
    * @param y Initial y position
    * @param type Type of power-up
-   * @param fallSpeed Speed at which power-up falls
+   * @param fallSpeed Speed at which power-up falls in pixels per second
    * @param screenHeight Screen height for boundary checking
+   * @param weaponType Weapon granted by a weapon power-up
    */
   constructor(
     x: number, 
     y: number, 
     type: PowerUpType,
     fallSpeed: number,
-    screenHeight: number
+    screenHeight: number,
+    weaponType: WeaponType = WeaponType.LASER
   ) {
     super(x, y);
     
     this.type = type;
     this.speed = fallSpeed;
     this.screenHeight = screenHeight;
+    this.weaponType = weaponType;
     
     // Set the appropriate texture based on the power-up type
-    switch (type) {
-      case PowerUpType.SHIELD:
-        this.setSprite(AssetLoader.getInstance().getTexture('powerupBlue_shield'));
-        break;
-      default:
-        // Default texture if type is not recognized
-        this.setSprite(AssetLoader.getInstance().getTexture('powerupBlue_shield'));
-        break;
-    }
+    const texture = type === PowerUpType.WEAPON ? WEAPONS[weaponType].pickupTexture : POWER_UPS[type].texture;
+    this.setSprite(AssetLoader.getInstance().getTexture(texture));
     
     // Scale the power-up for better visibility
     if (this.sprite) {
       this.sprite.scale.set(0.6);
     }
     
+    // Generous radius for easier pickup
+    this.setCollider(circle(20));
+    this.setCollisionLayer(CollisionLayer.PICKUP, CollisionLayer.PLAYER);
+    
     // Set initial state to active
     this.stateMachine.setState(PowerUpState.ACTIVE);
   }
@@ -159,12 +259,10 @@ export class PowerUp extends Entity {
   
   /**
    * Move the power-up down the screen
-   * @param deltaTime Time since last update
+   * @param deltaTime Time since last update in seconds
    */
   public move(deltaTime: number): void {
-    const dy = this.speed * deltaTime;
-    this.y += dy;
-    this.container.position.y = this.y;
+    this.y += this.speed * deltaTime;
   }
   
   /**
@@ -176,6 +274,13 @@ export class PowerUp extends Entity {
     console.log(`Power-up of type ${this.type} collected!`);
   }
   
+  /**
+   * Has the power-up already been collected (playing its pickup animation)?
+   */
+  public isCollected(): boolean {
+    return this.stateMachine.getCurrentState()?.name === PowerUpState.COLLECTED;
+  }
+  
   /**
    * Get the type of power-up
    */
@@ -183,6 +288,13 @@ export class PowerUp extends Entity {
     return this.type;
   }
   
+  /**
+   * Get the weapon granted by a weapon power-up
+   */
+  public getWeaponType(): WeaponType {
+    return this.weaponType;
+  }
+  
   /**
    * Get the screen height
    */
@@ -3,6 +3,8 @@ import { StateMachine } from '../states/state-machine';
 import type { State } from '../states/state-machine';
 import { AssetLoader } from '../library/asset-loader';
 import { ExplosionManager, ExplosionType } from '../library/explosion-manager';
+import { CollisionLayer } from '../core/collision';
+import { circle } from '../core/collider';
 
 /**
  * Projectile types
@@ -12,6 +14,20 @@ export enum ProjectileType {
   ENEMY = 'enemy',
 }
 
+/**
+ * How a projectile is launched; anything left out keeps the pool's defaults
+ */
+export interface ProjectileLaunch {
+  velocityX?: number; // Pixels per second
+  velocityY?: number; // Pixels per second
+  accelerationX?: number; // Pixels per second squared
+  accelerationY?: number; // Pixels per second squared
+  lifetime?: number; // Seconds before it fizzles out (Infinity for no limit)
+  damage?: number;
+  texture?: string;
+  pierce?: number; // Extra targets it passes through before exploding
+}
+
 /**
  * Projectile states
  */
@@ -38,8 +54,8 @@ class ProjectileActiveState implements State {
     // Move the projectile
     projectile.move(deltaTime);
     
-    // Check if the projectile is out of bounds
-    if (projectile.isOutOfBounds()) {
+    // Check if the projectile is out of bounds or has run out of time
+    if (projectile.isOutOfBounds() || projectile.isExpired()) {
       owner.setState(ProjectileState.INACTIVE);
     }
   }
@@ -126,10 +142,57 @@ export class Projectile extends Entity {
   private damage: number;
   
   /**
-   * Velocity in y direction
+   * Velocity in x direction in pixels per second
+   */
+  private velocityX: number = 0;
+  
+  /**
+   * Velocity in y direction in pixels per second
    */
   private velocityY: number;
   
+  /**
+   * Acceleration in pixels per second squared
+   */
+  private accelerationX: number = 0;
+  private accelerationY: number = 0;
+  
+  /**
+   * Seconds the projectile may fly, and seconds it has flown
+   */
+  private lifetime: number = Infinity;
+  private age: number = 0;
+  
+  /**
+   * Launch values used when a shot leaves them out
+   */
+  private readonly defaults: Required<ProjectileLaunch>;
+  
+  /**
+   * Name of the texture currently shown
+   */
+  private textureName: string;
+  
+  /**
+   * Targets the projectile can still pass through
+   */
+  private pierce: number = 0;
+  
+  /**
+   * Targets already hit, so a piercing projectile damages each only once
+   */
+  private hitTargets: Set<Entity> = new Set();
+  
+  /**
+   * Is the projectile passing close by the player, not yet scored as a graze?
+   */
+  private inGrazeZone: boolean = false;
+  
+  /**
+   * Has the projectile grazed (or hit) the player already?
+   */
+  private grazed: boolean = false;
+  
   /**
    * Screen bounds
    */
@@ -147,7 +210,7 @@ export class Projectile extends Entity {
    * @param x Initial x position
    * @param y Initial y position
    * @param damage Damage amount
-   * @param velocityY Velocity in y direction
+   * @param velocityY Velocity in y direction in pixels per second
    * @param screenWidth Screen width
    * @param screenHeight Screen height
    */
@@ -169,13 +232,28 @@ export class Projectile extends Entity {
     this.screenHeight = screenHeight;
     
     // Set sprite based on type
+    this.textureName = type === ProjectileType.PLAYER ? 'laserBlue01' : 'laserRed05';
+    this.setSprite(AssetLoader.getInstance().getTexture(this.textureName));
+    
+    this.setColliderFromTexture(this.textureName, 1, circle(5));
+    
+    // Player shots hit enemies and meteors; enemy shots hit the player and meteors
     if (type === ProjectileType.PLAYER) {
-      const texture = AssetLoader.getInstance().getTexture('laserBlue01');
-      this.setSprite(texture);
+      this.setCollisionLayer(CollisionLayer.PLAYER_BULLET, CollisionLayer.ENEMY | CollisionLayer.HAZARD);
     } else {
-      const texture = AssetLoader.getInstance().getTexture('laserRed05');
-      this.setSprite(texture);
+      this.setCollisionLayer(CollisionLayer.ENEMY_BULLET, CollisionLayer.PLAYER | CollisionLayer.HAZARD);
     }
+    
+    this.defaults = {
+      velocityX: 0,
+      velocityY,
+      accelerationX: 0,
+      accelerationY: 0,
+      lifetime: Infinity,
+      damage,
+      texture: this.textureName,
+      pierce: 0,
+    };
   }
   
   /**
@@ -195,35 +273,176 @@ export class Projectile extends Entity {
    * Fire the projectile
    * @param x Starting x position
    * @param y Starting y position
+   * @param launch Velocity, damage and look of the shot
    */
-  public fire(x: number, y: number): void {
+  public fire(x: number, y: number, launch: ProjectileLaunch = {}): void {
+    this.velocityX = launch.velocityX ?? this.defaults.velocityX;
+    this.velocityY = launch.velocityY ?? this.defaults.velocityY;
+    this.accelerationX = launch.accelerationX ?? this.defaults.accelerationX;
+    this.accelerationY = launch.accelerationY ?? this.defaults.accelerationY;
+    this.lifetime = launch.lifetime ?? this.defaults.lifetime;
+    this.age = 0;
+    this.damage = launch.damage ?? this.defaults.damage;
+    this.pierce = launch.pierce ?? this.defaults.pierce;
+    this.hitTargets.clear();
+    this.inGrazeZone = false;
+    this.grazed = false;
+    
+    this.setTexture(launch.texture ?? this.defaults.texture);
+    this.alignToHeading();
+    
     this.setPosition(x, y);
     this.stateMachine.setState(ProjectileState.ACTIVE);
   }
   
+  /**
+   * Swap the sprite texture
+   * @param name Texture name
+   */
+  private setTexture(name: string): void {
+    if (!this.sprite || name === this.textureName) return;
+    
+    this.textureName = name;
+    this.sprite.texture = AssetLoader.getInstance().getTexture(name);
+    this.width = this.sprite.width;
+    this.height = this.sprite.height;
+    this.setColliderFromTexture(name, 1, circle(5));
+  }
+  
   /**
    * Move the projectile
-   * @param deltaTime Time since last update
+   * @param deltaTime Time since last update in seconds
    */
   public move(deltaTime: number): void {
+    this.velocityX += this.accelerationX * deltaTime;
+    this.velocityY += this.accelerationY * deltaTime;
+    
+    this.x += this.velocityX * deltaTime;
     this.y += this.velocityY * deltaTime;
-    this.container.position.set(this.x, this.y);
+    this.age += deltaTime;
+    
+    // Curving shots turn to follow their path
+    if (this.accelerationX !== 0 || this.accelerationY !== 0) {
+      this.alignToHeading();
+    }
+  }
+  
+  /**
+   * Point the sprite along the direction of flight
+   * Laser sprites are symmetric, so downward shots keep the sprite upright
+   */
+  private alignToHeading(): void {
+    if (!this.sprite) return;
+    
+    const heading = Math.atan2(this.velocityX, -this.velocityY);
+    this.sprite.rotation = this.velocityY > 0 ? heading + Math.PI : heading;
   }
   
+  /**
+   * Has the projectile outlived its lifetime?
+   */
+  public isExpired(): boolean {
+    return this.age >= this.lifetime;
+  }
+  
+  /**
+   * Get the velocity needed to fly from one point towards another
+   * @param fromX Start x position
+   * @param fromY Start y position
+   * @param toX Target x position
+   * @param toY Target y position
+   * @param speed Speed in pixels per second
+   */
+  public static aim(fromX: number, fromY: number, toX: number, toY: number, speed: number): ProjectileLaunch {
+    const dx = toX - fromX;
+    const dy = toY - fromY;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    
+    // Straight down when already on top of the target
+    if (distance === 0) {
+      return { velocityX: 0, velocityY: speed };
+    }
+    
+    return {
+      velocityX: dx / distance * speed,
+      velocityY: dy / distance * speed,
+    };
+  }
+
+  
   /**
    * Check if the projectile is out of screen bounds
    */
   public isOutOfBounds(): boolean {
-    return this.y < -50 || this.y > this.screenHeight + 50;
+    return this.y < -50 || this.y > this.screenHeight + 50 ||
+      this.x < -50 || this.x > this.screenWidth + 50;
   }
   
   /**
    * Handle collision
+   * @param target The entity hit; piercing projectiles pass through it
    */
-  public onCollision(): void {
+  public onCollision(target?: Entity): void {
+    if (target && this.pierce > 0) {
+      this.pierce--;
+      this.hitTargets.add(target);
+      return;
+    }
+    
     this.stateMachine.setState(ProjectileState.EXPLODING);
   }
   
+  /**
+   * Has the projectile already hit a target?
+   * @param target The entity to check
+   */
+  public hasHit(target: Entity): boolean {
+    return this.hitTargets.has(target);
+  }
+  
+  /**
+   * Get the number of targets the projectile has pierced since it was fired
+   */
+  public getHitCount(): number {
+    return this.hitTargets.size;
+  }
+  
+  /**
+   * Note that the projectile is passing close by the player
+   */
+  public enterGrazeZone(): void {
+    if (!this.grazed) {
+      this.inGrazeZone = true;
+    }
+  }
+  
+  /**
+   * Is the projectile close by the player, waiting to be scored as a graze?
+   */
+  public isInGrazeZone(): boolean {
+    return this.inGrazeZone;
+  }
+  
+  /**
+   * Get past the player without hitting it
+   * @returns True if this is a graze: the first time the shot gets clear
+   */
+  public leaveGrazeZone(): boolean {
+    if (!this.inGrazeZone) return false;
+    
+    this.inGrazeZone = false;
+    this.grazed = true;
+    return true;
+  }
+  
+  /**
+   * The projectile hit the player, so it can no longer graze
+   */
+  public cancelGraze(): void {
+    this.inGrazeZone = false;
+    this.grazed = true;
+  }
+  
   /**
    * Return the projectile to the pool
    */
@@ -282,7 +501,7 @@ export class ProjectilePool {
    * @param initialSize Initial pool size
    * @param type Projectile type
    * @param damage Damage amount
-   * @param velocityY Velocity in y direction
+   * @param velocityY Velocity in y direction in pixels per second
    * @param screenWidth Screen width
    * @param screenHeight Screen height
    */
@@ -356,7 +575,7 @@ export class ProjectilePool {
   
   /**
    * Update all active projectiles
-   * @param deltaTime Time since last update
+   * @param deltaTime Time since last update in seconds
    */
   public update(deltaTime: number): void {
     // Update all active projectiles
@@ -365,6 +584,16 @@ export class ProjectilePool {
     }
   }
   
+  /**
+   * Render all active projectiles
+   * @param alpha Interpolation factor between simulation steps
+   */
+  public render(alpha: number): void {
+    for (const projectile of this.activeProjectiles) {
+      projectile.render(alpha);
+    }
+  }
+  
   /**
    * Get all active projectiles
    */
@@ -387,4 +616,16 @@ export class ProjectilePool {
     // Clear the active projectiles array (should be empty after deactivation)
     this.activeProjectiles = [];
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Destroy every projectile owned by the pool
+   */
+  public destroyAll(): void {
+    for (const projectile of [...this.activeProjectiles, ...this.inactiveProjectiles]) {
+      projectile.destroy();
+    }
+    
+    this.activeProjectiles = [];
+    this.inactiveProjectiles = [];
+  }
+}
\ No newline at end of file
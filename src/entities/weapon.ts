@@ -0,0 +1,295 @@
+/**
+ * Weapons the player can carry
+ */
+export enum WeaponType {
+  LASER = 'laser',
+  SPREAD = 'spread',
+  TWIN = 'twin',
+  RAPID = 'rapid',
+  PIERCING = 'piercing',
+}
+
+/**
+ * Stats of one upgrade tier of a weapon
+ */
+export interface WeaponTier {
+  texture: string;
+  damage: number;
+  speed: number; // Pixels per second
+  count: number; // Projectiles per volley, fanned across the spread
+  spread: number; // Total fan angle in degrees
+  spacing: number; // Horizontal gap between projectiles of a volley (twin cannons)
+  burst: number; // Volleys per trigger pull
+  burstInterval: number; // Seconds between volleys of a burst
+  cooldown: number; // Seconds between trigger pulls
+  pierce: number; // Extra enemies each projectile passes through
+}
+
+/**
+ * A weapon and its upgrade tiers
+ */
+export interface WeaponDefinition {
+  type: WeaponType;
+  name: string;
+  pickupTexture: string;
+  tiers: WeaponTier[];
+}
+
+/**
+ * Stats shared by most tiers; each tier overrides what makes it different
+ */
+const BASE_TIER: WeaponTier = {
+  texture: 'laserBlue01',
+  damage: 50,
+  speed: 600,
+  count: 1,
+  spread: 0,
+  spacing: 0,
+  burst: 1,
+  burstInterval: 0,
+  cooldown: 0.16,
+  pierce: 0,
+};
+
+/**
+ * Configuration of every weapon
+ */
+export const WEAPONS: Record<WeaponType, WeaponDefinition> = {
+  [WeaponType.LASER]: {
+    type: WeaponType.LASER,
+    name: 'Laser',
+    pickupTexture: 'powerupBlue_bolt',
+    tiers: [
+      { ...BASE_TIER },
+      { ...BASE_TIER, texture: 'laserBlue13', damage: 60, speed: 650, cooldown: 0.14 },
+      { ...BASE_TIER, texture: 'laserBlue15', damage: 70, speed: 700, cooldown: 0.12 },
+    ],
+  },
+  [WeaponType.SPREAD]: {
+    type: WeaponType.SPREAD,
+    name: 'Spread',
+    pickupTexture: 'powerupGreen_bolt',
+    tiers: [
+      { ...BASE_TIER, texture: 'laserGreen05', damage: 35, count: 3, spread: 24, cooldown: 0.24 },
+      { ...BASE_TIER, texture: 'laserGreen05', damage: 35, count: 5, spread: 40, cooldown: 0.24 },
+      { ...BASE_TIER, texture: 'laserGreen04', damage: 40, count: 7, spread: 60, cooldown: 0.22 },
+    ],
+  },
+  [WeaponType.TWIN]: {
+    type: WeaponType.TWIN,
+    name: 'Twin Cannons',
+    pickupTexture: 'powerupYellow_bolt',
+    tiers: [
+      { ...BASE_TIER, texture: 'laserBlue03', damage: 40, count: 2, spacing: 24, cooldown: 0.16 },
+      { ...BASE_TIER, texture: 'laserBlue02', damage: 50, count: 2, spacing: 28, burst: 2, burstInterval: 0.06, cooldown: 0.24 },
+      { ...BASE_TIER, texture: 'laserBlue02', damage: 50, count: 4, spacing: 16, burst: 2, burstInterval: 0.06, cooldown: 0.24 },
+    ],
+  },
+  [WeaponType.RAPID]: {
+    type: WeaponType.RAPID,
+    name: 'Rapid Fire',
+    pickupTexture: 'powerupRed_bolt',
+    tiers: [
+      { ...BASE_TIER, texture: 'laserBlue07', damage: 30, speed: 750, cooldown: 0.08 },
+      { ...BASE_TIER, texture: 'laserBlue07', damage: 30, speed: 800, cooldown: 0.06 },
+      { ...BASE_TIER, texture: 'laserBlue05', damage: 35, speed: 850, spread: 4, count: 2, cooldown: 0.06 },
+    ],
+  },
+  [WeaponType.PIERCING]: {
+    type: WeaponType.PIERCING,
+    name: 'Piercing Laser',
+    pickupTexture: 'powerupBlue_star',
+    tiers: [
+      { ...BASE_TIER, texture: 'laserBlue16', damage: 60, speed: 900, cooldown: 0.35, pierce: 1 },
+      { ...BASE_TIER, texture: 'laserBlue12', damage: 70, speed: 950, cooldown: 0.32, pierce: 2 },
+      { ...BASE_TIER, texture: 'laserBlue14', damage: 80, speed: 1000, cooldown: 0.3, pierce: 4 },
+    ],
+  },
+};
+
+/**
+ * A single projectile fired by a weapon, relative to the muzzle
+ */
+export interface WeaponShot {
+  offsetX: number;
+  angle: number; // Radians from straight up, positive is clockwise
+  speed: number;
+  damage: number;
+  texture: string;
+  pierce: number;
+}
+
+/**
+ * Weapon carried by the player: handles cooldowns, bursts and upgrade tiers
+ * and produces the shots to fire each step
+ */
+export class Weapon {
+  /**
+   * Current weapon
+   */
+  private definition: WeaponDefinition = WEAPONS[WeaponType.LASER];
+
+  /**
+   * Current upgrade tier (index into the definition's tiers)
+   */
+  private tier: number = 0;
+
+  /**
+   * Seconds until the trigger can be pulled again
+   */
+  private cooldownTimer: number = 0;
+
+  /**
+   * Volleys left in the current burst
+   */
+  private burstRemaining: number = 0;
+
+  /**
+   * Seconds until the next volley of the burst
+   */
+  private burstTimer: number = 0;
+
+  /**
+   * Multiplier applied to the cooldown between trigger pulls (rapid fire)
+   */
+  private cooldownScale: number = 1;
+
+  /**
+   * Advance cooldowns
+   * @param deltaTime Time since last update in seconds
+   * @returns Shots from a burst still in progress
+   */
+  public update(deltaTime: number): WeaponShot[] {
+    this.cooldownTimer = Math.max(0, this.cooldownTimer - deltaTime);
+
+    if (this.burstRemaining > 0) {
+      this.burstTimer -= deltaTime;
+      if (this.burstTimer <= 0) {
+        this.burstRemaining--;
+        this.burstTimer += this.getStats().burstInterval;
+        return this.createVolley();
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Pull the trigger
+   * @returns Shots to fire now; empty while cooling down
+   */
+  public fire(): WeaponShot[] {
+    if (this.cooldownTimer > 0 || this.burstRemaining > 0) {
+      return [];
+    }
+
+    const stats = this.getStats();
+    this.cooldownTimer = stats.cooldown * this.cooldownScale;
+    this.burstRemaining = stats.burst - 1;
+    this.burstTimer = stats.burstInterval;
+
+    return this.createVolley();
+  }
+
+  /**
+   * Create the shots of one volley
+   */
+  private createVolley(): WeaponShot[] {
+    const stats = this.getStats();
+    const shots: WeaponShot[] = [];
+    const spread = stats.spread * Math.PI / 180;
+
+    for (let i = 0; i < stats.count; i++) {
+      // Position from -0.5 (leftmost) to 0.5 (rightmost)
+      const position = stats.count > 1 ? i / (stats.count - 1) - 0.5 : 0;
+
+      shots.push({
+        offsetX: position * stats.spacing * (stats.count - 1),
+        angle: position * spread,
+        speed: stats.speed,
+        damage: stats.damage,
+        texture: stats.texture,
+        pierce: stats.pierce,
+      });
+    }
+
+    return shots;
+  }
+
+  /**
+   * Collect a weapon pickup: the same weapon upgrades a tier, another weapon
+   * replaces the current one at the same tier
+   * @param type Weapon of the pickup
+   */
+  public collect(type: WeaponType): void {
+    const definition = WEAPONS[type];
+
+    if (definition === this.definition) {
+      this.tier = Math.min(this.tier + 1, definition.tiers.length - 1);
+    } else {
+      this.definition = definition;
+      this.tier = Math.min(this.tier, definition.tiers.length - 1);
+    }
+  }
+
+  /**
+   * Upgrade the current weapon by one tier
+   * @returns False if the weapon is already fully upgraded
+   */
+  public upgrade(): boolean {
+    if (this.tier >= this.definition.tiers.length - 1) {
+      return false;
+    }
+
+    this.tier++;
+    return true;
+  }
+
+  /**
+   * Scale the cooldown between trigger pulls
+   * @param scale 1 for normal fire rate, below 1 to fire faster
+   */
+  public setCooldownScale(scale: number): void {
+    this.cooldownScale = scale;
+  }
+
+  /**
+   * Lose all upgrades, going back to the basic laser
+   */
+  public reset(): void {
+    this.definition = WEAPONS[WeaponType.LASER];
+    this.tier = 0;
+    this.cooldownTimer = 0;
+    this.burstRemaining = 0;
+    this.burstTimer = 0;
+  }
+
+  /**
+   * Get the stats of the current tier
+   */
+  public getStats(): WeaponTier {
+    return this.definition.tiers[this.tier];
+  }
+
+  /**
+   * Get the current weapon type
+   */
+  public getType(): WeaponType {
+    return this.definition.type;
+  }
+
+  /**
+   * Get the current tier, starting at 1
+   */
+  public getTier(): number {
+    return this.tier + 1;
+  }
+
+  /**
+   * Get the display name of the current weapon and tier
+   */
+  public getName(): string {
+    const tiers = this.definition.tiers.length;
+    return tiers > 1 ? `${this.definition.name} ${this.getTier()}/${tiers}` : this.definition.name;
+  }
+}
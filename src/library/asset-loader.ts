@@ -1,5 +1,8 @@
 import { Assets, Rectangle, Texture } from 'pixi.js';
 import { SoundManager } from './sound-manager';
+import { box, compound } from '../core/collider';
+import type { Collider } from '../core/collider';
+import { TEXTURE_COLLIDERS } from '../data/colliders';
 
 /**
  * Asset types
@@ -26,6 +29,16 @@ const ASSET_MANIFESTS = {
   ]
 };
 
+/**
+ * Alpha at or above which a pixel counts as solid when generating colliders
+ */
+const COLLIDER_ALPHA_THRESHOLD = 128;
+
+/**
+ * Horizontal bands a generated collider is cut into, one box each
+ */
+const COLLIDER_BANDS = 3;
+
 /**
  * Asset loader class for loading game assets
  */
@@ -34,6 +47,7 @@ export class AssetLoader {
   private loaded = false;
   private loadPromise: Promise<void> | null = null;
   private textures: Map<string, Texture> = new Map();
+  private generatedColliders: Map<string, Collider> = new Map();
 
   private constructor() {
     // Private constructor to enforce singleton
@@ -78,6 +92,9 @@ export class AssetLoader {
             // Load the spritesheet image as a base texture
             const baseTextureAsset = await Assets.load(sheet.imageUrl);
             
+            // Sprites without a written out collider get one traced from their alpha
+            const pixels = sheet.name === 'space-shooter' ? this.readPixels(baseTextureAsset) : null;
+            
             // Load the XML file
             const xmlResponse = await fetch(sheet.xmlUrl);
             const xmlText = await xmlResponse.text();
@@ -107,6 +124,13 @@ export class AssetLoader {
               // Store the texture with its frame name
               this.textures.set(name, texture);
               
+              if (pixels && !TEXTURE_COLLIDERS[name]) {
+                const collider = this.generateCollider(pixels, x, y, width, height);
+                if (collider) {
+                  this.generatedColliders.set(name, collider);
+                }
+              }
+              
               // Add prefixed name for explosion frames to follow convention in explosion manager
               if (sheet.name === 'sonic-explosion') {
                 const prefixedName = `spritesheet_sonicExplosion_${name.replace('sonicExplosion', '')}`;
@@ -148,6 +172,83 @@ export class AssetLoader {
     return texture;
   }
 
+  /**
+   * Get the collider shape of a texture, in texture pixels around its center.
+   * Shapes written out in TEXTURE_COLLIDERS come first, so every run collides
+   * the same way; only other textures are traced from their alpha.
+   * @param name Texture name
+   * @returns The shape, or null if the texture has none
+   */
+  public getCollider(name: string): Collider | null {
+    return TEXTURE_COLLIDERS[name] ?? this.generatedColliders.get(name) ?? null;
+  }
+
+  /**
+   * Read back the pixels of a loaded image
+   * @param texture Texture of the whole image
+   * @returns The pixels, or null where they cannot be read (e.g. no canvas)
+   */
+  private readPixels(texture: Texture): ImageData | null {
+    const resource = texture.source.resource as CanvasImageSource | undefined;
+    if (!resource || typeof document === 'undefined') return null;
+
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = texture.source.pixelWidth;
+      canvas.height = texture.source.pixelHeight;
+
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (!context) return null;
+
+      context.drawImage(resource, 0, 0);
+      return context.getImageData(0, 0, canvas.width, canvas.height);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Trace a collider from a frame's alpha: the frame is cut into horizontal
+   * bands and each band becomes the box around its solid pixels
+   * @param pixels Pixels of the whole sheet
+   * @param frameX Left of the frame in the sheet
+   * @param frameY Top of the frame in the sheet
+   * @param width Frame width
+   * @param height Frame height
+   * @returns The collider, or null if the frame has no solid pixels
+   */
+  private generateCollider(pixels: ImageData, frameX: number, frameY: number, width: number, height: number): Collider | null {
+    const parts = [];
+
+    for (let band = 0; band < COLLIDER_BANDS; band++) {
+      const top = Math.floor((height * band) / COLLIDER_BANDS);
+      const bottom = Math.floor((height * (band + 1)) / COLLIDER_BANDS);
+      let minX = Infinity;
+      let minY = Infinity;
+      let maxX = -Infinity;
+      let maxY = -Infinity;
+
+      for (let y = top; y < bottom; y++) {
+        for (let x = 0; x < width; x++) {
+          const alpha = pixels.data[((frameY + y) * pixels.width + frameX + x) * 4 + 3];
+          if (alpha < COLLIDER_ALPHA_THRESHOLD) continue;
+
+          minX = Math.min(minX, x);
+          minY = Math.min(minY, y);
+          maxX = Math.max(maxX, x + 1);
+          maxY = Math.max(maxY, y + 1);
+        }
+      }
+
+      if (minX < maxX) {
+        parts.push(box(maxX - minX, maxY - minY, (minX + maxX - width) / 2, (minY + maxY - height) / 2));
+      }
+    }
+
+    if (parts.length === 0) return null;
+    return parts.length === 1 ? parts[0] : compound(...parts);
+  }
+
   /**
    * Are assets loaded?
    */
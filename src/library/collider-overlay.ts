@@ -0,0 +1,85 @@
+import { Graphics } from 'pixi.js';
+import { CollisionLayer } from '../core/collision';
+import type { CollisionWorld } from '../core/collision';
+
+/**
+ * Outline colour of each collision layer
+ */
+const LAYER_COLORS: Record<number, number> = {
+  [CollisionLayer.PLAYER]: 0x00FF00,
+  [CollisionLayer.PLAYER_BULLET]: 0x00FFFF,
+  [CollisionLayer.ENEMY]: 0xFF0000,
+  [CollisionLayer.ENEMY_BULLET]: 0xFF00FF,
+  [CollisionLayer.PICKUP]: 0xFFFF00,
+  [CollisionLayer.HAZARD]: 0xFF8800,
+};
+
+/**
+ * Debug overlay outlining every collider in the collision world, coloured by layer
+ */
+export class ColliderOverlay {
+  /**
+   * Graphics the outlines are drawn into
+   */
+  private graphics: Graphics = new Graphics();
+
+  /**
+   * Constructor
+   */
+  constructor() {
+    this.graphics.visible = false;
+  }
+
+  /**
+   * Show or hide the overlay
+   */
+  public toggle(): void {
+    this.graphics.visible = !this.graphics.visible;
+    this.graphics.clear();
+  }
+
+  /**
+   * Is the overlay shown?
+   */
+  public isVisible(): boolean {
+    return this.graphics.visible;
+  }
+
+  /**
+   * Outline the colliders as they were last placed in the world
+   * @param world The collision world
+   */
+  public draw(world: CollisionWorld): void {
+    if (!this.graphics.visible) return;
+
+    const graphics = this.graphics;
+    graphics.clear();
+
+    world.forEachBody((_entity, layer, shapes) => {
+      const color = LAYER_COLORS[layer] ?? 0xFFFFFF;
+
+      for (const shape of shapes) {
+        if (shape.circle) {
+          graphics.circle(shape.x, shape.y, shape.radius);
+        } else {
+          // Corners of the box, turned by its angle
+          const corners: number[] = [];
+          for (const [cornerX, cornerY] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+            const localX = cornerX * shape.halfWidth;
+            const localY = cornerY * shape.halfHeight;
+            corners.push(shape.x + localX * shape.cos - localY * shape.sin, shape.y + localX * shape.sin + localY * shape.cos);
+          }
+          graphics.poly(corners);
+        }
+        graphics.stroke({ width: 1, color });
+      }
+    });
+  }
+
+  /**
+   * Get the overlay's graphics
+   */
+  public getContainer(): Graphics {
+    return this.graphics;
+  }
+}
@@ -10,12 +10,33 @@ export enum ExplosionType {
   SONIC = 'sonic'  // For ship explosions
 }
 
+/**
+ * An explosion animation that is currently playing
+ */
+interface ActiveExplosion {
+  sprite: AnimatedSprite;
+  elapsed: number; // Seconds since the explosion started
+  onComplete?: () => void;
+}
+
 /**
  * Class to create and manage explosion animations
+ * Animations are advanced by the simulation (see update) rather than the PIXI ticker,
+ * so they follow the fixed timestep and also run headless
  */
 export class ExplosionManager {
   private static instance: ExplosionManager;
   
+  /**
+   * Duration of a single animation frame in seconds (12 frames per second)
+   */
+  private readonly frameDuration = 1 / 12;
+  
+  /**
+   * Explosions that are currently playing
+   */
+  private explosions: ActiveExplosion[] = [];
+  
   /**
    * Private constructor for singleton pattern
    */
@@ -73,29 +94,19 @@ export class ExplosionManager {
     // Create the animated sprite
     const explosion = new AnimatedSprite(frames);
     
-    // Configure the animated sprite
+    // Configure the animated sprite; frames are advanced in update()
+    explosion.autoUpdate = false;
     explosion.loop = false;
-    explosion.animationSpeed = 0.2; // Adjust for desired speed (0.5 = 30fps)
     explosion.anchor.set(0.5);
     explosion.position.set(x, y);
     explosion.scale.set(scale);
-    
-    // When the animation completes, remove the sprite
-    explosion.onComplete = () => {
-      if (explosion.parent) {
-        explosion.parent.removeChild(explosion);
-      }
-      if (onComplete) {
-        onComplete();
-      }
-      console.log(`${type} explosion animation complete at (${x}, ${y})`);
-    };
+    explosion.gotoAndStop(0);
     
     // Add to parent
     parent.addChild(explosion);
     
     // Start playing the animation
-    explosion.play();
+    this.explosions.push({ sprite: explosion, elapsed: 0, onComplete });
     
     // Get screen height (default to 800 if we can't determine it)
     const screenHeight = 800;
@@ -112,4 +123,39 @@ export class ExplosionManager {
     
     console.log(`Created ${type} explosion at (${x}, ${y}) with ${frames.length} frames`);
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Advance all playing explosions
+   * @param deltaTime Time since last update in seconds
+   */
+  public update(deltaTime: number): void {
+    for (let i = this.explosions.length - 1; i >= 0; i--) {
+      const explosion = this.explosions[i];
+      explosion.elapsed += deltaTime;
+      
+      const frame = Math.floor(explosion.elapsed / this.frameDuration);
+      
+      // When the animation completes, remove the sprite
+      if (frame >= explosion.sprite.totalFrames) {
+        this.explosions.splice(i, 1);
+        explosion.sprite.destroy();
+        if (explosion.onComplete) {
+          explosion.onComplete();
+        }
+        continue;
+      }
+      
+      explosion.sprite.gotoAndStop(frame);
+    }
+  }
+  
+  /**
+   * Remove all playing explosions without completing them
+   */
+  public clear(): void {
+    for (const explosion of this.explosions) {
+      explosion.sprite.destroy();
+    }
+    this.explosions = [];
+  }
+}
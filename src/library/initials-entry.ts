@@ -0,0 +1,148 @@
+import { Container, Text } from 'pixi.js';
+import { InputManager } from '../core/input-manager';
+import { SoundManager, SoundType } from './sound-manager';
+
+/**
+ * Characters each initial can be, in the order up and down step through them
+ */
+const CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+/**
+ * Arcade-style entry of three initials: up and down change the highlighted
+ * letter, space or right confirms it and moves on, left goes back. Letters
+ * can also be typed.
+ */
+export class InitialsEntry {
+  /**
+   * Number of initials
+   */
+  private static readonly LENGTH = 3;
+
+  /**
+   * Container for the letters
+   */
+  private container: Container = new Container();
+
+  /**
+   * Text objects, one per letter
+   */
+  private texts: Text[] = [];
+
+  /**
+   * Index into CHARACTERS of each letter
+   */
+  private letters: number[] = [];
+
+  /**
+   * Letter being chosen
+   */
+  private position: number = 0;
+
+  /**
+   * Constructor
+   */
+  constructor() {
+    for (let i = 0; i < InitialsEntry.LENGTH; i++) {
+      const text = new Text('', {
+        fontFamily: 'Courier New',
+        fontSize: 44,
+        fontWeight: 'bold',
+        fill: 0xFFFFFF,
+      });
+      text.anchor.set(0.5);
+      text.position.set((i - (InitialsEntry.LENGTH - 1) / 2) * 44, 0);
+      this.texts.push(text);
+      this.container.addChild(text);
+    }
+
+    this.reset();
+  }
+
+  /**
+   * Start again from AAA with the first letter highlighted
+   */
+  public reset(): void {
+    this.letters = new Array(InitialsEntry.LENGTH).fill(0);
+    this.position = 0;
+    this.refresh();
+  }
+
+  /**
+   * Handle input
+   * @param input The input manager to read just-pressed keys from
+   * @returns True once the last letter is confirmed
+   */
+  public handleInput(input: InputManager): boolean {
+    if (input.isKeyJustPressed('ArrowUp')) {
+      this.step(1);
+    } else if (input.isKeyJustPressed('ArrowDown')) {
+      this.step(-1);
+    } else if (input.isKeyJustPressed('ArrowLeft') || input.isKeyJustPressed('Backspace')) {
+      this.position = Math.max(0, this.position - 1);
+      this.refresh();
+    } else if (input.isKeyJustPressed('ArrowRight') || input.isKeyJustPressed(' ') || input.isKeyJustPressed('Enter')) {
+      return this.confirm();
+    } else {
+      // Typing a letter sets it and moves on
+      for (let i = 0; i < CHARACTERS.length; i++) {
+        if (input.isKeyJustPressed(CHARACTERS[i].toLowerCase())) {
+          this.letters[this.position] = i;
+          return this.confirm();
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Change the highlighted letter, wrapping around
+   * @param direction 1 for the next character, -1 for the previous one
+   */
+  private step(direction: number): void {
+    const current = this.letters[this.position];
+    this.letters[this.position] = (current + direction + CHARACTERS.length) % CHARACTERS.length;
+    SoundManager.getInstance().play(SoundType.UI_SELECT);
+    this.refresh();
+  }
+
+  /**
+   * Confirm the highlighted letter and move on to the next
+   * @returns True if it was the last letter
+   */
+  private confirm(): boolean {
+    SoundManager.getInstance().play(SoundType.UI_SELECT);
+
+    if (this.position === InitialsEntry.LENGTH - 1) {
+      return true;
+    }
+
+    this.position++;
+    this.refresh();
+    return false;
+  }
+
+  /**
+   * Show the letters, highlighting the one being chosen
+   */
+  private refresh(): void {
+    this.texts.forEach((text, index) => {
+      text.text = CHARACTERS[this.letters[index]];
+      text.style.fill = index === this.position ? 0xFFDD44 : 0xFFFFFF;
+    });
+  }
+
+  /**
+   * Get the initials entered
+   */
+  public getInitials(): string {
+    return this.letters.map((letter) => CHARACTERS[letter]).join('');
+  }
+
+  /**
+   * Get the container for the letters
+   */
+  public getContainer(): Container {
+    return this.container;
+  }
+}
@@ -0,0 +1,151 @@
+import { Container, Text } from 'pixi.js';
+import { InputManager } from '../core/input-manager';
+import { SoundManager, SoundType } from './sound-manager';
+
+/**
+ * A selectable menu entry
+ */
+export interface MenuItem {
+  /**
+   * Label, or a function producing it for entries that show a value
+   */
+  label: string | (() => string);
+
+  /**
+   * Called when the entry is confirmed (Enter or Space)
+   */
+  onSelect?: () => void;
+
+  /**
+   * Called when the entry is adjusted with left (-1) or right (+1)
+   */
+  onAdjust?: (direction: number) => void;
+}
+
+/**
+ * Vertical, keyboard-navigable list of menu entries
+ */
+export class Menu {
+  /**
+   * Container for the entries
+   */
+  private container: Container = new Container();
+
+  /**
+   * Text objects, one per entry
+   */
+  private texts: Text[] = [];
+
+  /**
+   * Index of the highlighted entry
+   */
+  private selectedIndex: number = 0;
+
+  /**
+   * Constructor
+   * @param items Menu entries
+   * @param spacing Vertical distance between entries
+   */
+  constructor(private items: MenuItem[], private spacing: number = 44) {
+    this.items.forEach((_item, index) => {
+      const text = new Text('', {
+        fontFamily: 'Arial',
+        fontSize: 28,
+        fill: 0xFFFFFF,
+      });
+      text.anchor.set(0.5);
+      text.position.set(0, index * this.spacing);
+      this.texts.push(text);
+      this.container.addChild(text);
+    });
+
+    this.refresh();
+  }
+
+  /**
+   * Handle navigation input
+   * @param input The input manager to read just-pressed keys from
+   */
+  public handleInput(input: InputManager): void {
+    if (input.isKeyJustPressed('ArrowUp')) {
+      this.moveSelection(-1);
+    } else if (input.isKeyJustPressed('ArrowDown')) {
+      this.moveSelection(1);
+    } else if (input.isKeyJustPressed('ArrowLeft')) {
+      this.adjust(-1);
+    } else if (input.isKeyJustPressed('ArrowRight')) {
+      this.adjust(1);
+    } else if (input.isKeyJustPressed('Enter') || input.isKeyJustPressed(' ')) {
+      this.select();
+    }
+  }
+
+  /**
+   * Move the highlight, wrapping around
+   * @param direction -1 for up, 1 for down
+   */
+  public moveSelection(direction: number): void {
+    this.selectedIndex = (this.selectedIndex + direction + this.items.length) % this.items.length;
+    SoundManager.getInstance().play(SoundType.UI_SELECT);
+    this.refresh();
+  }
+
+  /**
+   * Confirm the highlighted entry
+   */
+  public select(): void {
+    const item = this.items[this.selectedIndex];
+    if (item.onSelect) {
+      SoundManager.getInstance().play(SoundType.UI_SELECT);
+      item.onSelect();
+      this.refresh();
+    }
+  }
+
+  /**
+   * Adjust the highlighted entry
+   * @param direction -1 for left, 1 for right
+   */
+  public adjust(direction: number): void {
+    const item = this.items[this.selectedIndex];
+    if (item.onAdjust) {
+      item.onAdjust(direction);
+      SoundManager.getInstance().play(SoundType.UI_SELECT);
+      this.refresh();
+    }
+  }
+
+  /**
+   * Highlight the first entry
+   */
+  public reset(): void {
+    this.selectedIndex = 0;
+    this.refresh();
+  }
+
+  /**
+   * Get the index of the highlighted entry
+   */
+  public getSelectedIndex(): number {
+    return this.selectedIndex;
+  }
+
+  /**
+   * Redraw labels and the highlight
+   */
+  public refresh(): void {
+    this.items.forEach((item, index) => {
+      const label = typeof item.label === 'function' ? item.label() : item.label;
+      const selected = index === this.selectedIndex;
+      this.texts[index].text = selected ? `> ${label} <` : label;
+      this.texts[index].style.fill = selected ? 0xFFDD44 : 0xFFFFFF;
+    });
+  }
+
+  /**
+   * Get the menu container
+   */
+  public getContainer(): Container {
+    return this.container;
+  }
+}
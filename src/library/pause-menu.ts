@@ -0,0 +1,172 @@
+import { Container, Graphics, Text } from 'pixi.js';
+import { InputManager } from '../core/input-manager';
+import { Menu } from './menu';
+import { SoundManager } from './sound-manager';
+
+/**
+ * Actions the pause menu can trigger
+ */
+export interface PauseMenuActions {
+  onResume: () => void;
+  onRestart: () => void;
+  onQuit: () => void;
+}
+
+/**
+ * Pause overlay: dims the scene and shows the pause and settings menus
+ */
+export class PauseMenu {
+  /**
+   * Overlay container
+   */
+  private container: Container = new Container();
+
+  /**
+   * Dimming layer over the scene
+   */
+  private dim: Graphics = new Graphics();
+
+  /**
+   * Title text
+   */
+  private titleText: Text;
+
+  /**
+   * Main pause menu
+   */
+  private mainMenu: Menu;
+
+  /**
+   * Settings sub-menu
+   */
+  private settingsMenu: Menu;
+
+  /**
+   * Whether the settings sub-menu is open
+   */
+  private showingSettings: boolean = false;
+
+  /**
+   * Constructor
+   * @param actions Callbacks for the menu entries
+   * @param width Screen width
+   * @param height Screen height
+   */
+  constructor(private actions: PauseMenuActions, private width: number, private height: number) {
+    const soundManager = SoundManager.getInstance();
+
+    this.titleText = new Text('PAUSED', {
+      fontFamily: 'Arial',
+      fontSize: 48,
+      fontWeight: 'bold',
+      fill: 0xFFFFFF,
+    });
+    this.titleText.anchor.set(0.5);
+
+    this.mainMenu = new Menu([
+      { label: 'Resume', onSelect: () => this.actions.onResume() },
+      { label: 'Restart', onSelect: () => this.actions.onRestart() },
+      { label: 'Settings', onSelect: () => this.showSettings(true) },
+      { label: 'Quit to title', onSelect: () => this.actions.onQuit() },
+    ]);
+
+    this.settingsMenu = new Menu([
+      {
+        label: () => `Volume: ${Math.round(soundManager.getVolume() * 100)}%`,
+        onAdjust: (direction) => soundManager.setVolume(soundManager.getVolume() + direction * 0.05),
+      },
+      {
+        label: () => `Sound: ${soundManager.isMuted() ? 'Off' : 'On'}`,
+        onSelect: () => soundManager.setMuted(!soundManager.isMuted()),
+        onAdjust: () => soundManager.setMuted(!soundManager.isMuted()),
+      },
+      { label: 'Back', onSelect: () => this.showSettings(false) },
+    ]);
+
+    this.container.addChild(this.dim);
+    this.container.addChild(this.titleText);
+    this.container.addChild(this.mainMenu.getContainer());
+    this.container.addChild(this.settingsMenu.getContainer());
+
+    this.showSettings(false);
+    this.resize(width, height);
+    this.container.visible = false;
+  }
+
+  /**
+   * Show the overlay with the main menu highlighted at the top
+   */
+  public show(): void {
+    this.mainMenu.reset();
+    this.showSettings(false);
+    this.container.visible = true;
+  }
+
+  /**
+   * Hide the overlay
+   */
+  public hide(): void {
+    this.container.visible = false;
+  }
+
+  /**
+   * Handle menu navigation
+   * @param input The input manager
+   */
+  public handleInput(input: InputManager): void {
+    // Escape or P backs out of settings, or resumes from the main menu
+    if (input.isKeyJustPressed('Escape') || input.isKeyJustPressed('p')) {
+      if (this.showingSettings) {
+        this.showSettings(false);
+      } else {
+        this.actions.onResume();
+      }
+      return;
+    }
+
+    if (this.showingSettings) {
+      this.settingsMenu.handleInput(input);
+    } else {
+      this.mainMenu.handleInput(input);
+    }
+  }
+
+  /**
+   * Switch between the main and settings menus
+   * @param show Whether to show the settings menu
+   */
+  private showSettings(show: boolean): void {
+    this.showingSettings = show;
+    this.mainMenu.getContainer().visible = !show;
+    this.settingsMenu.getContainer().visible = show;
+    this.titleText.text = show ? 'SETTINGS' : 'PAUSED';
+
+    if (show) {
+      this.settingsMenu.reset();
+    }
+  }
+
+  /**
+   * Resize the overlay
+   * @param width New width
+   * @param height New height
+   */
+  public resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+
+    this.dim.clear();
+    this.dim.rect(0, 0, this.width, this.height).fill({ color: 0x000000, alpha: 0.6 });
+
+    this.titleText.position.set(this.width / 2, this.height / 2 - 140);
+    this.mainMenu.getContainer().position.set(this.width / 2, this.height / 2 - 60);
+    this.settingsMenu.getContainer().position.set(this.width / 2, this.height / 2 - 60);
+  }
+
+  /**
+   * Get the overlay container
+   */
+  public getContainer(): Container {
+    return this.container;
+  }
+}
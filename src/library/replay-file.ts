@@ -0,0 +1,54 @@
+import { Replay } from '../core/replay';
+
+/**
+ * Browser helpers for exporting and importing replay files
+ */
+export class ReplayFile {
+  /**
+   * Download a replay as a JSON file
+   * @param replay The replay to export
+   */
+  public static download(replay: Replay): void {
+    const blob = new Blob([replay.toJSON()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `space-shooter-replay-${replay.seed}.json`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Let the player pick a replay file
+   * @returns The parsed replay, or null if nothing valid was picked
+   */
+  public static open(): Promise<Replay | null> {
+    return new Promise<Replay | null>((resolve) => {
+      const fileInput = document.createElement('input');
+      fileInput.type = 'file';
+      fileInput.accept = '.json,application/json';
+
+      // Closing the dialog without picking a file fires no change event
+      fileInput.addEventListener('cancel', () => resolve(null));
+
+      fileInput.addEventListener('change', async () => {
+        const file = fileInput.files?.[0];
+        if (!file) {
+          resolve(null);
+          return;
+        }
+
+        try {
+          resolve(Replay.fromJSON(await file.text()));
+        } catch (error) {
+          console.warn('Could not load replay:', error);
+          resolve(null);
+        }
+      });
+
+      fileInput.click();
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import { Container, Text } from 'pixi.js';
+
+/**
+ * A popup on its way up
+ */
+interface ScorePopup {
+  text: Text;
+  age: number; // Seconds since it appeared
+}
+
+/**
+ * Points that float up from where they were scored and fade away
+ */
+export class ScorePopups {
+  /**
+   * Container the popups are drawn in
+   */
+  private container: Container = new Container();
+
+  /**
+   * Popups still showing
+   */
+  private popups: ScorePopup[] = [];
+
+  /**
+   * Seconds a popup lasts
+   */
+  private readonly lifetime: number = 0.9;
+
+  /**
+   * How fast popups rise in pixels per second
+   */
+  private readonly riseSpeed: number = 50;
+
+  /**
+   * Show a popup
+   * @param message What it says, usually the points
+   * @param x Center x position
+   * @param y Center y position
+   * @param color Text colour
+   * @param fontSize Font size; bigger for bigger scores
+   */
+  public show(message: string, x: number, y: number, color: number = 0xFFFFFF, fontSize: number = 16): void {
+    const text = new Text(message, {
+      fontFamily: 'Arial',
+      fontSize,
+      fontWeight: 'bold',
+      fill: color,
+      stroke: { color: 0x000000, width: 3 },
+    });
+    text.anchor.set(0.5);
+    text.position.set(x, y);
+
+    this.container.addChild(text);
+    this.popups.push({ text, age: 0 });
+  }
+
+  /**
+   * Float the popups up, fading them out
+   * @param deltaTime Time since last update in seconds
+   */
+  public update(deltaTime: number): void {
+    for (const popup of this.popups) {
+      popup.age += deltaTime;
+      popup.text.y -= this.riseSpeed * deltaTime;
+      popup.text.alpha = Math.max(0, 1 - popup.age / this.lifetime);
+    }
+
+    // Remove popups that have faded out
+    this.popups = this.popups.filter((popup) => {
+      if (popup.age < this.lifetime) return true;
+
+      popup.text.destroy();
+      return false;
+    });
+  }
+
+  /**
+   * Remove every popup
+   */
+  public clear(): void {
+    for (const popup of this.popups) {
+      popup.text.destroy();
+    }
+    this.popups = [];
+  }
+
+  /**
+   * Get the container the popups are drawn in
+   */
+  public getContainer(): Container {
+    return this.container;
+  }
+}
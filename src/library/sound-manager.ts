@@ -11,7 +11,19 @@ export enum SoundType {
   PLAYER_DAMAGE = 'playerDamage',
   GAME_OVER = 'gameOver',
   UI_SELECT = 'uiSelect',
-  SHIELD_ACTIVATE = 'shieldActivate'
+  SHIELD_ACTIVATE = 'shieldActivate',
+  WEAPON_UPGRADE = 'weaponUpgrade',
+  MISSILE_LAUNCH = 'missileLaunch',
+  MISSILE_REFILL = 'missileRefill',
+  RAPID_FIRE = 'rapidFire',
+  SPEED_BOOST = 'speedBoost',
+  EXTRA_LIFE = 'extraLife',
+  SCORE_MULTIPLIER = 'scoreMultiplier',
+  HEALTH_REPAIR = 'healthRepair',
+  BOMB = 'bomb',
+  BOSS_WARNING = 'bossWarning',
+  BOSS_BEAM = 'bossBeam',
+  BOSS_DEFEATED = 'bossDefeated'
 }
 
 /**
@@ -137,6 +149,20 @@ export class SoundManager {
     Howler.mute(muted);
   }
 
+  /**
+   * Are sounds muted?
+   */
+  public isMuted(): boolean {
+    return this.muted;
+  }
+
+  /**
+   * Get master volume (0.0 to 1.0)
+   */
+  public getVolume(): number {
+    return this.masterVolume;
+  }
+
   /**
    * Set master volume
    * @param volume Volume level (0.0 to 1.0)
@@ -184,7 +210,27 @@ export class SoundManager {
       { key: SoundType.UI_SELECT, path: 'assets/audio/computerNoise_002.ogg', volume: 0.5, loop: false },
       
       // Shield activation sound - using doorClose instead of powerUp
-      { key: SoundType.SHIELD_ACTIVATE, path: 'assets/audio/doorClose_002.ogg', volume: 0.6, loop: false }
+      { key: SoundType.SHIELD_ACTIVATE, path: 'assets/audio/doorClose_002.ogg', volume: 0.6, loop: false },
+      
+      // Weapon upgrade sound - using doorOpen
+      { key: SoundType.WEAPON_UPGRADE, path: 'assets/audio/doorOpen_001.ogg', volume: 0.6, loop: false },
+      
+      // Missile launch sound - using thrusterFire
+      { key: SoundType.MISSILE_LAUNCH, path: 'assets/audio/thrusterFire_000.ogg', volume: 0.5, loop: false },
+      
+      // Power-up pickup sounds
+      { key: SoundType.MISSILE_REFILL, path: 'assets/audio/doorOpen_000.ogg', volume: 0.6, loop: false },
+      { key: SoundType.RAPID_FIRE, path: 'assets/audio/laserRetro_000.ogg', volume: 0.6, loop: false },
+      { key: SoundType.SPEED_BOOST, path: 'assets/audio/engineCircular_000.ogg', volume: 0.6, loop: false },
+      { key: SoundType.EXTRA_LIFE, path: 'assets/audio/forceField_003.ogg', volume: 0.6, loop: false },
+      { key: SoundType.SCORE_MULTIPLIER, path: 'assets/audio/computerNoise_001.ogg', volume: 0.6, loop: false },
+      { key: SoundType.HEALTH_REPAIR, path: 'assets/audio/forceField_001.ogg', volume: 0.6, loop: false },
+      { key: SoundType.BOMB, path: 'assets/audio/lowFrequency_explosion_001.ogg', volume: 0.8, loop: false },
+      
+      // Boss sounds
+      { key: SoundType.BOSS_WARNING, path: 'assets/audio/spaceEngineLarge_000.ogg', volume: 0.7, loop: false },
+      { key: SoundType.BOSS_BEAM, path: 'assets/audio/laserLarge_000.ogg', volume: 0.7, loop: false },
+      { key: SoundType.BOSS_DEFEATED, path: 'assets/audio/explosionCrunch_004.ogg', volume: 0.8, loop: false }
     ];
 
     try {
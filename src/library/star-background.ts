@@ -1,4 +1,5 @@
 import { Container, Graphics } from 'pixi.js';
+import { RandomService, RandomStream } from '../core/random';
 
 /**
  * Star properties
@@ -7,7 +8,7 @@ interface Star {
   x: number;
   y: number;
   size: number;
-  speed: number;
+  speed: number; // Pixels per second
   alpha: number;
   color: number;
 }
@@ -75,8 +76,10 @@ export class StarBackground {
    * Create a single star with random properties
    */
   private createStar(): Star {
+    const random = RandomService.getInstance().getStream(RandomStream.STARS);
+    
     // Determine star layer (foreground, mid-ground, background)
-    const layer = Math.random();
+    const layer = random.next();
     
     let size: number;
     let speed: number;
@@ -84,23 +87,23 @@ export class StarBackground {
     
     if (layer < 0.2) {
       // Foreground stars: larger, faster, brighter
-      size = 1.5 + Math.random() * 1.5;
-      speed = 0.3 + Math.random() * 0.3;
-      alpha = 0.8 + Math.random() * 0.2;
+      size = 1.5 + random.next() * 1.5;
+      speed = 1080 + random.next() * 1080;
+      alpha = 0.8 + random.next() * 0.2;
     } else if (layer < 0.5) {
       // Mid-ground stars: medium size, medium speed
-      size = 0.8 + Math.random() * 1.2;
-      speed = 0.15 + Math.random() * 0.15;
-      alpha = 0.6 + Math.random() * 0.3;
+      size = 0.8 + random.next() * 1.2;
+      speed = 540 + random.next() * 540;
+      alpha = 0.6 + random.next() * 0.3;
     } else {
       // Background stars: smaller, slower, dimmer
-      size = 0.3 + Math.random() * 0.7;
-      speed = 0.05 + Math.random() * 0.1;
-      alpha = 0.3 + Math.random() * 0.4;
+      size = 0.3 + random.next() * 0.7;
+      speed = 180 + random.next() * 360;
+      alpha = 0.3 + random.next() * 0.4;
     }
     
     // Determine star color (mostly white with occasional blue or yellow tint)
-    const colorChoice = Math.random();
+    const colorChoice = random.next();
     let color: number;
     
     if (colorChoice < 0.7) {
@@ -115,8 +118,8 @@ export class StarBackground {
     }
     
     return {
-      x: Math.random() * this.width,
-      y: Math.random() * this.height,
+      x: random.next() * this.width,
+      y: random.next() * this.height,
       size,
       speed,
       alpha,
@@ -126,12 +129,14 @@ export class StarBackground {
   
   /**
    * Update star positions
-   * @param deltaTime Time since last update
+   * @param deltaTime Time since last update in seconds
    */
   public update(deltaTime: number): void {
     // Clear previous frame
     this.starGraphics.clear();
     
+    const random = RandomService.getInstance().getStream(RandomStream.STARS);
+    
     // Speed multiplier to slow down the stars to half speed
     const speedMultiplier = 0.5;
     
@@ -141,12 +146,12 @@ export class StarBackground {
       
       // Update position - move downward to simulate forward motion
       // Apply speedMultiplier to slow down movement
-      star.y += star.speed * deltaTime * 60 * speedMultiplier;
+      star.y += star.speed * deltaTime * speedMultiplier;
       
       // If star moves off screen, reset it to the top with new random properties
       if (star.y > this.height) {
         star.y = 0;
-        star.x = Math.random() * this.width;
+        star.x = random.next() * this.width;
       }
       
       // Draw the star
@@ -165,13 +170,15 @@ export class StarBackground {
     this.width = width;
     this.height = height;
     
+    const random = RandomService.getInstance().getStream(RandomStream.STARS);
+    
     // Adjust star positions to fit new dimensions
     for (const star of this.stars) {
       if (star.x > width) {
-        star.x = Math.random() * width;
+        star.x = random.next() * width;
       }
       if (star.y > height) {
-        star.y = Math.random() * height;
+        star.y = random.next() * height;
       }
     }
   }
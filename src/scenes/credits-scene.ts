@@ -0,0 +1,54 @@
+import { MenuScene } from './menu-scene';
+import type { MenuItem } from '../library/menu';
+
+/**
+ * Actions the credits screen can trigger
+ */
+export interface CreditsSceneActions {
+  onBack: () => void;
+}
+
+/**
+ * Credits for the code, art, sound and libraries
+ */
+export class CreditsScene extends MenuScene {
+  /**
+   * Constructor
+   * @param actions Callbacks for the menu entries
+   */
+  constructor(private actions: CreditsSceneActions) {
+    super('CREDITS');
+  }
+
+  /**
+   * Initialize the scene
+   */
+  public init(): void {
+    super.init();
+    this.setInfo([
+      'Code',
+      'Chad Neff (ineffably)',
+      '',
+      'Sprites and sound effects',
+      'Kenney (kenney.nl)',
+      '',
+      'Built with PixiJS and Howler.js',
+    ].join('\n'));
+  }
+
+  /**
+   * Create the credits menu
+   */
+  protected createMenuItems(): MenuItem[] {
+    return [
+      { label: 'Back', onSelect: () => this.actions.onBack() },
+    ];
+  }
+
+  /**
+   * Go back to the title screen
+   */
+  protected onBack(): void {
+    this.actions.onBack();
+  }
+}
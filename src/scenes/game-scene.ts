@@ -1,12 +1,71 @@
-import { Container, Sprite, Text } from 'pixi.js';
-import { Scene } from './scene';
+import { Container, Graphics, Sprite, Text } from 'pixi.js';
+import { Scene, SceneName } from './scene';
 import { InputManager } from '../core/input-manager';
 import { PlayerShip } from '../entities/player-ship';
-import { EnemyShip, EnemyType } from '../entities/enemy-ship';
+import { EnemyShip } from '../entities/enemy-ship';
+import { BossShip } from '../entities/boss-ship';
+import { Meteor } from '../entities/meteor';
+import type { Entity } from '../entities/entity';
 import { AssetLoader } from '../library/asset-loader';
 import { StarBackground } from '../library/star-background';
 import { SoundManager, SoundType } from '../library/sound-manager';
-import { PowerUp, PowerUpType } from '../entities/power-up';
+import { PowerUp, PowerUpType, POWER_UPS } from '../entities/power-up';
+import type { Missile } from '../entities/missile';
+import type { Projectile } from '../entities/projectile';
+import { ExplosionManager, ExplosionType } from '../library/explosion-manager';
+import { RandomService } from '../core/random';
+import { Replay, ReplayPlayer, ReplayRecorder } from '../core/replay';
+import { ReplayFile } from '../library/replay-file';
+import { SceneManager } from '../core/scene-manager';
+import { FadeTransition } from '../core/scene-transition';
+import { GameMode, GAME_MODES } from '../core/game-mode';
+import type { GameModeConfig } from '../core/game-mode';
+import { LootTable } from '../core/loot-table';
+import { BOSS_LOOT } from '../data/loot-tables';
+import { WaveDirector } from '../core/wave-director';
+import type { MeteorRequest, SpawnRequest } from '../core/wave-director';
+import type { EnemyFormation } from '../core/enemy-formation';
+import { CollisionWorld, CollisionLayer } from '../core/collision';
+import { ColliderOverlay } from '../library/collider-overlay';
+import { ScoreService } from '../core/score-service';
+import { ScorePopups } from '../library/score-popups';
+import { BOSS_SCORE, ENEMY_SCORES, METEOR_SCORES } from '../data/scoring';
+import { HighScores } from '../core/high-scores';
+import { InitialsEntry } from '../library/initials-entry';
+
+/**
+ * Game scene options
+ */
+export interface GameSceneOptions {
+  /**
+   * Skip purely cosmetic elements (background, stars) so the gameplay
+   * loop can be stepped without a renderer, e.g. in Node
+   */
+  headless?: boolean;
+  
+  /**
+   * Seed for the first run; a fresh seed is used when omitted
+   */
+  seed?: number;
+  
+  /**
+   * Game mode of the first run (classic when omitted)
+   */
+  mode?: GameMode;
+}
+
+/**
+ * Summary of a finished run
+ */
+export interface RunResult {
+  mode: GameMode;
+  seed: number;
+  score: number;
+  wave: number; // Wave reached
+  gameTime: number; // Seconds survived
+  replay: Replay | null;
+  highScoreRank: number; // Position in the mode's high score table, or -1
+}
 
 /**
  * Main gameplay scene
@@ -33,24 +92,74 @@ export class GameScene extends Scene {
   private enemies: EnemyShip[] = [];
   
   /**
-   * Enemy spawn timer
+   * Boss currently on screen
+   */
+  private boss: BossShip | null = null;
+  
+  /**
+   * Formations holding near the top of the screen
+   */
+  private formations: EnemyFormation[] = [];
+  
+  /**
+   * Meteors drifting through the scene
+   */
+  private meteors: Meteor[] = [];
+  
+  /**
+   * Speed in pixels per second at which the player and what they collide with bounce apart
+   */
+  private readonly knockbackImpulse: number = 420;
+  
+  /**
+   * Everything that can collide, filed afresh each step
+   */
+  private collisionWorld: CollisionWorld = new CollisionWorld();
+  
+  /**
+   * Debug outlines of the colliders, toggled with F2
+   */
+  private colliderOverlay: ColliderOverlay = new ColliderOverlay();
+  
+  /**
+   * Distance from the player's center within which enemy fire that misses counts as a graze
    */
-  private enemySpawnTimer: number = 0;
+  private readonly grazeRadius: number = 32;
   
   /**
-   * Enemy spawn interval in seconds
+   * Points for each graze, before the score multiplier
    */
-  private enemySpawnInterval: number = 3;
+  private readonly grazePoints: number = 20;
   
   /**
-   * Min spawn interval
+   * How much of the graze meter each graze fills
    */
-  private minSpawnInterval: number = 1.5;
+  private readonly grazeMeterGain: number = 0.05;
   
   /**
-   * Spawn interval decrease rate
+   * Points for filling the graze meter, before the score multiplier
    */
-  private spawnIntervalDecreaseRate: number = 0.01;
+  private readonly grazeBonus: number = 2000;
+  
+  /**
+   * Enemy shots in the graze zone, scored once they get clear without hitting
+   */
+  private grazingShots: Projectile[] = [];
+  
+  /**
+   * Shots grazed this run
+   */
+  private grazeCount: number = 0;
+  
+  /**
+   * How full the graze meter is (0-1)
+   */
+  private grazeMeter: number = 0;
+  
+  /**
+   * Runs the levels and waves, deciding what spawns when
+   */
+  private waveDirector: WaveDirector | null = null;
   
   /**
    * Game time in seconds
@@ -58,21 +167,36 @@ export class GameScene extends Scene {
   private gameTime: number = 0;
   
   /**
-   * Score
+   * Keeps the score, the kill chain and the wave bonuses
    */
-  private score: number = 0;
+  private scoreService: ScoreService = new ScoreService();
+  
+  /**
+   * Points floating up where they were scored
+   */
+  private scorePopups: ScorePopups = new ScorePopups();
   
   /**
    * Input manager
    */
   private inputManager: InputManager;
   
+  /**
+   * Pauses the game when the window loses focus; listening only while the scene is active
+   */
+  private readonly blurListener = (): void => this.pause();
+  
   /**
    * Screen dimensions
    */
   private screenWidth: number = 500;
   private screenHeight: number = 800;
   
+  /**
+   * Layer holding ships, projectiles, power-ups and explosions (below the UI)
+   */
+  private entityLayer: Container = new Container();
+  
   /**
    * UI container
    */
@@ -88,6 +212,73 @@ export class GameScene extends Scene {
    */
   private livesText: Text | null = null;
   
+  /**
+   * Weapon text
+   */
+  private weaponText: Text | null = null;
+  
+  /**
+   * Missile ammo text
+   */
+  private missileText: Text | null = null;
+  
+  /**
+   * Timed power-up effects text
+   */
+  private effectsText: Text | null = null;
+  
+  /**
+   * Boss health bar
+   */
+  private bossBar: Graphics | null = null;
+  
+  /**
+   * Boss name above the health bar
+   */
+  private bossNameText: Text | null = null;
+  
+  /**
+   * Level and wave banner
+   */
+  private bannerText: Text | null = null;
+  
+  /**
+   * Second line of the banner
+   */
+  private bannerSubtitleText: Text | null = null;
+  
+  /**
+   * Seconds the banner stays up
+   */
+  private bannerTimer: number = 0;
+  
+  /**
+   * Wave number text
+   */
+  private waveText: Text | null = null;
+  
+  /**
+   * Graze count text and meter
+   */
+  private grazeText: Text | null = null;
+  private grazeBar: Graphics | null = null;
+  
+  /**
+   * Kill chain text and multiplier, with its time left
+   */
+  private comboText: Text | null = null;
+  private comboBar: Graphics | null = null;
+  
+  /**
+   * Warning banner shown while a boss enters
+   */
+  private bossWarningText: Text | null = null;
+  
+  /**
+   * White flash shown when a bomb goes off
+   */
+  private bombFlash: Graphics | null = null;
+  
   /**
    * Game over UI elements
    */
@@ -108,11 +299,56 @@ export class GameScene extends Scene {
    */
   private restartText: Text | null = null;
   
+  /**
+   * Replay options text on the game over screen
+   */
+  private replayOptionsText: Text | null = null;
+  
+  /**
+   * Replay indicator shown while watching a replay
+   */
+  private replayIndicatorText: Text | null = null;
+  
+  /**
+   * Initials entry shown on the game over screen after a high score
+   */
+  private initialsEntry: InitialsEntry | null = null;
+  
+  /**
+   * Is the player entering initials for a high score?
+   */
+  private enteringInitials: boolean = false;
+  
+  /**
+   * Position of the run in the high score table, or -1 if it is not there
+   */
+  private highScoreRank: number = -1;
+  
   /**
    * Whether the game is over
    */
   private isGameOver: boolean = false;
   
+  /**
+   * Whether the simulation is paused
+   */
+  private isPaused: boolean = false;
+  
+  /**
+   * Callback when the player leaves the game over screen
+   */
+  private runFinishedCallback: ((result: RunResult) => void) | null = null;
+  
+  /**
+   * Callback to show the high score table from the game over screen
+   */
+  private highScoresCallback: ((mode: GameMode, highlight: number) => void) | null = null;
+  
+  /**
+   * Game mode of the current run
+   */
+  private mode: GameModeConfig;
+  
   /**
    * Update listeners for animations
    */
@@ -123,12 +359,48 @@ export class GameScene extends Scene {
    */
   private powerUps: PowerUp[] = [];
   
+  /**
+   * Rolls enemy drops for the current run
+   */
+  private lootTable: LootTable;
+  
+  /**
+   * Whether the scene runs without cosmetic elements
+   */
+  private readonly headless: boolean;
+  
+  /**
+   * Seed of the current run
+   */
+  private seed: number;
+  
+  /**
+   * Records the input of the current run
+   */
+  private replayRecorder: ReplayRecorder;
+  
+  /**
+   * Plays back recorded input while watching a replay
+   */
+  private replayPlayer: ReplayPlayer | null = null;
+  
+  /**
+   * Replay of the last finished (or watched) run
+   */
+  private lastReplay: Replay | null = null;
+  
   /**
    * Constructor
+   * @param options Scene options
    */
-  constructor() {
+  constructor(options: GameSceneOptions = {}) {
     super();
     
+    this.headless = options.headless ?? false;
+    this.mode = GAME_MODES[options.mode ?? GameMode.CLASSIC];
+    this.seed = options.seed ?? this.mode.createSeed();
+    this.replayRecorder = new ReplayRecorder(this.mode.mode, this.seed);
+    this.lootTable = new LootTable(this.mode.mode);
     this.inputManager = InputManager.getInstance();
   }
   
@@ -139,19 +411,32 @@ export class GameScene extends Scene {
     // Set master volume to 50% (0.35 instead of default 0.7)
     SoundManager.getInstance().setVolume(0.35);
     
-    // Create static background for base color
-    this.backgroundSprite = new Sprite(AssetLoader.getInstance().getTexture('black'));
-    this.backgroundSprite.width = this.screenWidth;
-    this.backgroundSprite.height = this.screenHeight;
-    this.container.addChild(this.backgroundSprite);
+    // Seed all gameplay randomness for this run
+    RandomService.getInstance().setSeed(this.seed);
+    
+    if (!this.headless) {
+      // Create static background for base color
+      this.backgroundSprite = new Sprite(AssetLoader.getInstance().getTexture('black'));
+      this.backgroundSprite.width = this.screenWidth;
+      this.backgroundSprite.height = this.screenHeight;
+      this.container.addChild(this.backgroundSprite);
+      
+      // Create scrolling star background
+      this.starBackground = new StarBackground(this.screenWidth, this.screenHeight);
+      this.container.addChild(this.starBackground.getContainer());
+    }
     
-    // Create scrolling star background
-    this.starBackground = new StarBackground(this.screenWidth, this.screenHeight);
-    this.container.addChild(this.starBackground.getContainer());
+    // Entities live on their own layer, below the UI
+    this.container.addChild(this.entityLayer);
+    this.container.addChild(this.scorePopups.getContainer());
+    this.container.addChild(this.colliderOverlay.getContainer());
     
     // Initialize game entities
     this.initializeEntities();
     
+    // Start the first level
+    this.startWaves();
+    
     // Initialize UI
     this.initializeUI();
     
@@ -166,6 +451,22 @@ export class GameScene extends Scene {
     this.gameOverContainer.visible = false;
   }
   
+  /**
+   * Activate the scene, pausing it whenever the window loses focus
+   */
+  public activate(): void {
+    super.activate();
+    this.inputManager.addBlurListener(this.blurListener);
+  }
+  
+  /**
+   * Deactivate the scene; a scene that is off screen no longer pauses on blur
+   */
+  public deactivate(): void {
+    super.deactivate();
+    this.inputManager.removeBlurListener(this.blurListener);
+  }
+  
   /**
    * Initialize game entities
    */
@@ -177,10 +478,40 @@ export class GameScene extends Scene {
       this.screenWidth,
       this.screenHeight
     );
-    this.container.addChild(this.player.getContainer());
+    this.entityLayer.addChild(this.player.getContainer());
+    this.player.setLives(this.mode.lives);
     
     // Set game over callback
     this.player.setGameOverCallback(() => this.gameOver());
+    
+    // Missiles home in on enemies that are still alive and blast everything nearby
+    this.player.setMissileTargets(() => this.getMissileTargets());
+    this.player.setMissileDetonationCallback((missile) => this.applyMissileBlast(missile));
+    
+    // Shots and hits count towards the score's accuracy and no damage bonuses
+    this.player.setShotCallback((count) => this.scoreService.recordShots(count));
+    this.player.setDamageCallback(() => this.scoreService.recordDamage());
+  }
+  
+  /**
+   * Create a wave director for a new run and start its first level
+   */
+  private startWaves(): void {
+    this.waveDirector = new WaveDirector(this.screenWidth, this.screenHeight);
+    
+    this.waveDirector.setSpawnCallback((request) => this.spawnEnemy(request));
+    this.waveDirector.setMeteorCallback((request) => this.spawnMeteor(request));
+    this.waveDirector.setBossCallback(() => this.spawnBoss());
+    this.waveDirector.setBannerCallback((title, subtitle) => this.showBanner(title, subtitle));
+    this.waveDirector.setWaveEndCallback((waveNumber) => this.onWaveEnd(waveNumber));
+    this.waveDirector.setHostileCountProvider(() =>
+      this.enemies.filter((enemy) => enemy.isActive() && !enemy.isDestroyed()).length +
+      this.meteors.filter((meteor) => meteor.isActive()).length +
+      (this.boss ? 1 : 0)
+    );
+    this.waveDirector.setBossActiveProvider(() => this.boss !== null);
+    
+    this.waveDirector.start();
   }
   
   /**
@@ -204,6 +535,135 @@ export class GameScene extends Scene {
     });
     this.livesText.position.set(20, 50);
     this.uiContainer.addChild(this.livesText);
+    
+    // Create weapon text
+    this.weaponText = new Text('Laser', {
+      fontFamily: 'Arial',
+      fontSize: 18,
+      fill: 0x88CCFF,
+    });
+    this.weaponText.position.set(20, 80);
+    this.uiContainer.addChild(this.weaponText);
+    
+    // Create missile ammo text
+    this.missileText = new Text('Missiles: 3', {
+      fontFamily: 'Arial',
+      fontSize: 18,
+      fill: 0xFF8866,
+    });
+    this.missileText.position.set(20, 104);
+    this.uiContainer.addChild(this.missileText);
+    
+    // Create timed effects text, one line per active effect
+    this.effectsText = new Text('', {
+      fontFamily: 'Arial',
+      fontSize: 18,
+      fill: 0xFFEE66,
+      lineHeight: 22,
+    });
+    this.effectsText.position.set(20, 128);
+    this.uiContainer.addChild(this.effectsText);
+    
+    // Create wave number text
+    this.waveText = new Text('Wave 1', {
+      fontFamily: 'Arial',
+      fontSize: 18,
+      fill: 0xFFFFFF,
+    });
+    this.waveText.anchor.set(1, 0);
+    this.waveText.position.set(this.screenWidth - 20, 50);
+    this.uiContainer.addChild(this.waveText);
+    
+    // Create graze count text, with the meter drawn beneath it
+    this.grazeText = new Text('Graze: 0', {
+      fontFamily: 'Arial',
+      fontSize: 18,
+      fill: 0x99DDFF,
+    });
+    this.grazeText.anchor.set(1, 0);
+    this.grazeText.position.set(this.screenWidth - 20, 74);
+    this.uiContainer.addChild(this.grazeText);
+    
+    this.grazeBar = new Graphics();
+    this.uiContainer.addChild(this.grazeBar);
+    
+    // Create kill chain text, with the time left to extend it drawn beneath it
+    this.comboText = new Text('', {
+      fontFamily: 'Arial',
+      fontSize: 22,
+      fontWeight: 'bold',
+      fill: 0xFFDD44,
+    });
+    this.comboText.anchor.set(1, 0);
+    this.comboText.position.set(this.screenWidth - 20, 112);
+    this.uiContainer.addChild(this.comboText);
+    
+    this.comboBar = new Graphics();
+    this.uiContainer.addChild(this.comboBar);
+    
+    // Create level and wave banner
+    this.bannerText = new Text('', {
+      fontFamily: 'Arial',
+      fontSize: 40,
+      fontWeight: 'bold',
+      fill: 0xFFFFFF,
+      align: 'center',
+    });
+    this.bannerText.anchor.set(0.5);
+    this.bannerText.position.set(this.screenWidth / 2, this.screenHeight * 0.35);
+    this.bannerText.visible = false;
+    this.uiContainer.addChild(this.bannerText);
+    
+    this.bannerSubtitleText = new Text('', {
+      fontFamily: 'Arial',
+      fontSize: 22,
+      fill: 0xCCCCCC,
+      align: 'center',
+    });
+    this.bannerSubtitleText.anchor.set(0.5);
+    this.bannerSubtitleText.position.set(this.screenWidth / 2, this.screenHeight * 0.35 + 40);
+    this.bannerSubtitleText.visible = false;
+    this.uiContainer.addChild(this.bannerSubtitleText);
+    
+    // Create boss health bar and name, shown only during a boss fight
+    this.bossBar = new Graphics();
+    this.bossBar.visible = false;
+    this.uiContainer.addChild(this.bossBar);
+    
+    this.bossNameText = new Text('', {
+      fontFamily: 'Arial',
+      fontSize: 16,
+      fontWeight: 'bold',
+      fill: 0xFF6666,
+    });
+    this.bossNameText.anchor.set(0.5, 1);
+    this.bossNameText.visible = false;
+    this.uiContainer.addChild(this.bossNameText);
+    
+    // Create boss warning banner
+    this.bossWarningText = new Text('WARNING\nBOSS APPROACHING', {
+      fontFamily: 'Arial',
+      fontSize: 36,
+      fontWeight: 'bold',
+      fill: 0xFF2222,
+      align: 'center',
+    });
+    this.bossWarningText.anchor.set(0.5);
+    this.bossWarningText.position.set(this.screenWidth / 2, this.screenHeight / 2);
+    this.bossWarningText.visible = false;
+    this.uiContainer.addChild(this.bossWarningText);
+    
+    // Create replay indicator
+    this.replayIndicatorText = new Text('REPLAY', {
+      fontFamily: 'Arial',
+      fontSize: 24,
+      fontWeight: 'bold',
+      fill: 0xFF4444,
+    });
+    this.replayIndicatorText.anchor.set(1, 0);
+    this.replayIndicatorText.position.set(this.screenWidth - 20, 20);
+    this.replayIndicatorText.visible = false;
+    this.uiContainer.addChild(this.replayIndicatorText);
   }
   
   /**
@@ -232,7 +692,7 @@ export class GameScene extends Scene {
     this.gameOverContainer.addChild(this.finalScoreText);
     
     // Create restart text
-    this.restartText = new Text('Press SPACE to restart', {
+    this.restartText = new Text('Press SPACE to continue', {
       fontFamily: 'Arial',
       fontSize: 24,
       fill: 0xFFFFFF,
@@ -240,43 +700,93 @@ export class GameScene extends Scene {
     this.restartText.anchor.set(0.5);
     this.restartText.position.set(this.screenWidth / 2, this.screenHeight / 2 + 60);
     this.gameOverContainer.addChild(this.restartText);
+    
+    // Create replay options text
+    this.replayOptionsText = new Text('R: Replay   E: Export   I: Import   H: High scores', {
+      fontFamily: 'Arial',
+      fontSize: 18,
+      fill: 0xAAAAAA,
+    });
+    this.replayOptionsText.anchor.set(0.5);
+    this.replayOptionsText.position.set(this.screenWidth / 2, this.screenHeight / 2 + 100);
+    this.gameOverContainer.addChild(this.replayOptionsText);
+    
+    // Create initials entry, shown when the run makes the high score table
+    this.initialsEntry = new InitialsEntry();
+    this.initialsEntry.getContainer().position.set(this.screenWidth / 2, this.screenHeight / 2 + 120);
+    this.initialsEntry.getContainer().visible = false;
+    this.gameOverContainer.addChild(this.initialsEntry.getContainer());
   }
   
   /**
    * Update the scene
-   * @param deltaTime Time since last update
+   * @param deltaTime Fixed simulation step in seconds
    */
   public update(deltaTime: number): void {
     if (!this.active) return;
     
+    // While paused nothing is simulated
+    if (this.isPaused) return;
+    
+    // Escape or P pauses the game
+    if (!this.isGameOver && (this.inputManager.isKeyJustPressed('Escape') || this.inputManager.isKeyJustPressed('p'))) {
+      this.pause();
+      return;
+    }
+    
+    // F2 outlines the colliders
+    if (this.inputManager.isKeyJustPressed('F2')) {
+      this.colliderOverlay.toggle();
+    }
+    
+    // Advance explosion animations and score popups (they keep playing behind the game over screen)
+    ExplosionManager.getInstance().update(deltaTime);
+    this.scorePopups.update(deltaTime);
+    
     // Handle game over state
     if (this.isGameOver) {
-      // Check for restart input
-      if (this.inputManager.isSpacePressed()) {
-        this.restartGame();
-      }
+      this.handleGameOverInput();
       return;
     }
     
+    // Feed this step's input to the player, from the keyboard or the replay being watched
+    this.updatePlayerInput();
+    
+    // A watched replay that has run out ends the game before another step is simulated
+    if (this.isGameOver) return;
+    
     // Update star background
     if (this.starBackground) {
       this.starBackground.update(deltaTime);
     }
     
+    // Fade out the level and wave banner
+    this.updateBanner(deltaTime);
+    
+    // Fade out the bomb flash
+    if (this.bombFlash) {
+      this.bombFlash.alpha = Math.max(0, this.bombFlash.alpha - deltaTime * 2);
+    }
+    
     // Update game time
     this.gameTime += deltaTime;
     
     // Update entities
     this.updateEntities(deltaTime);
     
+    // Run down the kill chain's window
+    this.scoreService.update(deltaTime);
+    
     // Handle input
     this.handleInput();
     
     // Check collisions
     this.checkCollisions();
     
-    // Spawn enemies
-    this.updateEnemySpawning(deltaTime);
+    // Spawn the waves
+    if (this.waveDirector) {
+      this.waveDirector.update(deltaTime);
+    }
     
     // Update UI
     this.updateUI();
@@ -295,9 +805,37 @@ export class GameScene extends Scene {
     }
   }
   
+  /**
+   * Render the scene, interpolating entity positions between simulation steps
+   * @param alpha Interpolation factor (0-1)
+   */
+  public render(alpha: number): void {
+    if (this.player) {
+      this.player.render(alpha);
+    }
+    
+    for (const enemy of this.enemies) {
+      enemy.render(alpha);
+    }
+    
+    if (this.boss) {
+      this.boss.render(alpha);
+    }
+    
+    for (const meteor of this.meteors) {
+      meteor.render(alpha);
+    }
+    
+    for (const powerUp of this.powerUps) {
+      powerUp.render(alpha);
+    }
+    
+    this.colliderOverlay.draw(this.collisionWorld);
+  }
+  
   /**
    * Update game entities
-   * @param deltaTime Time since last update
+   * @param deltaTime Time since last update in seconds
    */
   private updateEntities(deltaTime: number): void {
     // Update player
@@ -305,6 +843,12 @@ export class GameScene extends Scene {
       this.player.update(deltaTime);
     }
     
+    // Sway the formations and send their divers, dropping those that have emptied
+    for (const formation of this.formations) {
+      formation.update(deltaTime);
+    }
+    this.formations = this.formations.filter((formation) => !formation.isEmpty());
+    
     // Update enemies
     for (let i = this.enemies.length - 1; i >= 0; i--) {
       const enemy = this.enemies[i];
@@ -327,6 +871,27 @@ export class GameScene extends Scene {
       }
     }
     
+    // Update the boss, removing it once its defeat has played out
+    if (this.boss) {
+      this.boss.update(deltaTime);
+      
+      if (this.boss.isFinished()) {
+        this.boss.destroy();
+        this.boss = null;
+      }
+    }
+    
+    // Update meteors, removing those broken up or drifted away
+    for (let i = this.meteors.length - 1; i >= 0; i--) {
+      const meteor = this.meteors[i];
+      meteor.update(deltaTime);
+      
+      if (!meteor.isActive()) {
+        meteor.destroy();
+        this.meteors.splice(i, 1);
+      }
+    }
+    
     // Update power-ups
     for (let i = this.powerUps.length - 1; i >= 0; i--) {
       const powerUp = this.powerUps[i];
@@ -355,103 +920,608 @@ export class GameScene extends Scene {
   }
   
   /**
-   * Check for collisions between entities
+   * Sample (or play back) the player input for this step
    */
-  private checkCollisions(): void {
-    if (!this.player || !this.player.isActive()) return;
-    
-    // Check player projectiles against enemies
-    const playerProjectiles = this.player.getActiveProjectiles();
+  private updatePlayerInput(): void {
+    let flags: number;
+    
+    if (this.replayPlayer) {
+      // The recorded run ended here; nothing left to play
+      if (this.replayPlayer.isFinished()) {
+        this.gameOver();
+        return;
+      }
+      flags = this.replayPlayer.next();
+    } else {
+      flags = this.inputManager.getInputFlags();
+      this.replayRecorder.record(flags);
+    }
     
-    for (let i = 0; i < playerProjectiles.length; i++) {
-      const projectile = playerProjectiles[i];
-      if (!projectile.isActive()) continue;
-      
-      // Check against all enemies
-      for (let j = 0; j < this.enemies.length; j++) {
-        const enemy = this.enemies[j];
-        if (!enemy.isActive()) continue;
-        
-        // Simple circle collision
-        const dx = projectile.getX() - enemy.getX();
-        const dy = projectile.getY() - enemy.getY();
-        const distance = Math.sqrt(dx * dx + dy * dy);
+    if (this.player) {
+      this.player.setInput(flags);
+    }
+  }
+  
+  /**
+   * Handle the game over screen options
+   */
+  private handleGameOverInput(): void {
+    // A high score takes the player's initials before anything else
+    if (this.enteringInitials) {
+      if (this.initialsEntry && this.initialsEntry.handleInput(this.inputManager)) {
+        this.saveHighScore();
+      }
+      return;
+    }
+    
+    if (this.inputManager.isKeyJustPressed(' ')) {
+      this.finishRun();
+    } else if (this.inputManager.isKeyJustPressed('r') && this.lastReplay) {
+      this.watchReplay(this.lastReplay);
+    } else if (this.inputManager.isKeyJustPressed('e') && this.lastReplay) {
+      ReplayFile.download(this.lastReplay);
+    } else if (this.inputManager.isKeyJustPressed('h') && this.highScoresCallback) {
+      this.highScoresCallback(this.mode.mode, this.highScoreRank);
+    } else if (this.inputManager.isKeyJustPressed('i')) {
+      ReplayFile.open().then((replay) => {
+        if (replay && this.isGameOver) {
+          this.watchReplay(replay);
+        }
+      });
+    }
+  }
+  
+  /**
+   * Put the run in the high score table under the initials entered
+   */
+  private saveHighScore(): void {
+    this.highScoreRank = HighScores.getInstance().add(this.mode.mode, {
+      initials: this.initialsEntry ? this.initialsEntry.getInitials() : '???',
+      score: this.getScore(),
+      wave: this.getWaveNumber(),
+      gameTime: this.gameTime,
+      date: Date.now(),
+    });
+    
+    this.enteringInitials = false;
+    this.updateGameOverPrompt();
+  }
+  
+  /**
+   * Show either the initials entry or the options for leaving the game over screen
+   */
+  private updateGameOverPrompt(): void {
+    if (this.restartText) {
+      this.restartText.text = this.enteringInitials ? 'NEW HIGH SCORE! Enter your initials' : 'Press SPACE to continue';
+    }
+    
+    if (this.replayOptionsText) {
+      this.replayOptionsText.visible = !this.enteringInitials;
+    }
+    
+    if (this.initialsEntry) {
+      this.initialsEntry.getContainer().visible = this.enteringInitials;
+    }
+  }
+  
+  /**
+   * Leave the game over screen, handing the run over to the results screen
+   */
+  private finishRun(): void {
+    if (!this.runFinishedCallback) {
+      // No front end to return to (e.g. headless); just play again
+      this.restartGame(this.mode.createSeed());
+      return;
+    }
+    
+    this.runFinishedCallback({
+      mode: this.mode.mode,
+      seed: this.seed,
+      score: this.getScore(),
+      wave: this.getWaveNumber(),
+      gameTime: this.gameTime,
+      replay: this.lastReplay,
+      highScoreRank: this.highScoreRank,
+    });
+  }
+  
+  /**
+   * Start a new run
+   * @param mode Game mode to play
+   * @param seed Seed for the run; the mode decides when omitted
+   */
+  public startRun(mode: GameMode, seed?: number): void {
+    this.mode = GAME_MODES[mode];
+    this.resume();
+    this.restartGame(seed ?? this.mode.createSeed());
+  }
+  
+  /**
+   * Get the game mode of the current run
+   */
+  public getMode(): GameMode {
+    return this.mode.mode;
+  }
+  
+  /**
+   * Set the callback for leaving the game over screen
+   * @param callback Function receiving the finished run
+   */
+  public setRunFinishedCallback(callback: (result: RunResult) => void): void {
+    this.runFinishedCallback = callback;
+  }
+  
+  /**
+   * Set the callback for showing the high score table from the game over screen
+   * @param callback Function receiving the run's mode and its position in the table (-1 if not there)
+   */
+  public setHighScoresCallback(callback: (mode: GameMode, highlight: number) => void): void {
+    this.highScoresCallback = callback;
+  }
+  
+  /**
+   * Pause the game and push the pause menu on top of it
+   */
+  public pause(): void {
+    if (!this.active || this.isGameOver || this.isPaused) return;
+    
+    this.isPaused = true;
+    SceneManager.getInstance().pushScene(SceneName.PAUSE, new FadeTransition(0.15));
+    
+    console.log('Game paused');
+  }
+  
+  /**
+   * Resume the game
+   */
+  public resume(): void {
+    if (!this.isPaused) return;
+    
+    this.isPaused = false;
+    
+    // Take the pause menu off the top of the stack
+    const sceneManager = SceneManager.getInstance();
+    if (sceneManager.getTopScene() !== this) {
+      sceneManager.popScene(new FadeTransition(0.15));
+    }
+    
+    console.log('Game resumed');
+  }
+  
+  /**
+   * Is the game paused?
+   */
+  public isGamePaused(): boolean {
+    return this.isPaused;
+  }
+  
+  /**
+   * Watch a recorded run
+   * @param replay The replay to play back
+   */
+  public watchReplay(replay: Replay): void {
+    this.mode = GAME_MODES[replay.mode];
+    this.resume();
+    this.restartGame(replay.seed);
+    
+    this.lastReplay = replay;
+    this.replayPlayer = replay.createPlayer();
+    
+    if (this.replayIndicatorText) {
+      this.replayIndicatorText.visible = true;
+    }
+    
+    console.log(`Watching replay of seed ${replay.seed} (${replay.steps} steps)`);
+  }
+  
+  /**
+   * Get the replay of the current run, or of the last finished or watched one
+   */
+  public getReplay(): Replay | null {
+    if (!this.isGameOver && !this.replayPlayer) {
+      return this.replayRecorder.finish(this.getScore());
+    }
+    return this.lastReplay;
+  }
+  
+  /**
+   * File everything that can collide this step in the collision world
+   */
+  private buildCollisionWorld(): void {
+    const world = this.collisionWorld;
+    world.clear();
+    
+    if (this.player && this.player.isActive()) {
+      world.add(this.player);
+      
+      for (const projectile of this.player.getActiveProjectiles()) {
+        if (projectile.isActive()) world.add(projectile);
+      }
+      for (const missile of this.player.getActiveMissiles()) {
+        world.add(missile);
+      }
+    }
+    
+    for (const enemy of this.enemies) {
+      if (!enemy.isActive()) continue;
+      
+      if (this.canBeHit(enemy)) world.add(enemy);
+      for (const projectile of enemy.getActiveProjectiles()) {
+        if (projectile.isActive()) world.add(projectile);
+      }
+    }
+    
+    if (this.boss) {
+      if (this.canBeHit(this.boss)) world.add(this.boss);
+      for (const projectile of this.boss.getActiveProjectiles()) {
+        if (projectile.isActive()) world.add(projectile);
+      }
+    }
+    
+    for (const meteor of this.meteors) {
+      if (this.canBeHit(meteor)) world.add(meteor);
+    }
+    
+    for (const powerUp of this.powerUps) {
+      if (powerUp.isActive() && !powerUp.isCollected()) world.add(powerUp);
+    }
+  }
+  
+  /**
+   * Check for collisions between entities
+   */
+  private checkCollisions(): void {
+    if (!this.player || !this.player.isActive()) return;
+    
+    this.buildCollisionWorld();
+    const world = this.collisionWorld;
+    
+    // Check player projectiles against enemies, the boss and meteors
+    for (const projectile of this.player.getActiveProjectiles()) {
+      for (const target of world.query(projectile)) {
+        if (!projectile.isActive()) break;
+        
+        // Piercing projectiles damage each target only once
+        if (!this.canBeHit(target) || projectile.hasHit(target)) continue;
         
-        // If colliding
-        if (distance < 30) { // Approximate collision radius
-          // Enemy takes damage
-          enemy.takeDamage(projectile.getDamage());
-          
-          // Projectile explodes
-          projectile.onCollision();
-          
-          // If enemy is destroyed, add score
-          if (enemy.isDestroyed()) {
-            this.score += 100;
-            
-            // Give score to player
-            if (this.player) {
-              this.player.addScore(100);
-            }
-          }
-          
-          // Continue to next projectile
-          break;
+        // A shot counts once towards accuracy, however many targets it pierces
+        if (projectile.getHitCount() === 0) {
+          this.scoreService.recordHit();
         }
+        
+        this.damageTarget(target, projectile.getDamage());
+        
+        // Projectile explodes, unless it pierces through
+        projectile.onCollision(target);
+      }
+    }
+    
+    // Check missiles against targets; the blast itself is applied on detonation
+    for (const missile of this.player.getActiveMissiles()) {
+      if (world.query(missile).some((target) => this.canBeHit(target))) {
+        missile.detonate();
+      }
+    }
+    
+    // Enemy fire breaks meteors too, though the player scores nothing for it
+    for (const meteor of [...this.meteors]) {
+      for (const hit of world.query(meteor, CollisionLayer.ENEMY_BULLET)) {
+        if (!this.canBeHit(meteor)) break;
+        
+        const projectile = hit as Projectile;
+        if (!projectile.isActive()) continue;
+        
+        meteor.takeDamage(projectile.getDamage());
+        projectile.onCollision();
       }
     }
     
     // Skip enemy projectile collisions if player is invulnerable or destroyed
     if (this.player.isInvulnerable()) return;
     
-    // Check enemy projectiles against player
-    for (let i = 0; i < this.enemies.length; i++) {
-      const enemy = this.enemies[i];
-      if (!enemy.isActive()) continue;
-      
-      const enemyProjectiles = enemy.getActiveProjectiles();
-      
-      for (let j = 0; j < enemyProjectiles.length; j++) {
-        const projectile = enemyProjectiles[j];
-        if (!projectile.isActive()) continue;
+    // Check what the player's hull touches: enemy hulls, the boss, meteors and power-ups
+    const bodyMask = this.player.getCollisionMask() & ~CollisionLayer.ENEMY_BULLET;
+    for (const other of world.query(this.player, bodyMask)) {
+      if (other instanceof EnemyShip) {
+        if (!this.canBeHit(other) || !this.collideWithPlayer(other, other.getRamDamage())) continue;
         
-        // Simple circle collision with player
-        const dx = projectile.getX() - this.player.getX();
-        const dy = projectile.getY() - this.player.getY();
-        const distance = Math.sqrt(dx * dx + dy * dy);
+        // Charging kamikazes blow up on impact
+        if (other.isRamming()) {
+          other.takeDamage(Infinity);
+        }
+        if (other.isDestroyed()) {
+          this.awardKill(other);
+        }
+      } else if (other instanceof Meteor) {
+        if (!this.canBeHit(other) || !this.collideWithPlayer(other, other.getContactDamage())) continue;
         
-        // If colliding
-        if (distance < 30) { // Approximate collision radius
-          // Player takes damage
-          this.player.takeDamage(projectile.getDamage());
-          
-          // Projectile explodes
-          projectile.onCollision();
-          
-          // Continue to next enemy
-          break;
+        if (other.isDestroyed()) {
+          this.awardKill(other);
         }
+      } else if (other instanceof BossShip) {
+        // The boss is scored when its defeat plays out
+        if (!this.canBeHit(other)) continue;
+        this.collideWithPlayer(other, other.getRamDamage());
+      } else if (other instanceof PowerUp) {
+        if (!other.isActive() || other.isCollected()) continue;
+        
+        this.applyPowerUpEffect(other);
+        other.onCollected();
       }
     }
     
-    // Check power-ups against player
-    for (let i = 0; i < this.powerUps.length; i++) {
-      const powerUp = this.powerUps[i];
-      if (!powerUp.isActive()) continue;
+    // Enemy fire only hurts when it reaches the player's small hitbox
+    const playerX = this.player.getX();
+    const playerY = this.player.getY();
+    for (const hit of world.queryCircle(playerX, playerY, this.player.hitRadius, CollisionLayer.ENEMY_BULLET)) {
+      const projectile = hit as Projectile;
+      if (!projectile.isActive()) continue;
       
-      // Simple circle collision with player
-      const dx = powerUp.getX() - this.player.getX();
-      const dy = powerUp.getY() - this.player.getY();
-      const distance = Math.sqrt(dx * dx + dy * dy);
+      this.player.takeDamage(projectile.getDamage());
+      projectile.cancelGraze();
+      projectile.onCollision();
+    }
+    
+    // Check the boss's beam against the hitbox too
+    if (this.boss && this.boss.beamHits(this.player.getHitbox(), playerX, playerY)) {
+      this.player.takeDamage(this.boss.getBeam().damage);
+    }
+    
+    // Enemy fire passing this close may graze the player
+    if (!this.player.isActive()) return;
+    const nearby = world.queryCircle(playerX, playerY, this.grazeRadius, CollisionLayer.ENEMY_BULLET) as Projectile[];
+    for (const projectile of nearby) {
+      if (!projectile.isActive()) continue;
       
-      // If colliding
-      if (distance < 40) { // Larger collision radius for easier pickup
-        // Apply power-up effect
-        this.applyPowerUpEffect(powerUp);
-        
-        // Power-up is collected
-        powerUp.onCollected();
+      projectile.enterGrazeZone();
+      if (projectile.isInGrazeZone() && !this.grazingShots.includes(projectile)) {
+        this.grazingShots.push(projectile);
+      }
+    }
+    
+    // A shot that gets clear of the zone without hitting is a graze, once per shot
+    this.grazingShots = this.grazingShots.filter((projectile) => {
+      if (!projectile.isInGrazeZone()) return false;
+      if (nearby.includes(projectile)) return true;
+      
+      if (projectile.isActive() && projectile.leaveGrazeZone()) {
+        this.awardGraze(projectile);
+      }
+      return false;
+    });
+  }
+  
+  /**
+   * Score a graze with a spark where the shot passed, filling the graze
+   * meter; a full meter pays out a bonus and starts over
+   * @param projectile The shot that grazed the player
+   */
+  private awardGraze(projectile: Projectile): void {
+    this.grazeCount++;
+    this.awardScore(this.grazePoints);
+    
+    ExplosionManager.getInstance().createExplosion(
+      ExplosionType.PIXEL,
+      projectile.getX(),
+      projectile.getY(),
+      this.entityLayer,
+      0.3
+    );
+    
+    this.grazeMeter += this.grazeMeterGain;
+    if (this.grazeMeter >= 1) {
+      this.grazeMeter = 0;
+      this.awardScore(this.grazeBonus);
+      SoundManager.getInstance().play(SoundType.SCORE_MULTIPLIER);
+    }
+  }
+  
+  /**
+   * Can an enemy, the boss or a meteor be hit right now?
+   * @param entity The entity to check
+   */
+  private canBeHit(entity: Entity): boolean {
+    if (entity instanceof EnemyShip) {
+      return entity.isActive() && !entity.isDestroyed() && entity.isTargetable();
+    }
+    if (entity instanceof Meteor) {
+      return entity.isActive() && !entity.isDestroyed();
+    }
+    if (entity instanceof BossShip) {
+      return entity.isVulnerable();
+    }
+    return false;
+  }
+  
+  /**
+   * Damage an enemy, the boss or a meteor, scoring it if it breaks
+   * @param target The entity hit
+   * @param damage Damage dealt
+   */
+  private damageTarget(target: Entity, damage: number): void {
+    if (target instanceof EnemyShip || target instanceof Meteor) {
+      target.takeDamage(damage);
+      
+      if (target.isDestroyed()) {
+        this.awardKill(target);
+      }
+    } else if (target instanceof BossShip) {
+      // The boss is scored when its defeat plays out
+      target.takeDamage(damage);
+    }
+  }
+  
+  /**
+   * Resolve the player's ship running into an enemy, the boss or a meteor: both take
+   * contact damage and are pushed apart, the lighter one further. A shield
+   * soaks up the player's share of the damage and of the push, and makes
+   * the ram hit twice as hard.
+   * @param body What the player ran into
+   * @param damage Damage the body deals to the player
+   * @returns True if they collided; not while the player is recovering from the last contact
+   */
+  private collideWithPlayer(body: EnemyShip | BossShip | Meteor, damage: number): boolean {
+    const player = this.player;
+    if (!player || !player.canCollide()) return false;
+    
+    const dx = player.getX() - body.getX();
+    const dy = player.getY() - body.getY();
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    
+    // Push apart along the line between the centers; straight down if they sit on top of each other
+    const normalX = distance > 0 ? dx / distance : 0;
+    const normalY = distance > 0 ? dy / distance : 1;
+    const playerShare = body.getMass() / (body.getMass() + 1);
+    const shielded = player.hasShield();
+    
+    const playerPush = this.knockbackImpulse * playerShare * (shielded ? 0.5 : 1);
+    const bodyPush = this.knockbackImpulse * (1 - playerShare);
+    player.applyKnockback(normalX * playerPush, normalY * playerPush);
+    body.applyKnockback(-normalX * bodyPush, -normalY * bodyPush);
+    
+    player.takeDamage(damage);
+    body.takeDamage(player.ramDamage * (shielded ? 2 : 1));
+    
+    return true;
+  }
+  
+  /**
+   * Damage everything caught in a missile blast
+   * @param missile The missile that exploded
+   */
+  private applyMissileBlast(missile: Missile): void {
+    // Missiles can also go off when their fuel runs out, before this step's collisions are checked
+    this.buildCollisionWorld();
+    
+    // Only what is there already is caught, not the pieces meteors break into
+    const caught = this.collisionWorld.queryCircle(
+      missile.getX(),
+      missile.getY(),
+      missile.blastRadius,
+      CollisionLayer.ENEMY | CollisionLayer.HAZARD
+    );
+    
+    for (const target of caught) {
+      if (this.canBeHit(target)) {
+        this.damageTarget(target, missile.blastDamage);
+      }
+    }
+  }
+  
+  /**
+   * Get everything homing missiles may lock on to
+   */
+  private getMissileTargets(): Entity[] {
+    const targets: Entity[] = this.enemies.filter((enemy) => !enemy.isDestroyed() && enemy.isTargetable());
+    
+    if (this.boss && this.boss.isVulnerable()) {
+      targets.push(this.boss);
+    }
+    
+    return targets;
+  }
+  
+  /**
+   * Score points, applying the player's score multiplier
+   * @param basePoints Points before the multiplier
+   */
+  private awardScore(basePoints: number): void {
+    this.scoreService.addPoints(basePoints * this.getScoreMultiplier());
+  }
+  
+  /**
+   * Score a kill where it happened, extending the kill chain
+   * @param target The destroyed enemy, meteor or boss
+   */
+  private awardKill(target: EnemyShip | Meteor | BossShip): void {
+    let basePoints = BOSS_SCORE;
+    if (target instanceof EnemyShip) {
+      basePoints = ENEMY_SCORES[target.getType()];
+    } else if (target instanceof Meteor) {
+      basePoints = METEOR_SCORES[target.getSize()];
+    }
+    
+    const points = this.scoreService.addKill(basePoints, this.getScoreMultiplier());
+    
+    if (!this.headless) {
+      // Chained kills show in gold, and bigger as the multiplier grows
+      const multiplier = this.scoreService.getMultiplier();
+      this.scorePopups.show(
+        `${points}`,
+        target.getX(),
+        target.getY(),
+        multiplier > 1 ? 0xFFDD44 : 0xFFFFFF,
+        Math.round(14 + 4 * multiplier)
+      );
+    }
+  }
+  
+  /**
+   * Get the multiplier the player's score multiplier power-up gives
+   */
+  private getScoreMultiplier(): number {
+    return this.player ? this.player.getScoreMultiplier() : 1;
+  }
+  
+  /**
+   * Pay the end of wave bonuses, showing each across the middle of the screen
+   * @param waveNumber Number of the wave that ended
+   */
+  private onWaveEnd(waveNumber: number): void {
+    const bonus = this.scoreService.endWave(waveNumber);
+    if (this.headless) return;
+    
+    const x = this.screenWidth / 2;
+    const y = this.screenHeight * 0.6;
+    
+    if (bonus.noDamage > 0) {
+      this.scorePopups.show(`NO DAMAGE +${bonus.noDamage}`, x, y, 0x66FF99, 24);
+    }
+    if (bonus.accuracy > 0) {
+      const accuracy = Math.round(bonus.shotsHit / bonus.shotsFired * 100);
+      this.scorePopups.show(`ACCURACY ${accuracy}% +${bonus.accuracy}`, x, y + 32, 0x88CCFF, 24);
+    }
+  }
+  
+  /**
+   * Destroy every enemy on screen and clear their projectiles
+   */
+  private detonateBomb(): void {
+    for (const enemy of this.enemies) {
+      for (const projectile of enemy.getActiveProjectiles()) {
+        projectile.deactivate();
       }
+      
+      if (!enemy.isActive() || enemy.isDestroyed()) continue;
+      
+      // Only enemies already on screen are caught in the blast
+      if (enemy.getY() < 0) continue;
+      
+      enemy.takeDamage(Infinity);
+      this.awardKill(enemy);
+    }
+    
+    // Meteors on screen crumble to dust
+    for (const meteor of this.meteors) {
+      if (!meteor.isActive() || meteor.isDestroyed() || meteor.getY() < 0) continue;
+      
+      meteor.shatter();
+      this.awardKill(meteor);
+    }
+    
+    // The boss survives a bomb, but its bullets do not
+    if (this.boss) {
+      this.boss.clearProjectiles();
+      this.boss.takeDamage(300);
+    }
+    
+    if (!this.headless) {
+      if (!this.bombFlash) {
+        this.bombFlash = new Graphics();
+        this.container.addChildAt(this.bombFlash, this.container.getChildIndex(this.uiContainer));
+      }
+      this.bombFlash.clear().rect(0, 0, this.screenWidth, this.screenHeight).fill(0xFFFFFF);
+      this.bombFlash.alpha = 0.8;
     }
   }
   
@@ -468,6 +1538,34 @@ export class GameScene extends Scene {
         this.player.addShield();
         console.log('Player collected shield power-up!');
         break;
+      case PowerUpType.MISSILES:
+        this.player.addMissiles(3);
+        console.log('Player collected missile power-up!');
+        break;
+      case PowerUpType.WEAPON:
+        this.player.collectWeapon(powerUp.getWeaponType());
+        console.log(`Player collected ${powerUp.getWeaponType()} weapon power-up!`);
+        break;
+      case PowerUpType.WEAPON_UPGRADE:
+        // A fully upgraded weapon is worth points instead
+        if (!this.player.getWeapon().upgrade()) {
+          this.awardScore(250);
+        }
+        break;
+      case PowerUpType.RAPID_FIRE:
+      case PowerUpType.SPEED_BOOST:
+      case PowerUpType.SCORE_MULTIPLIER:
+        this.player.addEffect(powerUp.getType(), POWER_UPS[powerUp.getType()].duration);
+        break;
+      case PowerUpType.EXTRA_LIFE:
+        this.player.addLife();
+        break;
+      case PowerUpType.HEALTH_REPAIR:
+        this.player.repair();
+        break;
+      case PowerUpType.BOMB:
+        this.detonateBomb();
+        break;
       default:
         // Unknown power-up type
         console.warn(`Unknown power-up type: ${powerUp.getType()}`);
@@ -476,105 +1574,134 @@ export class GameScene extends Scene {
   }
   
   /**
-   * Update enemy spawning logic
-   * @param deltaTime Time since last update
+   * Add an enemy to the scene, hooking up its drops and aim
+   * @param enemy The enemy to add
    */
-  private updateEnemySpawning(deltaTime: number): void {
-    this.enemySpawnTimer += deltaTime;
+  private addEnemy(enemy: EnemyShip): void {
+    // Set power-up drop callback
+    enemy.setOnPowerUpDroppedCallback((powerUp: PowerUp) => {
+      this.addPowerUp(powerUp);
+    });
     
-    // Gradually decrease spawn interval (increase difficulty)
-    this.enemySpawnInterval = Math.max(
-      this.minSpawnInterval,
-      this.enemySpawnInterval - (this.spawnIntervalDecreaseRate * deltaTime)
-    );
+    // Drops come from the run's loot table
+    enemy.setLootTable(this.lootTable);
     
-    // Spawn enemy if timer exceeds interval
-    if (this.enemySpawnTimer >= this.enemySpawnInterval) {
-      this.spawnEnemy();
-      this.enemySpawnTimer = 0;
-      console.log(`Spawned enemy. Next spawn in ${this.enemySpawnInterval.toFixed(2)} seconds`);
-    }
+    // Aim at the player
+    enemy.setTarget(this.player);
+    
+    // Add to enemies array
+    this.enemies.push(enemy);
+    
+    // Add to scene
+    this.entityLayer.addChild(enemy.getContainer());
   }
   
   /**
-   * Spawn a new enemy
+   * Spawn an enemy requested by the wave director
+   * @param request Type, position and flight of the enemy
    */
-  private spawnEnemy(): void {
-    // Check if we already have 10 active enemies (per spec requirement)
-    const activeEnemies = this.enemies.filter(enemy => enemy.isActive()).length;
-    if (activeEnemies >= 10) {
-      console.log(`Maximum enemies (10) already on screen. Skipping spawn.`);
-      return;
+  private spawnEnemy(request: SpawnRequest): void {
+    const enemy = new EnemyShip(request.x, request.y, request.type, this.screenWidth, this.screenHeight);
+    enemy.setVerticalSpeed(request.verticalSpeed);
+    enemy.setHorizontalDrift(request.horizontalDrift);
+    enemy.setBehaviour(request.behaviour);
+    
+    if (request.path) {
+      enemy.setFlightPath(request.path, request.pathSpeed, request.pathOffsetX);
     }
     
-    // Random x position
-    const x = Math.random() * (this.screenWidth - 100) + 50;
-    
-    // Estimate enemy height after scaling (original height * scale factor)
-    // Enemy sprites are approx 75px tall with 0.6 scale = ~45px rendered height
-    const estimatedEnemyHeight = 45;
-    const minVerticalSpacing = estimatedEnemyHeight * 1.5; // At least 1.5x height spacing
-    
-    // Get positions of all active enemies currently above the screen
-    const activeEnemyPositions = this.enemies
-      .filter(enemy => enemy.isActive() && enemy.getY() < 0)
-      .map(enemy => enemy.getY());
-    
-    // Start with a random position between -50 and -300 (reduced from -800)
-    // This keeps enemies closer to the screen for better gameplay experience
-    let y = -50 - Math.random() * 250;
-    
-    // Check if this position is too close to any existing enemy
-    // If so, move it further up to maintain minimum spacing
-    let attemptsLeft = 10; // Limit attempts to prevent infinite loops
-    while (attemptsLeft > 0) {
-      const tooClose = activeEnemyPositions.some(
-        enemyY => Math.abs(enemyY - y) < minVerticalSpacing
-      );
+    if (request.formation) {
+      request.formation.addMember(enemy, request.slot.x, request.slot.y);
       
-      if (!tooClose) {
-        break; // Position is good, no conflicts
+      if (!this.formations.includes(request.formation)) {
+        request.formation.setTarget(this.player);
+        this.formations.push(request.formation);
       }
-      
-      // Move further up by the minimum spacing + random offset
-      y -= minVerticalSpacing + Math.random() * 50;
-      attemptsLeft--;
     }
     
-    console.log(`Spawning enemy at y=${y} with vertical spacing of ${minVerticalSpacing}px`);
-    
-    // Random enemy type
-    const enemyTypes = [EnemyType.TYPE_1, EnemyType.TYPE_2, EnemyType.TYPE_3];
-    const randomType = enemyTypes[Math.floor(Math.random() * enemyTypes.length)];
-    
-    // Create enemy
-    const enemy = new EnemyShip(
-      x,
-      y, // Staggered start position above screen
-      randomType,
+    this.addEnemy(enemy);
+  }
+  
+  /**
+   * Spawn a meteor requested by the wave director
+   * @param request Size, position and velocity of the meteor
+   */
+  private spawnMeteor(request: MeteorRequest): void {
+    this.addMeteor(new Meteor(
+      request.x,
+      request.y,
+      request.size,
+      request.velocityX,
+      request.velocityY,
       this.screenWidth,
       this.screenHeight
-    );
-    
-    // Set power-up drop callback
-    enemy.setOnPowerUpDroppedCallback((powerUp: PowerUp) => {
+    ));
+  }
+  
+  /**
+   * Add a meteor to the scene, hooking up its drops and pieces
+   * @param meteor The meteor to add
+   */
+  private addMeteor(meteor: Meteor): void {
+    meteor.setOnPowerUpDroppedCallback((powerUp: PowerUp) => {
       this.addPowerUp(powerUp);
     });
+    meteor.setOnSplitCallback((pieces) => {
+      for (const piece of pieces) {
+        this.addMeteor(piece);
+      }
+    });
+    meteor.setLootTable(this.lootTable);
     
-    // Vary the vertical speed dramatically
-    const verticalSpeed = 0.3 + Math.random() * 1.7; // Between 0.3 and 2.0 speed
-    enemy.setVerticalSpeed(verticalSpeed);
+    this.meteors.push(meteor);
+    this.entityLayer.addChild(meteor.getContainer());
+  }
+  
+  /**
+   * Bring in a boss for a boss wave
+   */
+  private spawnBoss(): void {
+    if (this.boss) return;
     
-    // Debug: Log available textures
-    console.log('Available textures:', AssetLoader.getInstance().listTextures());
+    this.boss = new BossShip(this.screenWidth, this.screenHeight);
+    this.boss.setTarget(this.player);
     
-    // Add to enemies array
-    this.enemies.push(enemy);
+    // Minions join the fight as regular enemies
+    this.boss.setSummonCallback((type, x, y) => {
+      const minion = new EnemyShip(x, y, type, this.screenWidth, this.screenHeight);
+      minion.setVerticalSpeed(90);
+      this.addEnemy(minion);
+    });
     
-    // Add to scene
-    this.container.addChild(enemy.getContainer());
+    this.boss.setDefeatedCallback((boss) => this.onBossDefeated(boss));
+    
+    this.entityLayer.addChild(this.boss.getContainer());
+    
+    console.log('Boss approaching');
+  }
+  
+  /**
+   * Reward the player for defeating a boss
+   * @param boss The defeated boss
+   */
+  private onBossDefeated(boss: BossShip): void {
+    this.awardKill(boss);
+    
+    // Boss loot spreads out around the wreck
+    const drops = this.lootTable.rollTable(BOSS_LOOT);
+    drops.forEach((drop, index) => {
+      const offset = (index - (drops.length - 1) / 2) * 50;
+      this.addPowerUp(new PowerUp(
+        boss.getX() + offset,
+        boss.getY(),
+        drop.type,
+        120,
+        this.screenHeight,
+        drop.weaponType
+      ));
+    });
     
-    console.log(`Enemy added to scene. Total active enemies: ${activeEnemies + 1}`);
+    console.log('Boss defeated!');
   }
   
   /**
@@ -586,7 +1713,7 @@ export class GameScene extends Scene {
     this.powerUps.push(powerUp);
     
     // Add to scene
-    this.container.addChild(powerUp.getContainer());
+    this.entityLayer.addChild(powerUp.getContainer());
     
     console.log(`Power-up added to scene. Type: ${powerUp.getType()}`);
   }
@@ -598,38 +1725,211 @@ export class GameScene extends Scene {
     if (this.player) {
       // Update score text
       if (this.scoreText) {
-        this.scoreText.text = `Score: ${this.player.getScore()}`;
+        this.scoreText.text = `Score: ${this.getScore()}`;
       }
       
+      // Update the kill chain and its multiplier
+      this.updateComboUI();
+      
       // Update lives text
       if (this.livesText) {
         this.livesText.text = `Lives: ${this.player.getLives()}`;
       }
+      
+      // Update weapon text
+      if (this.weaponText) {
+        this.weaponText.text = this.player.getWeapon().getName();
+      }
+      
+      // Update missile ammo text
+      if (this.missileText) {
+        this.missileText.text = `Missiles: ${this.player.getMissileAmmo()}`;
+      }
+      
+      // Update wave number text
+      if (this.waveText) {
+        this.waveText.text = `Wave ${this.getWaveNumber()}`;
+      }
+      
+      // Update the graze count and meter
+      this.updateGrazeUI();
+      
+      // Update the boss health bar
+      this.updateBossUI();
+      
+      // Update timed effects text
+      if (this.effectsText) {
+        this.effectsText.text = this.player.getEffects()
+          .map(([type, remaining]) => `${POWER_UPS[type].name} ${remaining.toFixed(1)}s`)
+          .join('\n');
+      }
+    }
+  }
+  
+  /**
+   * Show a level or wave banner across the middle of the screen
+   * @param title Main line
+   * @param subtitle Second line, may be empty
+   */
+  private showBanner(title: string, subtitle: string): void {
+    if (this.bannerText) {
+      this.bannerText.text = title;
+    }
+    if (this.bannerSubtitleText) {
+      this.bannerSubtitleText.text = subtitle;
+    }
+    this.bannerTimer = 2.5;
+    this.updateBanner(0);
+  }
+  
+  /**
+   * Count down the banner, fading it out over its last second
+   * @param deltaTime Time since last update in seconds
+   */
+  private updateBanner(deltaTime: number): void {
+    this.bannerTimer = Math.max(0, this.bannerTimer - deltaTime);
+    
+    for (const text of [this.bannerText, this.bannerSubtitleText]) {
+      if (text) {
+        text.visible = this.bannerTimer > 0;
+        text.alpha = Math.min(this.bannerTimer, 1);
+      }
     }
   }
   
+  /**
+   * Show the boss health bar during a fight and the warning banner while it enters
+   */
+  private updateBossUI(): void {
+    const fighting = this.boss !== null && this.boss.isVulnerable();
+    
+    if (this.bossWarningText) {
+      this.bossWarningText.visible = this.boss !== null && this.boss.isEntering();
+      // Flash the banner
+      this.bossWarningText.alpha = 0.5 + 0.5 * Math.abs(Math.sin(this.gameTime * 5));
+    }
+    
+    if (this.bossNameText) {
+      this.bossNameText.visible = fighting;
+    }
+    
+    if (!this.bossBar) return;
+    this.bossBar.visible = fighting;
+    if (!this.boss || !fighting) return;
+    
+    const width = this.screenWidth - 40;
+    const y = this.screenHeight - 30;
+    
+    this.bossBar.clear();
+    this.bossBar.rect(20, y, width, 12).fill(0x331111);
+    this.bossBar.rect(20, y, width * this.boss.getHealthFraction(), 12).fill(0xFF3333);
+    this.bossBar.rect(20, y, width, 12).stroke({ width: 2, color: 0xFFFFFF });
+    
+    if (this.bossNameText) {
+      this.bossNameText.text = `${this.boss.name} - Phase ${Math.max(this.boss.getPhase(), 1)}`;
+      this.bossNameText.position.set(this.screenWidth / 2, y - 4);
+    }
+  }
+  
+  /**
+   * Show the graze count and how full the graze meter is
+   */
+  private updateGrazeUI(): void {
+    if (this.grazeText) {
+      this.grazeText.text = `Graze: ${this.grazeCount}`;
+    }
+    
+    if (!this.grazeBar) return;
+    
+    const width = 100;
+    const x = this.screenWidth - 20 - width;
+    const y = 98;
+    
+    this.grazeBar.clear();
+    this.grazeBar.rect(x, y, width, 6).fill(0x223344);
+    this.grazeBar.rect(x, y, width * this.grazeMeter, 6).fill(0x99DDFF);
+  }
+  
+  /**
+   * Show the kill chain, its multiplier and how long is left to extend it
+   */
+  private updateComboUI(): void {
+    const chain = this.scoreService.getChain();
+    
+    if (this.comboText) {
+      this.comboText.visible = chain > 1;
+      this.comboText.text = `Chain ${chain}  x${this.scoreService.getMultiplier().toFixed(1)}`;
+    }
+    
+    if (!this.comboBar) return;
+    
+    this.comboBar.clear();
+    if (chain <= 1) return;
+    
+    const width = 100;
+    this.comboBar.rect(this.screenWidth - 20 - width, 140, width * this.scoreService.getChainTimeLeft(), 4).fill(0xFFDD44);
+  }
+  
   /**
    * Handle game over
    */
   public gameOver(): void {
+    if (this.isGameOver) return;
+    
     this.isGameOver = true;
     
+    // Keep the recording of a played run so it can be watched or exported
+    if (!this.replayPlayer) {
+      this.lastReplay = this.replayRecorder.finish(this.getScore());
+    }
+    
+    // A run good enough for the high score table asks for initials; watched replays and headless runs never do
+    this.highScoreRank = -1;
+    this.enteringInitials = !this.headless && !this.replayPlayer &&
+      HighScores.getInstance().qualifies(this.mode.mode, this.getScore());
+    if (this.initialsEntry) {
+      this.initialsEntry.reset();
+    }
+    this.updateGameOverPrompt();
+    
     // Show game over UI
     this.gameOverContainer.visible = true;
     
     // Update final score
     if (this.finalScoreText && this.player) {
-      this.finalScoreText.text = `Final Score: ${this.player.getScore()}`;
+      this.finalScoreText.text = `Final Score: ${this.getScore()}`;
     }
     
-    console.log('Game Over! Final score:', this.player?.getScore());
+    console.log('Game Over! Final score:', this.getScore());
   }
   
   /**
    * Restart the game
+   * @param seed Seed for the new run; a fresh seed is used when omitted
    */
-  private restartGame(): void {
+  private restartGame(seed: number): void {
     this.isGameOver = false;
+    this.enteringInitials = false;
+    this.highScoreRank = -1;
+    this.scoreService.reset();
+    this.scorePopups.clear();
+    this.grazeCount = 0;
+    this.grazeMeter = 0;
+    this.grazingShots = [];
+    
+    // Reseed before anything random is created
+    this.seed = seed;
+    RandomService.getInstance().setSeed(seed);
+    
+    // Start recording the new run
+    this.replayRecorder = new ReplayRecorder(this.mode.mode, seed);
+    
+    // Fresh loot odds and pity timer for the mode
+    this.lootTable = new LootTable(this.mode.mode);
+    this.replayPlayer = null;
+    if (this.replayIndicatorText) {
+      this.replayIndicatorText.visible = false;
+    }
     
     // Play UI select sound
     SoundManager.getInstance().play(SoundType.UI_SELECT);
@@ -640,10 +1940,6 @@ export class GameScene extends Scene {
     // Reset game time
     this.gameTime = 0;
     
-    // Reset enemy spawn timer and interval
-    this.enemySpawnTimer = 0;
-    this.enemySpawnInterval = 3;
-    
     // Re-initialize star background for a fresh start
     if (this.starBackground) {
       // Remove existing star background
@@ -661,6 +1957,22 @@ export class GameScene extends Scene {
       enemy.destroy();
     }
     this.enemies = [];
+    this.formations = [];
+    
+    // Clear meteors
+    for (const meteor of this.meteors) {
+      meteor.destroy();
+    }
+    this.meteors = [];
+    
+    // Clear the boss
+    if (this.boss) {
+      this.boss.destroy();
+      this.boss = null;
+    }
+    
+    // Start again from the first level
+    this.startWaves();
     
     // Clear power-ups
     for (const powerUp of this.powerUps) {
@@ -668,6 +1980,13 @@ export class GameScene extends Scene {
     }
     this.powerUps = [];
     
+    // Clear any explosions still playing
+    ExplosionManager.getInstance().clear();
+    
+    if (this.bombFlash) {
+      this.bombFlash.alpha = 0;
+    }
+    
     // Reset player
     if (this.player) {
       // Remove old player
@@ -680,10 +1999,19 @@ export class GameScene extends Scene {
         this.screenWidth,
         this.screenHeight
       );
-      this.container.addChild(this.player.getContainer());
+      this.entityLayer.addChild(this.player.getContainer());
+      this.player.setLives(this.mode.lives);
       
       // Set game over callback
       this.player.setGameOverCallback(() => this.gameOver());
+      
+      // Missiles home in on enemies that are still alive and blast everything nearby
+      this.player.setMissileTargets(() => this.getMissileTargets());
+      this.player.setMissileDetonationCallback((missile) => this.applyMissileBlast(missile));
+      
+      // Shots and hits count towards the score's accuracy and no damage bonuses
+      this.player.setShotCallback((count) => this.scoreService.recordShots(count));
+      this.player.setDamageCallback(() => this.scoreService.recordDamage());
     }
     
     console.log('Game restarted');
@@ -696,7 +2024,7 @@ export class GameScene extends Scene {
   private ensurePlayerInScene(): void {
     if (this.player && this.player.isActive() && !this.player.getContainer().parent) {
       console.log('Re-adding player container to scene after respawn');
-      this.container.addChild(this.player.getContainer());
+      this.entityLayer.addChild(this.player.getContainer());
     }
   }
   
@@ -728,6 +2056,46 @@ export class GameScene extends Scene {
       enemy.setScreenDimensions(width, height);
     }
     
+    if (this.boss) {
+      this.boss.setScreenDimensions(width, height);
+    }
+    
+    for (const meteor of this.meteors) {
+      meteor.setScreenDimensions(width, height);
+    }
+    
+    if (this.bossWarningText) {
+      this.bossWarningText.position.set(width / 2, height / 2);
+    }
+    
+    if (this.waveDirector) {
+      this.waveDirector.setScreenDimensions(width, height);
+    }
+    
+    for (const formation of this.formations) {
+      formation.setScreenDimensions(width, height);
+    }
+    
+    if (this.waveText) {
+      this.waveText.position.set(width - 20, 50);
+    }
+    
+    if (this.grazeText) {
+      this.grazeText.position.set(width - 20, 74);
+    }
+    
+    if (this.comboText) {
+      this.comboText.position.set(width - 20, 112);
+    }
+    
+    if (this.bannerText) {
+      this.bannerText.position.set(width / 2, height * 0.35);
+    }
+    
+    if (this.bannerSubtitleText) {
+      this.bannerSubtitleText.position.set(width / 2, height * 0.35 + 40);
+    }
+    
     // Update game over UI positions
     if (this.gameOverText) {
       this.gameOverText.position.set(width / 2, height / 2 - 60);
@@ -740,6 +2108,74 @@ export class GameScene extends Scene {
     if (this.restartText) {
       this.restartText.position.set(width / 2, height / 2 + 60);
     }
+    
+    if (this.replayOptionsText) {
+      this.replayOptionsText.position.set(width / 2, height / 2 + 100);
+    }
+    
+    if (this.initialsEntry) {
+      this.initialsEntry.getContainer().position.set(width / 2, height / 2 + 120);
+    }
+    
+    if (this.replayIndicatorText) {
+      this.replayIndicatorText.position.set(width - 20, 20);
+    }
+  }
+  
+  /**
+   * Is the game over?
+   */
+  public isOver(): boolean {
+    return this.isGameOver;
+  }
+  
+  /**
+   * Get the current score
+   */
+  public getScore(): number {
+    return this.scoreService.getScore();
+  }
+  
+  /**
+   * Get the seed of the current run
+   */
+  public getSeed(): number {
+    return this.seed;
+  }
+  
+  /**
+   * Get the elapsed game time in seconds
+   */
+  public getGameTime(): number {
+    return this.gameTime;
+  }
+  
+  /**
+   * Get the number of the wave being played
+   */
+  public getWaveNumber(): number {
+    return this.waveDirector ? this.waveDirector.getWaveNumber() : 1;
+  }
+  
+  /**
+   * Get the player ship
+   */
+  public getPlayer(): PlayerShip | null {
+    return this.player;
+  }
+  
+  /**
+   * Get the enemy ships currently in the scene
+   */
+  public getEnemies(): EnemyShip[] {
+    return this.enemies;
+  }
+  
+  /**
+   * Get the boss currently in the scene, if any
+   */
+  public getBoss(): BossShip | null {
+    return this.boss;
   }
   
   /**
@@ -0,0 +1,155 @@
+import { Text } from 'pixi.js';
+import { MenuScene } from './menu-scene';
+import type { MenuItem } from '../library/menu';
+import { GameMode, GAME_MODES } from '../core/game-mode';
+import { HighScores } from '../core/high-scores';
+import type { HighScoreEntry } from '../core/high-scores';
+
+/**
+ * Actions the high scores screen can trigger
+ */
+export interface HighScoresSceneActions {
+  onBack: () => void;
+}
+
+/**
+ * The top ten of each game mode; left and right switch between modes
+ */
+export class HighScoresScene extends MenuScene {
+  /**
+   * Modes in the order left and right cycle through them
+   */
+  private readonly modes: GameMode[] = Object.values(GameMode);
+
+  /**
+   * Mode whose table is shown
+   */
+  private mode: GameMode = GameMode.CLASSIC;
+
+  /**
+   * Position of the entry to highlight, or -1 for none
+   */
+  private highlight: number = -1;
+
+  /**
+   * The table, one line per entry
+   */
+  private tableText: Text | null = null;
+
+  /**
+   * Constructor
+   * @param actions Callbacks for the menu entries
+   */
+  constructor(private actions: HighScoresSceneActions) {
+    super('HIGH SCORES');
+  }
+
+  /**
+   * Initialize the scene
+   */
+  public init(): void {
+    this.tableText = new Text('', {
+      fontFamily: 'Courier New',
+      fontSize: 17,
+      fill: 0xFFFFFF,
+      lineHeight: 26,
+    });
+    this.tableText.anchor.set(0.5, 0);
+
+    super.init();
+    this.container.addChild(this.tableText);
+    this.refreshTable();
+  }
+
+  /**
+   * Create the mode switcher and Back
+   */
+  protected createMenuItems(): MenuItem[] {
+    return [
+      {
+        label: () => `< ${GAME_MODES[this.mode].name} >`,
+        onAdjust: (direction) => this.switchMode(direction),
+      },
+      { label: 'Back', onSelect: () => this.actions.onBack() },
+    ];
+  }
+
+  /**
+   * Go back to the screen the table was opened from
+   */
+  protected onBack(): void {
+    this.actions.onBack();
+  }
+
+  /**
+   * Show a mode's table
+   * @param mode Game mode
+   * @param highlight Position of an entry to highlight, such as one just added
+   */
+  public showMode(mode: GameMode, highlight: number = -1): void {
+    this.mode = mode;
+    this.highlight = highlight;
+    this.refreshTable();
+  }
+
+  /**
+   * Show the previous or next mode's table
+   * @param direction -1 for the previous mode, 1 for the next
+   */
+  private switchMode(direction: number): void {
+    const index = this.modes.indexOf(this.mode);
+    this.showMode(this.modes[(index + direction + this.modes.length) % this.modes.length]);
+  }
+
+  /**
+   * Fill in the table for the shown mode
+   */
+  private refreshTable(): void {
+    if (!this.tableText) return;
+
+    const scores = HighScores.getInstance().getScores(this.mode);
+    const lines = scores.map((entry, index) => this.formatEntry(entry, index));
+
+    // Point out the highlighted entry
+    if (this.highlight >= 0 && this.highlight < lines.length) {
+      lines[this.highlight] = `${lines[this.highlight]} <`;
+    }
+
+    this.setInfo(scores.length > 0 ? '' : 'No scores yet');
+    this.tableText.text = lines.join('\n');
+  }
+
+  /**
+   * Format one line of the table
+   * @param entry The entry
+   * @param index Its position in the table
+   */
+  private formatEntry(entry: HighScoreEntry, index: number): string {
+    const rank = `${index + 1}.`.padStart(3);
+    const score = `${entry.score}`.padStart(8);
+    const wave = `W${entry.wave}`.padStart(4);
+    const minutes = Math.floor(entry.gameTime / 60);
+    const seconds = Math.floor(entry.gameTime % 60).toString().padStart(2, '0');
+    const time = `${minutes}:${seconds}`.padStart(6);
+    const date = new Date(entry.date).toISOString().slice(0, 10);
+
+    return `${rank} ${entry.initials} ${score} ${wave} ${time}  ${date}`;
+  }
+
+  /**
+   * Resize the scene, keeping the menu below the table
+   * @param width New width
+   * @param height New height
+   */
+  public resize(width: number, height: number): void {
+    super.resize(width, height);
+
+    if (this.tableText) {
+      this.tableText.position.set(width / 2, height * 0.2 + 60);
+    }
+
+    if (this.menu) {
+      this.menu.getContainer().position.set(width / 2, height * 0.82);
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { Sprite, Text } from 'pixi.js';
+import { Scene } from './scene';
+import { InputManager } from '../core/input-manager';
+import { AssetLoader } from '../library/asset-loader';
+import { StarBackground } from '../library/star-background';
+import { Menu } from '../library/menu';
+import type { MenuItem } from '../library/menu';
+
+/**
+ * Base class for the front-end screens: a starfield with a title,
+ * an optional block of info text and a menu
+ */
+export abstract class MenuScene extends Scene {
+  /**
+   * Screen dimensions
+   */
+  protected screenWidth: number = 500;
+  protected screenHeight: number = 800;
+
+  /**
+   * Input manager
+   */
+  protected inputManager: InputManager = InputManager.getInstance();
+
+  /**
+   * Static background
+   */
+  private backgroundSprite: Sprite | null = null;
+
+  /**
+   * Scrolling star background
+   */
+  private starBackground: StarBackground | null = null;
+
+  /**
+   * Title text
+   */
+  private titleText: Text | null = null;
+
+  /**
+   * Text below the title
+   */
+  private infoText: Text | null = null;
+
+  /**
+   * The screen's menu
+   */
+  protected menu: Menu | null = null;
+
+  /**
+   * Constructor
+   * @param title Title shown at the top of the screen
+   */
+  constructor(private readonly title: string) {
+    super();
+  }
+
+  /**
+   * Initialize the scene
+   */
+  public init(): void {
+    this.backgroundSprite = new Sprite(AssetLoader.getInstance().getTexture('black'));
+    this.container.addChild(this.backgroundSprite);
+
+    this.starBackground = new StarBackground(this.screenWidth, this.screenHeight, 100);
+    this.container.addChild(this.starBackground.getContainer());
+
+    this.titleText = new Text(this.title, {
+      fontFamily: 'Arial',
+      fontSize: 48,
+      fontWeight: 'bold',
+      fill: 0xFFFFFF,
+      align: 'center',
+    });
+    this.titleText.anchor.set(0.5);
+    this.container.addChild(this.titleText);
+
+    this.infoText = new Text('', {
+      fontFamily: 'Arial',
+      fontSize: 20,
+      fill: 0xCCCCCC,
+      align: 'center',
+      lineHeight: 30,
+    });
+    this.infoText.anchor.set(0.5, 0);
+    this.container.addChild(this.infoText);
+
+    this.menu = new Menu(this.createMenuItems());
+    this.container.addChild(this.menu.getContainer());
+
+    this.resize(this.screenWidth, this.screenHeight);
+  }
+
+  /**
+   * Create the entries of the screen's menu
+   */
+  protected abstract createMenuItems(): MenuItem[];
+
+  /**
+   * Called when the player backs out of the screen (Escape)
+   */
+  protected onBack(): void {
+    // Nowhere to go back to by default
+  }
+
+  /**
+   * Set the text shown below the title
+   * @param text Text to show
+   */
+  protected setInfo(text: string): void {
+    if (this.infoText) {
+      this.infoText.text = text;
+    }
+  }
+
+  /**
+   * Update the scene
+   * @param deltaTime Fixed simulation step in seconds
+   */
+  public update(deltaTime: number): void {
+    if (!this.active) return;
+
+    if (this.starBackground) {
+      this.starBackground.update(deltaTime);
+    }
+
+    if (this.inputManager.isKeyJustPressed('Escape')) {
+      this.onBack();
+    } else if (this.menu) {
+      this.menu.handleInput(this.inputManager);
+    }
+  }
+
+  /**
+   * Activate the scene with the first menu entry highlighted
+   */
+  public activate(): void {
+    super.activate();
+
+    if (this.menu) {
+      this.menu.reset();
+    }
+  }
+
+  /**
+   * Resize the scene
+   * @param width New width
+   * @param height New height
+   */
+  public resize(width: number, height: number): void {
+    this.screenWidth = width;
+    this.screenHeight = height;
+
+    if (this.backgroundSprite) {
+      this.backgroundSprite.width = width;
+      this.backgroundSprite.height = height;
+    }
+
+    if (this.starBackground) {
+      this.starBackground.resize(width, height);
+    }
+
+    if (this.titleText) {
+      this.titleText.position.set(width / 2, height * 0.2);
+    }
+
+    if (this.infoText) {
+      this.infoText.position.set(width / 2, height * 0.2 + 70);
+    }
+
+    if (this.menu) {
+      this.menu.getContainer().position.set(width / 2, height * 0.6);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { MenuScene } from './menu-scene';
+import type { MenuItem } from '../library/menu';
+import { GameMode, GAME_MODES } from '../core/game-mode';
+
+/**
+ * Actions the mode select screen can trigger
+ */
+export interface ModeSelectSceneActions {
+  onModeSelected: (mode: GameMode) => void;
+  onBack: () => void;
+}
+
+/**
+ * Lets the player pick a game mode, describing the highlighted one
+ */
+export class ModeSelectScene extends MenuScene {
+  /**
+   * Modes in menu order
+   */
+  private readonly modes: GameMode[] = Object.values(GameMode);
+
+  /**
+   * Constructor
+   * @param actions Callbacks for the menu entries
+   */
+  constructor(private actions: ModeSelectSceneActions) {
+    super('SELECT MODE');
+  }
+
+  /**
+   * Create one entry per mode, plus Back
+   */
+  protected createMenuItems(): MenuItem[] {
+    return [
+      ...this.modes.map((mode) => ({
+        label: GAME_MODES[mode].name,
+        onSelect: () => this.actions.onModeSelected(mode),
+      })),
+      { label: 'Back', onSelect: () => this.actions.onBack() },
+    ];
+  }
+
+  /**
+   * Go back to the title screen
+   */
+  protected onBack(): void {
+    this.actions.onBack();
+  }
+
+  /**
+   * Update the scene
+   * @param deltaTime Fixed simulation step in seconds
+   */
+  public update(deltaTime: number): void {
+    super.update(deltaTime);
+
+    if (this.active && this.menu) {
+      const mode = this.modes[this.menu.getSelectedIndex()];
+      this.setInfo(mode ? GAME_MODES[mode].description : '');
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { Scene } from './scene';
+import { InputManager } from '../core/input-manager';
+import { PauseMenu } from '../library/pause-menu';
+import type { PauseMenuActions } from '../library/pause-menu';
+
+/**
+ * Overlay scene pushed on top of the game while it is paused
+ */
+export class PauseScene extends Scene {
+  /**
+   * The pause and settings menus
+   */
+  private pauseMenu: PauseMenu;
+
+  /**
+   * Input manager
+   */
+  private inputManager: InputManager = InputManager.getInstance();
+
+  /**
+   * Constructor
+   * @param actions Callbacks for the menu entries
+   */
+  constructor(actions: PauseMenuActions) {
+    super();
+    this.pauseMenu = new PauseMenu(actions, 500, 800);
+  }
+
+  /**
+   * Initialize the scene
+   */
+  public init(): void {
+    this.container.addChild(this.pauseMenu.getContainer());
+  }
+
+  /**
+   * Update the scene
+   * @param _deltaTime Fixed simulation step in seconds
+   */
+  public update(_deltaTime: number): void {
+    if (!this.active) return;
+
+    this.pauseMenu.handleInput(this.inputManager);
+  }
+
+  /**
+   * Activate the scene with the main pause menu showing
+   */
+  public activate(): void {
+    super.activate();
+    this.pauseMenu.show();
+  }
+
+  /**
+   * Resize the scene
+   * @param width New width
+   * @param height New height
+   */
+  public resize(width: number, height: number): void {
+    this.pauseMenu.resize(width, height);
+  }
+}
@@ -0,0 +1,83 @@
+import { MenuScene } from './menu-scene';
+import type { MenuItem } from '../library/menu';
+import { GAME_MODES } from '../core/game-mode';
+import type { RunResult } from './game-scene';
+
+/**
+ * Actions the results screen can trigger
+ */
+export interface ResultsSceneActions {
+  onPlayAgain: (result: RunResult) => void;
+  onWatchReplay: (result: RunResult) => void;
+  onHighScores: (result: RunResult) => void;
+  onChangeMode: () => void;
+  onTitle: () => void;
+}
+
+/**
+ * Summary of a finished run
+ */
+export class ResultsScene extends MenuScene {
+  /**
+   * The run being shown
+   */
+  private result: RunResult | null = null;
+
+  /**
+   * Constructor
+   * @param actions Callbacks for the menu entries
+   */
+  constructor(private actions: ResultsSceneActions) {
+    super('RESULTS');
+  }
+
+  /**
+   * Create the results menu
+   */
+  protected createMenuItems(): MenuItem[] {
+    return [
+      { label: 'Play again', onSelect: () => this.withResult(this.actions.onPlayAgain) },
+      { label: 'Watch replay', onSelect: () => this.withResult(this.actions.onWatchReplay) },
+      { label: 'High scores', onSelect: () => this.withResult(this.actions.onHighScores) },
+      { label: 'Change mode', onSelect: () => this.actions.onChangeMode() },
+      { label: 'Title screen', onSelect: () => this.actions.onTitle() },
+    ];
+  }
+
+  /**
+   * Go back to the title screen
+   */
+  protected onBack(): void {
+    this.actions.onTitle();
+  }
+
+  /**
+   * Show a finished run
+   * @param result The run to summarize
+   */
+  public showResult(result: RunResult): void {
+    this.result = result;
+
+    const minutes = Math.floor(result.gameTime / 60);
+    const seconds = Math.floor(result.gameTime % 60).toString().padStart(2, '0');
+
+    this.setInfo([
+      GAME_MODES[result.mode].name,
+      `Score: ${result.score}`,
+      `Wave: ${result.wave}`,
+      `Time: ${minutes}:${seconds}`,
+      `Seed: ${result.seed}`,
+      result.highScoreRank >= 0 ? `New high score: #${result.highScoreRank + 1}` : '',
+    ].join('\n'));
+  }
+
+  /**
+   * Run an action for the shown run, if there is one
+   * @param action Action to run
+   */
+  private withResult(action: (result: RunResult) => void): void {
+    if (this.result) {
+      action(this.result);
+    }
+  }
+}
@@ -1,5 +1,18 @@
 import { Container } from 'pixi.js';
 
+/**
+ * Names the scenes are registered under
+ */
+export enum SceneName {
+  TITLE = 'title',
+  MODE_SELECT = 'mode-select',
+  GAME = 'game',
+  PAUSE = 'pause',
+  RESULTS = 'results',
+  CREDITS = 'credits',
+  HIGH_SCORES = 'high-scores',
+}
+
 /**
  * Base Scene class for different game scenes
  */
@@ -28,10 +41,19 @@ export abstract class Scene {
   
   /**
    * Update the scene
-   * @param deltaTime Time since last update
+   * @param deltaTime Fixed simulation step in seconds
    */
   public abstract update(deltaTime: number): void;
   
+  /**
+   * Render the scene
+   * Scenes with moving entities interpolate their positions here
+   * @param _alpha Interpolation factor (0-1) between the previous and current simulation step
+   */
+  public render(_alpha: number): void {
+    // Nothing to interpolate by default
+  }
+  
   /**
    * Get the scene container
    */
@@ -0,0 +1,43 @@
+import { MenuScene } from './menu-scene';
+import type { MenuItem } from '../library/menu';
+
+/**
+ * Actions the title screen can trigger
+ */
+export interface TitleSceneActions {
+  onStart: () => void;
+  onHighScores: () => void;
+  onCredits: () => void;
+}
+
+/**
+ * Title screen shown when the game starts
+ */
+export class TitleScene extends MenuScene {
+  /**
+   * Constructor
+   * @param actions Callbacks for the menu entries
+   */
+  constructor(private actions: TitleSceneActions) {
+    super('SPACE SHOOTER');
+  }
+
+  /**
+   * Initialize the scene
+   */
+  public init(): void {
+    super.init();
+    this.setInfo('Arrows / d-pad to move, SPACE / A to select');
+  }
+
+  /**
+   * Create the title menu
+   */
+  protected createMenuItems(): MenuItem[] {
+    return [
+      { label: 'Start', onSelect: () => this.actions.onStart() },
+      { label: 'High scores', onSelect: () => this.actions.onHighScores() },
+      { label: 'Credits', onSelect: () => this.actions.onCredits() },
+    ];
+  }
+}
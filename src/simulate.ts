@@ -0,0 +1,149 @@
+import { HeadlessGame } from './core/headless-game';
+import { RandomService } from './core/random';
+import { FIXED_TIME_STEP } from './core/fixed-timestep';
+import { EnemyShip, EnemyType } from './entities/enemy-ship';
+import type { HeadlessController, HeadlessGameResult } from './core/headless-game';
+
+/**
+ * Headless batch simulation entry point (run with `npm run simulate -- --games 100`)
+ *
+ * Options:
+ *   --games <n>    Number of games to simulate (default 10)
+ *   --seconds <n>  Maximum simulated seconds per game (default 300)
+ *   --seed <n>     Seed of the first game; game i uses seed + i (default random)
+ *   --verify       Play each game back from its replay and check it reproduces,
+ *                  and check a few behaviours replays would not catch
+ *   --verbose      Keep the game's console logging
+ */
+
+/**
+ * Read a numeric command line option
+ * @param name Option name without dashes
+ * @param fallback Value used when the option is missing
+ */
+function readOption(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1 || index + 1 >= process.argv.length) {
+    return fallback;
+  }
+
+  const value = Number(process.argv[index + 1]);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Simple autopilot: keep firing, line up under the lowest enemy on screen
+ * (or the boss) and launch missiles when enemies close in
+ */
+const autopilot: HeadlessController = (scene, input) => {
+  const player = scene.getPlayer();
+  input.setKeyPressed(' ', true);
+  input.setKeyPressed('ArrowLeft', false);
+  input.setKeyPressed('ArrowRight', false);
+
+  if (!player) return;
+
+  let target: number | null = null;
+  let lowestY = -Infinity;
+  for (const enemy of scene.getEnemies()) {
+    if (enemy.isActive() && enemy.getY() > 0 && enemy.getY() > lowestY) {
+      lowestY = enemy.getY();
+      target = enemy.getX();
+    }
+  }
+
+  // With no enemy in reach, go after the boss
+  const boss = scene.getBoss();
+  if (target === null && boss && boss.isVulnerable()) {
+    target = boss.getX();
+  }
+
+  input.setKeyPressed('x', lowestY > player.getY() - 250);
+
+  if (target === null) return;
+
+  if (target < player.getX() - 5) {
+    input.setKeyPressed('ArrowLeft', true);
+  } else if (target > player.getX() + 5) {
+    input.setKeyPressed('ArrowRight', true);
+  }
+};
+
+/**
+ * Check that a hit breaking through a shielded enemy's shield leaves the
+ * shield down once the damage flash is over, instead of refilling it
+ * @param seed Seed of the game the enemy is made in
+ * @returns True if the shield stayed down
+ */
+function checkShieldStaysDown(seed: number): boolean {
+  const game = new HeadlessGame(seed);
+  const enemy = new EnemyShip(400, 100, EnemyType.SHIELDED, 800, 600);
+  enemy.takeDamage(enemy.getShield() + 20);
+
+  for (let i = 0; i < 30; i++) {
+    enemy.update(FIXED_TIME_STEP);
+  }
+
+  const shield = enemy.getShield();
+  enemy.destroy();
+  game.destroy();
+  return shield === 0;
+}
+
+const games = readOption('games', 10);
+const maxSeconds = readOption('seconds', 300);
+const baseSeed = readOption('seed', RandomService.createSeed());
+const verify = process.argv.includes('--verify');
+
+// The game logs heavily; keep the summary readable unless asked otherwise
+const log = console.log.bind(console);
+if (!process.argv.includes('--verbose')) {
+  console.log = () => {};
+  console.warn = () => {};
+}
+
+const results: HeadlessGameResult[] = [];
+const startTime = Date.now();
+let mismatches = 0;
+
+for (let i = 0; i < games; i++) {
+  const game = new HeadlessGame((baseSeed + i) >>> 0);
+  const result = game.run(maxSeconds, autopilot);
+  const replay = game.getScene().getReplay();
+  game.destroy();
+
+  results.push(result);
+  log(`Game ${i + 1} (seed ${result.seed}): score ${result.score}, lives ${result.lives}, ` +
+    `${result.gameTime.toFixed(1)}s${result.gameOver ? ' (game over)' : ''}`);
+
+  if (verify && replay) {
+    // Replaying the recorded input must reproduce the exact same run
+    const playback = new HeadlessGame(replay.seed);
+    playback.getScene().watchReplay(replay);
+    const replayed = playback.run(Infinity);
+    playback.destroy();
+
+    if (replayed.score !== result.score || replayed.lives !== result.lives) {
+      mismatches++;
+      log(`  Replay mismatch: score ${replayed.score}, lives ${replayed.lives}`);
+    }
+  }
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1);
+
+log(`\n${games} games in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+log(`Average score: ${average(results.map(result => result.score)).toFixed(0)}`);
+log(`Average survival: ${average(results.map(result => result.gameTime)).toFixed(1)}s`);
+log(`Game over rate: ${(average(results.map(result => (result.gameOver ? 1 : 0))) * 100).toFixed(0)}%`);
+
+if (verify) {
+  log(`Replay mismatches: ${mismatches}`);
+
+  const shieldStaysDown = checkShieldStaysDown(baseSeed);
+  log(`Shield stays down after an overflowing hit: ${shieldStaysDown ? 'yes' : 'no'}`);
+
+  if (mismatches > 0 || !shieldStaysDown) {
+    process.exitCode = 1;
+  }
+}
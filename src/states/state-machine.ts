@@ -16,7 +16,7 @@ export interface State {
   /**
    * Called when updating the state
    * @param owner The object that owns this state
-   * @param deltaTime The time since the last update
+   * @param deltaTime The time since the last update in seconds
    */
   update(owner: StateMachine, deltaTime: number): void;
   
@@ -85,7 +85,7 @@ export class StateMachine {
   
   /**
    * Update the current state
-   * @param deltaTime The time since the last update
+   * @param deltaTime The time since the last update in seconds
    */
   public update(deltaTime: number): void {
     if (this.currentState) {